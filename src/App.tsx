@@ -8,6 +8,8 @@ import AdminLayout from './components/layout/AdminLayout';
 import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import ManageUsers from './pages/ManageUsers';
+import UserDetail from './pages/UserDetail';
+import Leads from './pages/Leads';
 import ManageSubscriptions from './pages/ManageSubscriptions';
 import ManageCoupons from './pages/ManageCoupons';
 import Tickets from './pages/Tickets';
@@ -17,6 +19,7 @@ import BlogManagement from './pages/BlogManagement';
 import AIBlogGenerator from './pages/AIBlogGenerator';
 import Analytics from './pages/Analytics';
 import Emails from './pages/Emails';
+import Campaigns from './pages/Campaigns';
 import Logs from './pages/Logs';
 import Settings from './pages/Settings';
 import ContactSettings from './pages/ContactSettings';
@@ -78,6 +81,8 @@ function App() {
             >
                 <Route path="/" element={<Dashboard />} />
                 <Route path="/users" element={<ManageUsers />} />
+                <Route path="/users/:userId" element={<UserDetail />} />
+                <Route path="/leads" element={<Leads />} />
                 <Route path="/subscriptions" element={<ManageSubscriptions />} />
                 <Route path="/coupons" element={<ManageCoupons />} />
                 <Route path="/tickets" element={<Tickets />} />
@@ -87,6 +92,7 @@ function App() {
                 <Route path="/ai-blog" element={<AIBlogGenerator />} />
                 <Route path="/analytics" element={<Analytics />} />
                 <Route path="/emails" element={<Emails />} />
+                <Route path="/campaigns" element={<Campaigns />} />
                 <Route path="/logs" element={<Logs />} />
                 <Route path="/contact-settings" element={<ContactSettings />} />
                 <Route path="/smtp-settings" element={<SmtpSettings />} />
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { BlogPost, BlogTargetSite } from '../../lib/database.types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// The date a post went or will go live, if it has one
+const postLiveDate = (post: BlogPost) => (post.is_published ? post.published_at : post.scheduled_at);
+
+const toDateKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+interface BlogCalendarProps {
+    posts: BlogPost[];
+    sites: { value: BlogTargetSite; label: string; className: string }[];
+    onSelectPost: (post: BlogPost) => void;
+}
+
+export default function BlogCalendar({ posts, sites, onSelectPost }: BlogCalendarProps) {
+    const [calendarMonth, setCalendarMonth] = useState(() => startOfMonth(new Date()));
+
+    const calendarDays = (() => {
+        const year = calendarMonth.getFullYear();
+        const month = calendarMonth.getMonth();
+        const offset = calendarMonth.getDay();
+        const daysInMonth = new Date(year, month + 1, 0).getDate();
+        const cells: (Date | null)[] = [
+            ...Array.from({ length: offset }, () => null),
+            ...Array.from({ length: daysInMonth }, (_, i) => new Date(year, month, i + 1)),
+        ];
+        while (cells.length % 7 !== 0) cells.push(null);
+        return cells;
+    })();
+
+    const postsByDay = posts.reduce<Record<string, BlogPost[]>>((days, post) => {
+        const liveDate = postLiveDate(post);
+        if (liveDate) {
+            const key = toDateKey(new Date(liveDate));
+            days[key] = [...(days[key] || []), post];
+        }
+        return days;
+    }, {});
+
+    const shiftMonth = (months: number) =>
+        setCalendarMonth(new Date(calendarMonth.getFullYear(), calendarMonth.getMonth() + months, 1));
+
+    return (
+        <div className="card p-4">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <div className="flex items-center gap-2">
+                    <button onClick={() => shiftMonth(-1)} className="p-2 hover:bg-dark-700 rounded-lg text-dark-400" title="Previous month">
+                        <ChevronLeft className="w-5 h-5" />
+                    </button>
+                    <h2 className="text-lg font-semibold text-white w-44 text-center">
+                        {calendarMonth.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                    </h2>
+                    <button onClick={() => shiftMonth(1)} className="p-2 hover:bg-dark-700 rounded-lg text-dark-400" title="Next month">
+                        <ChevronRight className="w-5 h-5" />
+                    </button>
+                    <button
+                        onClick={() => setCalendarMonth(startOfMonth(new Date()))}
+                        className="btn-ghost btn-sm"
+                    >
+                        Today
+                    </button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                    {sites.map((site) => (
+                        <span key={site.value} className={`px-2 py-0.5 rounded-full border ${site.className}`}>
+                            {site.label}
+                        </span>
+                    ))}
+                    <span className="text-dark-500">Dashed = scheduled</span>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-7 gap-1">
+                {WEEKDAYS.map((day) => (
+                    <div key={day} className="text-center text-dark-400 text-xs font-semibold uppercase py-2">
+                        {day}
+                    </div>
+                ))}
+                {calendarDays.map((day, index) => {
+                    const dayPosts = day ? postsByDay[toDateKey(day)] || [] : [];
+                    const isToday = day && toDateKey(day) === toDateKey(new Date());
+                    return (
+                        <div
+                            key={index}
+                            className={`min-h-[6rem] rounded-lg p-1.5 ${day ? 'bg-dark-900/40 border border-dark-700/50' : ''} ${isToday ? 'border-primary-500/60' : ''}`}
+                        >
+                            {day && (
+                                <>
+                                    <p className={`text-xs mb-1 ${isToday ? 'text-primary-400 font-semibold' : 'text-dark-500'}`}>
+                                        {day.getDate()}
+                                    </p>
+                                    <div className="space-y-1">
+                                        {dayPosts.map((post) => (
+                                            <button
+                                                key={post.id}
+                                                onClick={() => onSelectPost(post)}
+                                                className={`w-full text-left px-1.5 py-0.5 rounded text-xs truncate border ${sites.find((site) => site.value === post.target_site)?.className || sites[0].className
+                                                    } ${post.is_published ? '' : 'border-dashed'}`}
+                                                title={`${post.title} · ${new Date(postLiveDate(post) || post.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                                            >
+                                                {post.title}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,267 @@
+import { useState, useEffect } from 'react';
+import { X, Plus, Trash2, Edit, CheckCircle, RefreshCw, Unlink, Route } from 'lucide-react';
+import { getSiteRoutes, createSiteRoutes, deleteSiteRoute, getBlogPostStatus, type BlogPostStatus, type SiteRoute } from '../../lib/supabase';
+import { DEFAULT_SITE_ROUTES, getBrokenLinkReport, type BrokenLinkReportRow } from '../../lib/links';
+import type { BlogPost, BlogTargetSite } from '../../lib/database.types';
+
+interface BlogLinkReportModalProps {
+    sites: { value: BlogTargetSite; label: string; className: string }[];
+    statusBadges: Record<BlogPostStatus, { label: string; className: string }>;
+    onClose: () => void;
+    onEditPost: (post: BlogPost) => void;
+    // Called after a route is added or removed, since the routes decide which links are broken
+    onRoutesChange: () => void;
+    onError: (message: string) => void;
+}
+
+export default function BlogLinkReportModal({ sites, statusBadges, onClose, onEditPost, onRoutesChange, onError }: BlogLinkReportModalProps) {
+    const [tab, setTab] = useState<'broken' | 'routes'>('broken');
+    const [report, setReport] = useState<BrokenLinkReportRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [routes, setRoutes] = useState<SiteRoute[]>([]);
+    const [newRoute, setNewRoute] = useState({ path: '', label: '', description: '', target_site: 'stachbit.in' as BlogTargetSite });
+
+    useEffect(() => {
+        loadReport();
+    }, []);
+
+    async function loadReport() {
+        setLoading(true);
+        const [{ data, error }, { data: routeList }] = await Promise.all([getBrokenLinkReport(), getSiteRoutes()]);
+        if (error) onError('Failed to scan links: ' + error.message);
+        setReport(data || []);
+        setRoutes(routeList || []);
+        setLoading(false);
+    }
+
+    const handleAddRoutes = async (added: { path: string; label: string; description?: string; target_site: BlogTargetSite }[]) => {
+        const { error } = await createSiteRoutes(added);
+        if (error) {
+            onError(error.message);
+            return;
+        }
+        setNewRoute({ path: '', label: '', description: '', target_site: 'stachbit.in' });
+        onRoutesChange();
+        await loadReport();
+    };
+
+    const handleDeleteRoute = async (route: SiteRoute) => {
+        if (!window.confirm(`Remove ${route.path}? Posts linking to it will be reported as broken.`)) return;
+        const { error } = await deleteSiteRoute(route.id);
+        if (error) {
+            onError(error.message);
+            return;
+        }
+        onRoutesChange();
+        await loadReport();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-start justify-center z-50 p-4 overflow-y-auto">
+            <div className="glass-card p-6 w-full max-w-5xl my-8">
+                <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-xl font-bold text-white">Internal Links</h2>
+                    <div className="flex items-center gap-2">
+                        <button onClick={loadReport} disabled={loading} className="btn-ghost btn-sm">
+                            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                            Rescan
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="p-2 hover:bg-dark-700 rounded-lg transition-colors"
+                        >
+                            <X className="w-5 h-5 text-dark-400" />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex gap-2 mb-4">
+                    <button
+                        onClick={() => setTab('broken')}
+                        className={tab === 'broken' ? 'btn-primary btn-sm' : 'btn-secondary btn-sm'}
+                    >
+                        <Unlink className="w-4 h-4" />
+                        Broken Links
+                    </button>
+                    <button
+                        onClick={() => setTab('routes')}
+                        className={tab === 'routes' ? 'btn-primary btn-sm' : 'btn-secondary btn-sm'}
+                    >
+                        <Route className="w-4 h-4" />
+                        Site Routes
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="p-8 text-center">
+                        <div className="spinner text-primary-400 mx-auto" />
+                    </div>
+                ) : tab === 'broken' ? (
+                    report.length === 0 ? (
+                        <div className="text-center py-8">
+                            <CheckCircle className="w-12 h-12 text-green-400 mx-auto mb-3" />
+                            <p className="text-dark-300">Every internal link in every post points to a valid page</p>
+                        </div>
+                    ) : (
+                        <div className="space-y-3 max-h-[65vh] overflow-y-auto">
+                            <p className="text-dark-400 text-sm">
+                                {report.reduce((sum, row) => sum + row.links.length, 0)} broken links in {report.length} posts
+                            </p>
+                            {report.map(({ post, links }) => (
+                                <div key={post.id} className="p-4 rounded-xl border border-dark-700 bg-dark-900/40">
+                                    <div className="flex items-center justify-between gap-3 mb-2">
+                                        <div className="flex items-center gap-2 min-w-0">
+                                            <span className="text-white font-medium truncate">{post.title}</span>
+                                            <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${statusBadges[getBlogPostStatus(post)].className}`}>
+                                                {statusBadges[getBlogPostStatus(post)].label}
+                                            </span>
+                                        </div>
+                                        <button
+                                            onClick={() => onEditPost(post)}
+                                            className="btn-secondary btn-sm shrink-0"
+                                        >
+                                            <Edit className="w-4 h-4" />
+                                            Fix
+                                        </button>
+                                    </div>
+                                    <div className="space-y-1">
+                                        {links.map((link, index) => (
+                                            <p key={index} className="text-sm text-dark-300">
+                                                <span className="text-dark-500">Line {link.line}:</span>{' '}
+                                                <code className="text-red-300">{link.url}</code>
+                                                {link.text && <span className="text-dark-400"> "{link.text}"</span>} · {link.reason}
+                                            </p>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )
+                ) : (
+                    <div className="space-y-4">
+                        <p className="text-dark-400 text-sm">
+                            Posts may link to these pages and to published posts under /blog/. End a path with /* to allow every page beneath it.
+                            The AI blog generator is given the same list.
+                        </p>
+                        {routes.length === 0 && (
+                            <div className="p-4 rounded-xl border border-dashed border-dark-600 flex flex-wrap items-center justify-between gap-3">
+                                <p className="text-dark-300 text-sm">
+                                    No routes added yet, so the {DEFAULT_SITE_ROUTES.length} built-in stachbit.in routes are used.
+                                    Import them before adding your own, or they stop applying.
+                                </p>
+                                <button
+                                    onClick={() =>
+                                        handleAddRoutes(
+                                            DEFAULT_SITE_ROUTES.map((route) => ({ ...route, description: route.description || undefined }))
+                                        )
+                                    }
+                                    className="btn-secondary btn-sm"
+                                >
+                                    Import built-in routes
+                                </button>
+                            </div>
+                        )}
+                        {routes.length > 0 && (
+                            <div className="overflow-x-auto">
+                                <table className="table">
+                                    <thead>
+                                        <tr>
+                                            <th>Path</th>
+                                            <th>Label</th>
+                                            <th>Site</th>
+                                            <th className="w-16"></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {routes.map((route) => (
+                                            <tr key={route.id}>
+                                                <td>
+                                                    <code className="text-primary-400">{route.path}</code>
+                                                </td>
+                                                <td className="text-dark-300">
+                                                    {route.label}
+                                                    {route.description && <p className="text-dark-500 text-xs">{route.description}</p>}
+                                                </td>
+                                                <td>
+                                                    <span className={`px-2 py-0.5 rounded-full text-xs border ${sites.find((site) => site.value === route.target_site)?.className}`}>
+                                                        {sites.find((site) => site.value === route.target_site)?.label}
+                                                    </span>
+                                                </td>
+                                                <td>
+                                                    <button
+                                                        onClick={() => handleDeleteRoute(route)}
+                                                        className="p-2 hover:bg-red-500/20 rounded-lg text-red-400"
+                                                        title="Remove route"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                        <form
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                handleAddRoutes([{ ...newRoute, description: newRoute.description || undefined }]);
+                            }}
+                            className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_10rem_auto] gap-2 items-end"
+                        >
+                            <div>
+                                <label className="label">Path</label>
+                                <input
+                                    type="text"
+                                    value={newRoute.path}
+                                    onChange={(e) => setNewRoute({ ...newRoute, path: e.target.value })}
+                                    className="input"
+                                    placeholder="/pricing"
+                                    pattern="/.*"
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <label className="label">Label</label>
+                                <input
+                                    type="text"
+                                    value={newRoute.label}
+                                    onChange={(e) => setNewRoute({ ...newRoute, label: e.target.value })}
+                                    className="input"
+                                    placeholder="our pricing"
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <label className="label">Description</label>
+                                <input
+                                    type="text"
+                                    value={newRoute.description}
+                                    onChange={(e) => setNewRoute({ ...newRoute, description: e.target.value })}
+                                    className="input"
+                                    placeholder="plans and prices"
+                                />
+                            </div>
+                            <div>
+                                <label className="label">Site</label>
+                                <select
+                                    value={newRoute.target_site}
+                                    onChange={(e) => setNewRoute({ ...newRoute, target_site: e.target.value as BlogTargetSite })}
+                                    className="select"
+                                >
+                                    {sites.map((site) => (
+                                        <option key={site.value} value={site.value}>{site.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <button type="submit" className="btn-primary">
+                                <Plus className="w-5 h-5" />
+                                Add
+                            </button>
+                        </form>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
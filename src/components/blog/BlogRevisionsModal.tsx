@@ -0,0 +1,233 @@
+import { useState, useEffect } from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { getBlogPostRevisions, restoreBlogPostRevision, type BlogPostRevision } from '../../lib/supabase';
+import { diffLines, formatRelativeTime, type DiffLine } from '../../lib/utils';
+import type { BlogPost } from '../../lib/database.types';
+
+const REVISION_FIELD_LABELS: Record<string, string> = {
+    title: 'Title',
+    excerpt: 'Excerpt',
+    author_name: 'Author',
+    meta_title: 'Meta Title',
+    meta_description: 'Meta Description',
+    meta_keywords: 'Meta Keywords',
+};
+
+// Pairs each run of removed lines with the added lines that replaced it
+const toSideBySide = (lines: DiffLine[]) => {
+    const rows: { left: DiffLine | null; right: DiffLine | null }[] = [];
+    let i = 0;
+    while (i < lines.length) {
+        if (lines[i].type === 'same') {
+            rows.push({ left: lines[i], right: lines[i] });
+            i++;
+            continue;
+        }
+        const removed: DiffLine[] = [];
+        const added: DiffLine[] = [];
+        while (i < lines.length && lines[i].type !== 'same') {
+            (lines[i].type === 'removed' ? removed : added).push(lines[i]);
+            i++;
+        }
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            rows.push({ left: removed[k] || null, right: added[k] || null });
+        }
+    }
+    return rows;
+};
+
+const diffCellClass = (line: DiffLine | null) =>
+    !line
+        ? 'bg-dark-900/30'
+        : line.type === 'removed'
+            ? 'bg-red-500/10 text-red-300'
+            : line.type === 'added'
+                ? 'bg-green-500/10 text-green-300'
+                : 'text-dark-300';
+
+interface BlogRevisionsModalProps {
+    postId: string;
+    onClose: () => void;
+    onRestored: (post: BlogPost, revision: BlogPostRevision) => void;
+    onError: (message: string) => void;
+}
+
+export default function BlogRevisionsModal({ postId, onClose, onRestored, onError }: BlogRevisionsModalProps) {
+    const [revisions, setRevisions] = useState<BlogPostRevision[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [compare, setCompare] = useState<{ from: string; to: string }>({ from: '', to: '' });
+    const [restoring, setRestoring] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadRevisions();
+    }, [postId]);
+
+    async function loadRevisions() {
+        setLoading(true);
+        const { data, error } = await getBlogPostRevisions(postId);
+        if (error) onError('Failed to load revisions: ' + error.message);
+        const list = data || [];
+        setRevisions(list);
+        setCompare({ from: list[1]?.id || list[0]?.id || '', to: list[0]?.id || '' });
+        setLoading(false);
+    }
+
+    const handleRestore = async (revision: BlogPostRevision) => {
+        if (!window.confirm(`Restore revision ${revision.revision}? The current content will be kept in the history.`)) {
+            return;
+        }
+
+        setRestoring(revision.id);
+        const { data, error } = await restoreBlogPostRevision(revision);
+        setRestoring(null);
+
+        if (error || !data) {
+            onError('Failed to restore: ' + (error?.message || 'Unknown error'));
+            return;
+        }
+        onRestored(data, revision);
+        await loadRevisions();
+    };
+
+    const fromRevision = revisions.find((revision) => revision.id === compare.from);
+    const toRevision = revisions.find((revision) => revision.id === compare.to);
+    const contentRows = fromRevision && toRevision ? toSideBySide(diffLines(fromRevision.content, toRevision.content)) : [];
+    const changedFields = fromRevision && toRevision
+        ? Object.keys(REVISION_FIELD_LABELS).filter(
+            (field) => fromRevision[field as keyof BlogPostRevision] !== toRevision[field as keyof BlogPostRevision]
+        )
+        : [];
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-start justify-center z-[60] p-4 overflow-y-auto">
+            <div className="glass-card p-6 w-full max-w-6xl my-8">
+                <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-xl font-bold text-white">Revision History</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-dark-700 rounded-lg transition-colors"
+                    >
+                        <X className="w-5 h-5 text-dark-400" />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="p-8 text-center">
+                        <div className="spinner text-primary-400 mx-auto" />
+                    </div>
+                ) : revisions.length === 0 ? (
+                    <p className="text-dark-400 text-center py-8">
+                        No revisions yet. One is saved every time the title, content, author or SEO fields change.
+                    </p>
+                ) : (
+                    <div className="grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-6">
+                        {/* Revision List */}
+                        <div className="space-y-2 max-h-[70vh] overflow-y-auto">
+                            {revisions.map((revision, index) => (
+                                <div
+                                    key={revision.id}
+                                    onClick={() => setCompare({ from: revisions[index + 1]?.id || revision.id, to: revision.id })}
+                                    className={`p-3 rounded-xl border cursor-pointer transition-colors ${compare.to === revision.id
+                                        ? 'border-primary-500/50 bg-primary-500/10'
+                                        : 'border-dark-700 hover:bg-dark-800'
+                                        }`}
+                                >
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="text-white font-medium">Revision {revision.revision}</span>
+                                        {index === 0 ? (
+                                            <span className="badge-success">Current</span>
+                                        ) : (
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    handleRestore(revision);
+                                                }}
+                                                disabled={restoring !== null}
+                                                className="p-1.5 hover:bg-dark-700 rounded-lg text-dark-400 hover:text-white"
+                                                title="Restore this revision"
+                                            >
+                                                {restoring === revision.id ? (
+                                                    <div className="spinner w-4 h-4" />
+                                                ) : (
+                                                    <RotateCcw className="w-4 h-4" />
+                                                )}
+                                            </button>
+                                        )}
+                                    </div>
+                                    <p className="text-dark-400 text-sm truncate">{revision.title}</p>
+                                    <p className="text-dark-500 text-xs mt-1">
+                                        {formatRelativeTime(revision.created_at)}
+                                        {' · '}
+                                        {revision.user_profiles?.full_name || revision.user_profiles?.email || 'Unknown'}
+                                    </p>
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Diff */}
+                        <div className="space-y-4 min-w-0">
+                            <div className="grid grid-cols-2 gap-4">
+                                {(['from', 'to'] as const).map((side) => (
+                                    <select
+                                        key={side}
+                                        value={compare[side]}
+                                        onChange={(e) => setCompare({ ...compare, [side]: e.target.value })}
+                                        className="select"
+                                    >
+                                        {revisions.map((revision) => (
+                                            <option key={revision.id} value={revision.id}>
+                                                Revision {revision.revision} · {new Date(revision.created_at).toLocaleString()}
+                                            </option>
+                                        ))}
+                                    </select>
+                                ))}
+                            </div>
+
+                            {fromRevision && toRevision && (
+                                <>
+                                    {changedFields.length > 0 && (
+                                        <div className="space-y-2">
+                                            {changedFields.map((field) => (
+                                                <div key={field} className="grid grid-cols-2 gap-4 text-sm">
+                                                    <div className="p-2 rounded-lg bg-red-500/10 text-red-300 break-words">
+                                                        <span className="text-dark-400 text-xs block">{REVISION_FIELD_LABELS[field]}</span>
+                                                        {String(fromRevision[field as keyof BlogPostRevision] || '—')}
+                                                    </div>
+                                                    <div className="p-2 rounded-lg bg-green-500/10 text-green-300 break-words">
+                                                        <span className="text-dark-400 text-xs block">{REVISION_FIELD_LABELS[field]}</span>
+                                                        {String(toRevision[field as keyof BlogPostRevision] || '—')}
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    <div className="border border-dark-700 rounded-xl overflow-hidden max-h-[55vh] overflow-y-auto">
+                                        {contentRows.every((row) => row.left?.type === 'same') ? (
+                                            <p className="text-dark-400 text-sm p-4">The content is identical in both revisions.</p>
+                                        ) : (
+                                            <table className="w-full table-fixed font-mono text-xs">
+                                                <tbody>
+                                                    {contentRows.map((row, index) => (
+                                                        <tr key={index}>
+                                                            <td className={`px-3 py-0.5 align-top whitespace-pre-wrap break-words border-r border-dark-700 ${diffCellClass(row.left)}`}>
+                                                                {row.left?.text}
+                                                            </td>
+                                                            <td className={`px-3 py-0.5 align-top whitespace-pre-wrap break-words ${diffCellClass(row.right)}`}>
+                                                                {row.right?.text}
+                                                            </td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        )}
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
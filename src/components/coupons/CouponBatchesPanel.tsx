@@ -0,0 +1,114 @@
+import { Layers, Download, Power } from 'lucide-react';
+import { getCoupons, setCouponBatchActive, type Coupon, type CouponBatch } from '../../lib/supabase';
+import { downloadCSV, formatDate, formatDiscount } from '../../lib/utils';
+
+interface CouponBatchesPanelProps {
+    batches: CouponBatch[];
+    loading: boolean;
+    onChange: () => void;
+    onNotify: (type: 'success' | 'error', message: string) => void;
+}
+
+export default function CouponBatchesPanel({ batches, loading, onChange, onNotify }: CouponBatchesPanelProps) {
+    const handleToggleBatch = async (batch: CouponBatch, isActive: boolean) => {
+        if (!confirm(`${isActive ? 'Activate' : 'Deactivate'} all ${batch.quantity} codes in "${batch.name}"?`)) return;
+        const { error } = await setCouponBatchActive(batch.id, isActive);
+        if (error) {
+            onNotify('error', error.message);
+            return;
+        }
+        onNotify('success', `${batch.name} ${isActive ? 'activated' : 'deactivated'}`);
+        onChange();
+    };
+
+    const handleExportBatch = async (batch: CouponBatch) => {
+        const { data } = await getCoupons({ batchId: batch.id });
+        if (!data) return;
+        downloadCSV(
+            (data as Coupon[]).map((coupon) => ({
+                code: coupon.code,
+                discount: formatDiscount(coupon),
+                uses: coupon.current_uses,
+                max_uses: coupon.max_uses,
+                valid_until: coupon.valid_until,
+                is_active: coupon.is_active,
+            })),
+            `coupon-batch-${batch.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`
+        );
+    };
+
+    return (
+        <div className="card overflow-hidden">
+            {loading ? (
+                <div className="p-8 text-center">
+                    <div className="spinner text-primary-400 mx-auto mb-4" />
+                    <p className="text-dark-400">Loading batches...</p>
+                </div>
+            ) : batches.length === 0 ? (
+                <div className="p-12 text-center">
+                    <Layers className="w-16 h-16 text-dark-600 mx-auto mb-4" />
+                    <h3 className="text-xl font-semibold text-white mb-2">No batches yet</h3>
+                    <p className="text-dark-400">Generate a batch of single-use codes for a campaign or partner</p>
+                </div>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="table">
+                        <thead>
+                            <tr>
+                                <th>Batch</th>
+                                <th>Pattern</th>
+                                <th>Codes</th>
+                                <th>Used</th>
+                                <th>Active</th>
+                                <th>Created</th>
+                                <th className="w-24">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {batches.map((batch) => {
+                                const codes = batch.coupons || [];
+                                const active = codes.filter((coupon) => coupon.is_active).length;
+                                return (
+                                    <tr key={batch.id}>
+                                        <td className="text-white font-medium">{batch.name}</td>
+                                        <td>
+                                            <code className="bg-dark-700 px-2 py-1 rounded text-primary-400 font-mono text-sm">
+                                                {batch.prefix}{batch.pattern}
+                                            </code>
+                                        </td>
+                                        <td className="text-dark-400">{codes.length}</td>
+                                        <td className="text-dark-400">{codes.filter((coupon) => coupon.current_uses > 0).length}</td>
+                                        <td>
+                                            <span className={`badge ${active > 0 ? 'badge-success' : 'badge-danger'}`}>
+                                                {active} / {codes.length}
+                                            </span>
+                                        </td>
+                                        <td className="text-dark-400 text-sm">{formatDate(batch.created_at)}</td>
+                                        <td>
+                                            <div className="flex items-center gap-1">
+                                                <button
+                                                    onClick={() => handleExportBatch(batch)}
+                                                    className="p-2 hover:bg-dark-700 rounded-lg text-dark-400"
+                                                    title="Export codes"
+                                                >
+                                                    <Download className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => handleToggleBatch(batch, active === 0)}
+                                                    className={`p-2 rounded-lg ${active > 0 ? 'hover:bg-red-500/20 text-red-400' : 'hover:bg-green-500/20 text-green-400'}`}
+                                                    title={active > 0 ? 'Deactivate all codes' : 'Activate all codes'}
+                                                >
+                                                    <Power className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react';
+import { X, Download } from 'lucide-react';
+import { getCouponRedemptions, type Coupon, type CouponRedemption } from '../../lib/supabase';
+import { downloadCSV, formatCurrency, formatDate } from '../../lib/utils';
+
+// Upper bound for the redemption log shown and exported per coupon
+const REDEMPTION_LOG_LIMIT = 1000;
+
+interface CouponRedemptionsModalProps {
+    coupon: Coupon;
+    onClose: () => void;
+}
+
+export default function CouponRedemptionsModal({ coupon, onClose }: CouponRedemptionsModalProps) {
+    const [redemptions, setRedemptions] = useState<CouponRedemption[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        setRedemptions([]);
+        setLoading(true);
+        getCouponRedemptions({ couponId: coupon.id, limit: REDEMPTION_LOG_LIMIT }).then(({ data }) => {
+            setRedemptions(data || []);
+            setLoading(false);
+        });
+    }, [coupon.id]);
+
+    const handleExport = () => {
+        downloadCSV(
+            redemptions.map((redemption) => ({
+                created_at: redemption.created_at,
+                code: coupon.code,
+                status: redemption.status,
+                user_name: redemption.user_profiles?.full_name || '',
+                user_email: redemption.user_profiles?.email || '',
+                plan: redemption.subscription_plans?.name || '',
+                billing_cycle: redemption.billing_cycle || '',
+                original_amount: redemption.original_amount,
+                discount_amount: redemption.discount_amount,
+                final_amount: redemption.final_amount,
+            })),
+            `coupon-${coupon.code.toLowerCase()}-redemptions`
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 overflow-y-auto">
+            <div className="glass-card p-6 w-full max-w-4xl my-8">
+                <div className="flex items-center justify-between mb-6">
+                    <div>
+                        <h2 className="text-xl font-bold text-white">Redemptions of {coupon.code}</h2>
+                        <p className="text-dark-400 text-sm">
+                            {redemptions.filter((r) => r.status === 'completed').length} completed · {redemptions.length} applied at checkout
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={handleExport}
+                            disabled={redemptions.length === 0}
+                            className="btn-secondary btn-sm"
+                        >
+                            <Download className="w-4 h-4" />
+                            Export CSV
+                        </button>
+                        <button onClick={onClose} className="p-1 hover:bg-dark-700 rounded">
+                            <X className="w-5 h-5 text-dark-400" />
+                        </button>
+                    </div>
+                </div>
+                {loading ? (
+                    <div className="p-8 text-center">
+                        <div className="spinner text-primary-400 mx-auto" />
+                    </div>
+                ) : redemptions.length === 0 ? (
+                    <p className="text-dark-400 text-center py-8">This coupon hasn't been used yet</p>
+                ) : (
+                    <div className="overflow-x-auto max-h-[60vh]">
+                        <table className="table">
+                            <thead>
+                                <tr>
+                                    <th>User</th>
+                                    <th>Plan</th>
+                                    <th>Original</th>
+                                    <th>Discount</th>
+                                    <th>Paid</th>
+                                    <th>Status</th>
+                                    <th>Date</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {redemptions.map((redemption) => (
+                                    <tr key={redemption.id}>
+                                        <td>
+                                            <p className="text-white text-sm">{redemption.user_profiles?.full_name || 'Unknown user'}</p>
+                                            <p className="text-dark-500 text-xs">{redemption.user_profiles?.email}</p>
+                                        </td>
+                                        <td className="text-dark-300 text-sm">
+                                            {redemption.subscription_plans?.name || '—'}
+                                            {redemption.billing_cycle && <span className="text-dark-500"> · {redemption.billing_cycle}</span>}
+                                        </td>
+                                        <td className="text-dark-400 text-sm">{formatCurrency(redemption.original_amount)}</td>
+                                        <td className="text-red-400 text-sm">-{formatCurrency(redemption.discount_amount)}</td>
+                                        <td className="text-white text-sm">{formatCurrency(redemption.final_amount)}</td>
+                                        <td>
+                                            <span className={`badge ${redemption.status === 'completed' ? 'badge-success' : 'badge-warning'}`}>
+                                                {redemption.status}
+                                            </span>
+                                        </td>
+                                        <td className="text-dark-400 text-sm">{formatDate(redemption.created_at)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
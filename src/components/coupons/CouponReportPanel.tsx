@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react';
+import { Download, Layers } from 'lucide-react';
+import { getCouponReport, type Coupon, type CouponBatch, type CouponReportRow } from '../../lib/supabase';
+import { downloadCSV, formatCurrency, formatDiscount } from '../../lib/utils';
+
+type ReportStats = Omit<CouponReportRow, 'coupon_id' | 'batch_id'>;
+
+// Batch rows in the report add up the stats of every code in the batch
+const combineStats = (rows: CouponReportRow[]): ReportStats | undefined => {
+    if (rows.length === 0) return undefined;
+    const totals = rows.reduce(
+        (sum, row) => ({
+            applied: sum.applied + row.applied,
+            redemptions: sum.redemptions + row.redemptions,
+            unique_users: sum.unique_users + row.unique_users,
+            conversion_rate: 0,
+            total_discount: sum.total_discount + row.total_discount,
+            revenue: sum.revenue + row.revenue,
+        }),
+        { applied: 0, redemptions: 0, unique_users: 0, conversion_rate: 0, total_discount: 0, revenue: 0 }
+    );
+    return { ...totals, conversion_rate: totals.applied > 0 ? totals.redemptions / totals.applied : 0 };
+};
+
+interface CouponReportPanelProps {
+    coupons: Coupon[];
+    batches: CouponBatch[];
+    onSelectCoupon: (coupon: Coupon) => void;
+    onError: (message: string) => void;
+}
+
+export default function CouponReportPanel({ coupons, batches, onSelectCoupon, onError }: CouponReportPanelProps) {
+    const [report, setReport] = useState<CouponReportRow[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        loadReport();
+    }, []);
+
+    async function loadReport() {
+        setLoading(true);
+        const { data, error } = await getCouponReport();
+        if (error) onError(error.message);
+        setReport(data || []);
+        setLoading(false);
+    }
+
+    const reportRows = [
+        ...coupons.map((coupon) => ({
+            key: coupon.id,
+            label: coupon.code,
+            discount: formatDiscount(coupon),
+            coupon: coupon as Coupon | null,
+            stats: combineStats(report.filter((row) => row.coupon_id === coupon.id)),
+        })),
+        ...batches.map((batch) => ({
+            key: batch.id,
+            label: `${batch.name} (${batch.quantity} codes)`,
+            discount: '',
+            coupon: null,
+            stats: combineStats(report.filter((row) => row.batch_id === batch.id)),
+        })),
+    ].sort((a, b) => (b.stats?.revenue || 0) - (a.stats?.revenue || 0));
+
+    const reportTotals = report.reduce(
+        (totals, row) => ({
+            applied: totals.applied + row.applied,
+            redemptions: totals.redemptions + row.redemptions,
+            total_discount: totals.total_discount + row.total_discount,
+            revenue: totals.revenue + row.revenue,
+        }),
+        { applied: 0, redemptions: 0, total_discount: 0, revenue: 0 }
+    );
+
+    const handleExport = () => {
+        downloadCSV(
+            reportRows.map(({ label, discount, stats }) => ({
+                code: label,
+                discount,
+                applied: stats?.applied || 0,
+                redemptions: stats?.redemptions || 0,
+                unique_users: stats?.unique_users || 0,
+                conversion_rate: stats ? `${(stats.conversion_rate * 100).toFixed(1)}%` : '',
+                total_discount: stats?.total_discount || 0,
+                revenue: stats?.revenue || 0,
+            })),
+            `coupon-report-${new Date().toISOString().slice(0, 10)}`
+        );
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="card p-4">
+                    <p className="text-2xl font-bold text-white">{reportTotals.redemptions}</p>
+                    <p className="text-dark-400 text-sm">Redemptions</p>
+                </div>
+                <div className="card p-4">
+                    <p className="text-2xl font-bold text-white">
+                        {reportTotals.applied > 0 ? `${((reportTotals.redemptions / reportTotals.applied) * 100).toFixed(1)}%` : '—'}
+                    </p>
+                    <p className="text-dark-400 text-sm">Conversion Rate</p>
+                </div>
+                <div className="card p-4">
+                    <p className="text-2xl font-bold text-red-400">{formatCurrency(reportTotals.total_discount)}</p>
+                    <p className="text-dark-400 text-sm">Total Discount Given</p>
+                </div>
+                <div className="card p-4">
+                    <p className="text-2xl font-bold text-green-400">{formatCurrency(reportTotals.revenue)}</p>
+                    <p className="text-dark-400 text-sm">Revenue Attributed</p>
+                </div>
+            </div>
+
+            <div className="card overflow-hidden">
+                <div className="flex items-center justify-between p-4 border-b border-dark-700">
+                    <h2 className="text-lg font-semibold text-white">Per Coupon</h2>
+                    <button onClick={handleExport} disabled={reportRows.length === 0} className="btn-secondary btn-sm">
+                        <Download className="w-4 h-4" />
+                        Export CSV
+                    </button>
+                </div>
+                {loading ? (
+                    <div className="p-8 text-center">
+                        <div className="spinner text-primary-400 mx-auto mb-4" />
+                        <p className="text-dark-400">Loading report...</p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="table">
+                            <thead>
+                                <tr>
+                                    <th>Code</th>
+                                    <th>Applied</th>
+                                    <th>Redeemed</th>
+                                    <th>Unique Users</th>
+                                    <th>Conversion</th>
+                                    <th>Discount Given</th>
+                                    <th>Revenue</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {reportRows.map(({ key, label, coupon, stats }) => (
+                                    <tr
+                                        key={key}
+                                        className={coupon ? 'cursor-pointer' : ''}
+                                        onClick={() => coupon && onSelectCoupon(coupon)}
+                                    >
+                                        <td>
+                                            {coupon ? (
+                                                <code className="bg-dark-700 px-2 py-1 rounded text-primary-400 font-mono">{label}</code>
+                                            ) : (
+                                                <span className="flex items-center gap-2 text-white">
+                                                    <Layers className="w-4 h-4 text-dark-400" />
+                                                    {label}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="text-dark-400">{stats?.applied || 0}</td>
+                                        <td className="text-white">{stats?.redemptions || 0}</td>
+                                        <td className="text-dark-400">{stats?.unique_users || 0}</td>
+                                        <td className="text-dark-300">
+                                            {stats ? `${(stats.conversion_rate * 100).toFixed(1)}%` : '—'}
+                                        </td>
+                                        <td className="text-red-400">{formatCurrency(stats?.total_discount || 0)}</td>
+                                        <td className="text-green-400">{formatCurrency(stats?.revenue || 0)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
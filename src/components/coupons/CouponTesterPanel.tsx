@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { CheckCircle, AlertTriangle, FlaskConical } from 'lucide-react';
+import { validateCoupon, findUserByEmail, type CouponBillingCycle, type CouponValidation } from '../../lib/supabase';
+import type { SubscriptionPlan } from '../../lib/database.types';
+
+interface CouponTesterPanelProps {
+    plans: SubscriptionPlan[];
+    onError: (message: string) => void;
+}
+
+export default function CouponTesterPanel({ plans, onError }: CouponTesterPanelProps) {
+    const [testForm, setTestForm] = useState({ code: '', plan_id: '', billing_cycle: 'monthly' as CouponBillingCycle, email: '' });
+    const [testResult, setTestResult] = useState<CouponValidation | null>(null);
+    const [testing, setTesting] = useState(false);
+
+    const handleTest = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setTesting(true);
+        setTestResult(null);
+
+        let userId: string | undefined;
+        if (testForm.email.trim()) {
+            const { data: user } = await findUserByEmail(testForm.email);
+            if (!user) {
+                setTesting(false);
+                onError(`No user found with email ${testForm.email.trim()}`);
+                return;
+            }
+            userId = user.id;
+        }
+
+        const { data, error } = await validateCoupon(testForm.code, testForm.plan_id, testForm.billing_cycle, userId);
+        setTesting(false);
+        if (error) {
+            onError(error.message);
+            return;
+        }
+        setTestResult(data);
+    };
+
+    return (
+        <div className="grid md:grid-cols-2 gap-6">
+            <form onSubmit={handleTest} className="card p-6 space-y-4">
+                <div>
+                    <h2 className="text-lg font-semibold text-white">Try a Coupon</h2>
+                    <p className="text-dark-400 text-sm">
+                        Checks a code against a plan the same way checkout does. Leave the email empty to skip per-customer rules.
+                    </p>
+                </div>
+                <div>
+                    <label className="label">Coupon Code</label>
+                    <input
+                        type="text"
+                        value={testForm.code}
+                        onChange={(e) => setTestForm({ ...testForm, code: e.target.value })}
+                        className="input uppercase font-mono"
+                        placeholder="SAVE20"
+                        required
+                    />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="label">Plan</label>
+                        <select
+                            value={testForm.plan_id}
+                            onChange={(e) => setTestForm({ ...testForm, plan_id: e.target.value })}
+                            className="select"
+                            required
+                        >
+                            <option value="">Select a plan</option>
+                            {plans.map((plan) => (
+                                <option key={plan.id} value={plan.id}>
+                                    {plan.name}{!plan.is_active && ' (inactive)'}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="label">Billing Cycle</label>
+                        <select
+                            value={testForm.billing_cycle}
+                            onChange={(e) => setTestForm({ ...testForm, billing_cycle: e.target.value as CouponBillingCycle })}
+                            className="select"
+                        >
+                            <option value="monthly">Monthly</option>
+                            <option value="yearly">Yearly</option>
+                        </select>
+                    </div>
+                </div>
+                <div>
+                    <label className="label">Customer Email (optional)</label>
+                    <input
+                        type="email"
+                        value={testForm.email}
+                        onChange={(e) => setTestForm({ ...testForm, email: e.target.value })}
+                        className="input"
+                        placeholder="customer@example.com"
+                    />
+                </div>
+                <button type="submit" disabled={testing} className="btn-primary w-full">
+                    {testing ? <div className="spinner" /> : 'Check Price'}
+                </button>
+            </form>
+
+            <div className="card p-6">
+                {!testResult ? (
+                    <div className="h-full flex flex-col items-center justify-center text-center py-8">
+                        <FlaskConical className="w-12 h-12 text-dark-600 mb-3" />
+                        <p className="text-dark-400">The price preview will appear here</p>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="flex items-center gap-2">
+                            {testResult.valid ? (
+                                <span className="badge badge-success">
+                                    <CheckCircle className="w-4 h-4" />
+                                    Coupon applies
+                                </span>
+                            ) : (
+                                <span className="badge badge-danger">
+                                    <AlertTriangle className="w-4 h-4" />
+                                    Not applicable
+                                </span>
+                            )}
+                        </div>
+                        {testResult.reason && <p className="text-dark-300">{testResult.reason}</p>}
+                        <div className="space-y-2 text-sm">
+                            <div className="flex justify-between text-dark-400">
+                                <span>Plan price</span>
+                                <span className="text-white">{testResult.original_price}</span>
+                            </div>
+                            <div className="flex justify-between text-dark-400">
+                                <span>Discount</span>
+                                <span className="text-red-400">-{testResult.discount}</span>
+                            </div>
+                            <div className="flex justify-between border-t border-dark-700 pt-2">
+                                <span className="text-white font-medium">Customer pays</span>
+                                <span className="text-2xl font-bold text-green-400">{testResult.final_price}</span>
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
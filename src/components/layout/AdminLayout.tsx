@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Link, Outlet, useLocation, useNavigate } from 'react-router-dom';
 import {
     LayoutDashboard,
@@ -20,13 +20,17 @@ import {
     Sparkles,
     Phone,
     Server,
+    Target,
+    Send,
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { getInitials } from '../../lib/utils';
+import { subscribeToInserts } from '../../lib/supabase';
 
 const adminLinks = [
     { name: 'Overview', href: '/', icon: LayoutDashboard },
     { name: 'Manage Users', href: '/users', icon: Users },
+    { name: 'Leads Explorer', href: '/leads', icon: Target },
     { name: 'Subscriptions', href: '/subscriptions', icon: CreditCard },
     { name: 'Coupons', href: '/coupons', icon: Ticket },
     { name: 'Support Tickets', href: '/tickets', icon: HelpCircle },
@@ -36,6 +40,7 @@ const adminLinks = [
     { name: 'AI Blog Generator', href: '/ai-blog', icon: Sparkles },
     { name: 'Analytics', href: '/analytics', icon: BarChart3 },
     { name: 'Email Templates', href: '/emails', icon: Mail },
+    { name: 'Email Campaigns', href: '/campaigns', icon: Send },
     { name: 'SMTP Settings', href: '/smtp-settings', icon: Server },
     { name: 'System Logs', href: '/logs', icon: FileText },
     { name: 'Contact Settings', href: '/contact-settings', icon: Phone },
@@ -44,10 +49,43 @@ const adminLinks = [
 
 export default function AdminLayout() {
     const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-    const { profile, signOut } = useAuth();
+    const [unread, setUnread] = useState<Record<string, number>>({});
+    const { user, profile, signOut } = useAuth();
     const location = useLocation();
     const navigate = useNavigate();
 
+    // Nested pages such as /users/:userId highlight their parent section
+    const activeLink = adminLinks.find((link) => link.href === location.pathname)
+        || adminLinks.find((link) => link.href !== '/' && location.pathname.startsWith(`${link.href}/`));
+
+    const activeHrefRef = useRef(activeLink?.href);
+
+    useEffect(() => {
+        activeHrefRef.current = activeLink?.href;
+        if (activeLink) {
+            setUnread((prev) => ({ ...prev, [activeLink.href]: 0 }));
+        }
+    }, [activeLink?.href]);
+
+    // Count new rows per section until the admin opens it; the open page shows them live
+    useEffect(() => {
+        const bump = (href: string) => {
+            if (activeHrefRef.current === href) return;
+            setUnread((prev) => ({ ...prev, [href]: (prev[href] || 0) + 1 }));
+        };
+        const unsubscribers = [
+            subscribeToInserts('support_tickets', () => bump('/tickets')),
+            subscribeToInserts<{ is_admin: boolean }>('ticket_responses', (response) => {
+                if (!response.is_admin) bump('/tickets');
+            }),
+            subscribeToInserts('website_inquiries', () => bump('/inquiries')),
+            subscribeToInserts<{ user_id: string }>('activity_logs', (log) => {
+                if (log.user_id !== user?.id) bump('/logs');
+            }),
+        ];
+        return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    }, [user?.id]);
+
     const handleSignOut = async () => {
         await signOut();
         navigate('/login');
@@ -116,7 +154,7 @@ export default function AdminLayout() {
                 <nav className="px-4 py-4 space-y-1 overflow-y-auto max-h-[calc(100vh-220px)]">
                     {adminLinks.map((link) => {
                         const Icon = link.icon;
-                        const isActive = location.pathname === link.href;
+                        const isActive = link.href === activeLink?.href;
                         return (
                             <Link
                                 key={link.name}
@@ -129,6 +167,11 @@ export default function AdminLayout() {
                             >
                                 <Icon className="w-5 h-5" />
                                 <span className="font-medium">{link.name}</span>
+                                {unread[link.href] > 0 && (
+                                    <span className="ml-auto min-w-[1.25rem] px-1.5 py-0.5 rounded-full bg-red-500 text-white text-xs font-semibold text-center">
+                                        {unread[link.href] > 99 ? '99+' : unread[link.href]}
+                                    </span>
+                                )}
                             </Link>
                         );
                     })}
@@ -153,7 +196,7 @@ export default function AdminLayout() {
                     <div className="flex items-center gap-4">
                         <Crown className="w-6 h-6 text-accent-400" />
                         <h1 className="text-xl font-semibold text-white">
-                            {adminLinks.find((link) => link.href === location.pathname)?.name || 'Admin Panel'}
+                            {activeLink?.name || 'Admin Panel'}
                         </h1>
                     </div>
                     <div className="flex items-center gap-4">
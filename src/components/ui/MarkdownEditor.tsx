@@ -0,0 +1,183 @@
+import { useMemo, useRef, useState } from 'react';
+import { Heading2, Heading3, Bold, Italic, List, ListOrdered, Link, ImagePlus, Quote, Code } from 'lucide-react';
+import { renderMarkdown } from '../../lib/markdown';
+import { escapeHtml } from '../../lib/utils';
+
+interface MarkdownEditorProps {
+    value: string;
+    onChange: (value: string) => void;
+    // Returns the public URL of the uploaded image, or null when the upload failed
+    onUploadImage?: (file: File) => Promise<string | null>;
+    // Link URLs to flag in the preview
+    brokenLinks?: string[];
+    placeholder?: string;
+}
+
+type EditorView = 'write' | 'split' | 'preview';
+
+export default function MarkdownEditor({ value, onChange, onUploadImage, brokenLinks, placeholder }: MarkdownEditorProps) {
+    const [view, setView] = useState<EditorView>('split');
+    const [uploading, setUploading] = useState(false);
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const previewHtml = useMemo(
+        () =>
+            [...new Set(brokenLinks)].reduce((html, url) => {
+                const anchor = `<a href="${escapeHtml(url)}"`;
+                return html.split(anchor).join(`${anchor} class="broken-link" title="Broken link"`);
+            }, renderMarkdown(value)),
+        [value, brokenLinks]
+    );
+
+    // Replaces the current selection and re-selects `selectStart..selectEnd` of the inserted text
+    const replaceSelection = (text: string, selectStart = text.length, selectEnd = selectStart) => {
+        const textarea = textareaRef.current;
+        const start = textarea?.selectionStart ?? value.length;
+        const end = textarea?.selectionEnd ?? value.length;
+        onChange(value.slice(0, start) + text + value.slice(end));
+        requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(start + selectStart, start + selectEnd);
+        });
+    };
+
+    const selectedText = () => {
+        const textarea = textareaRef.current;
+        return textarea ? value.slice(textarea.selectionStart, textarea.selectionEnd) : '';
+    };
+
+    const wrap = (before: string, after: string, fallback: string) => {
+        const text = selectedText() || fallback;
+        replaceSelection(`${before}${text}${after}`, before.length, before.length + text.length);
+    };
+
+    // Prefixes every line touched by the selection, or removes the prefix when all lines already have it
+    const prefixLines = (prefix: (index: number) => string, pattern: RegExp) => {
+        const textarea = textareaRef.current;
+        if (!textarea) return;
+        const start = value.lastIndexOf('\n', textarea.selectionStart - 1) + 1;
+        const nextBreak = value.indexOf('\n', textarea.selectionEnd);
+        const end = nextBreak === -1 ? value.length : nextBreak;
+
+        const lines = value.slice(start, end).split('\n');
+        const toggleOff = lines.every((line) => pattern.test(line));
+        const updated = lines
+            .map((line, index) => (toggleOff ? line.replace(pattern, '') : prefix(index) + line.replace(/^(#{1,6}\s+|>\s?|\s*[-*+]\s+|\s*\d+\.\s+)/, '')))
+            .join('\n');
+
+        onChange(value.slice(0, start) + updated + value.slice(end));
+        requestAnimationFrame(() => {
+            textarea.focus();
+            textarea.setSelectionRange(start, start + updated.length);
+        });
+    };
+
+    const insertLink = () => {
+        const text = selectedText() || 'link text';
+        const markdown = `[${text}](/)`;
+        // Leaves the URL selected, ready to be typed over
+        replaceSelection(markdown, text.length + 3, text.length + 4);
+    };
+
+    const handleImageSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !onUploadImage) return;
+
+        setUploading(true);
+        const url = await onUploadImage(file);
+        setUploading(false);
+        if (url) {
+            const alt = file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ');
+            replaceSelection(`![${alt}](${url})`, 2, 2 + alt.length);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (!(e.ctrlKey || e.metaKey)) return;
+        const key = e.key.toLowerCase();
+        if (key === 'b') wrap('**', '**', 'bold text');
+        else if (key === 'i') wrap('*', '*', 'italic text');
+        else if (key === 'k') insertLink();
+        else return;
+        e.preventDefault();
+    };
+
+    const tools = [
+        { icon: Heading2, title: 'Heading 2', action: () => prefixLines(() => '## ', /^##\s+/) },
+        { icon: Heading3, title: 'Heading 3', action: () => prefixLines(() => '### ', /^###\s+/) },
+        { icon: Bold, title: 'Bold (Ctrl+B)', action: () => wrap('**', '**', 'bold text') },
+        { icon: Italic, title: 'Italic (Ctrl+I)', action: () => wrap('*', '*', 'italic text') },
+        { icon: List, title: 'Bulleted list', action: () => prefixLines(() => '- ', /^\s*[-*+]\s+/) },
+        { icon: ListOrdered, title: 'Numbered list', action: () => prefixLines((index) => `${index + 1}. `, /^\s*\d+\.\s+/) },
+        { icon: Quote, title: 'Quote', action: () => prefixLines(() => '> ', /^>\s?/) },
+        { icon: Code, title: 'Inline code', action: () => wrap('`', '`', 'code') },
+        { icon: Link, title: 'Link (Ctrl+K)', action: insertLink },
+    ];
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-1">
+                    {tools.map(({ icon: Icon, title, action }) => (
+                        <button
+                            key={title}
+                            type="button"
+                            onClick={action}
+                            disabled={view === 'preview'}
+                            className="p-2 hover:bg-dark-700 rounded-lg text-dark-400 hover:text-white disabled:opacity-40"
+                            title={title}
+                        >
+                            <Icon className="w-4 h-4" />
+                        </button>
+                    ))}
+                    {onUploadImage && (
+                        <button
+                            type="button"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={uploading || view === 'preview'}
+                            className="p-2 hover:bg-dark-700 rounded-lg text-dark-400 hover:text-white disabled:opacity-40"
+                            title="Upload image"
+                        >
+                            {uploading ? <div className="spinner w-4 h-4" /> : <ImagePlus className="w-4 h-4" />}
+                        </button>
+                    )}
+                    <input ref={fileInputRef} type="file" accept="image/*" onChange={handleImageSelected} className="hidden" />
+                </div>
+                <div className="flex gap-1">
+                    {(['write', 'split', 'preview'] as EditorView[]).map((option) => (
+                        <button
+                            key={option}
+                            type="button"
+                            onClick={() => setView(option)}
+                            className={`px-3 py-1 rounded-lg text-sm capitalize ${view === option ? 'bg-primary-500/20 text-primary-400' : 'text-dark-400 hover:bg-dark-700'}`}
+                        >
+                            {option}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className={`grid gap-4 ${view === 'split' ? 'md:grid-cols-2' : ''}`}>
+                <textarea
+                    ref={textareaRef}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    className={`input resize-none font-mono text-sm h-[28rem] ${view === 'preview' ? 'hidden' : ''}`}
+                    placeholder={placeholder}
+                />
+                {view !== 'write' && (
+                    <div className="h-[28rem] overflow-y-auto bg-dark-900/50 border border-dark-700 rounded-xl p-4">
+                        {value.trim() ? (
+                            <div className="markdown-preview" dangerouslySetInnerHTML={{ __html: previewHtml }} />
+                        ) : (
+                            <p className="text-dark-500 text-sm">Nothing to preview yet</p>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -8,6 +8,7 @@ export type LeadStatus = 'new' | 'contacted' | 'responded' | 'converted' | 'reje
 export type EmailStatus = 'pending' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'failed';
 export type CampaignStatus = 'draft' | 'scheduled' | 'sending' | 'completed' | 'paused';
 export type WebsiteScore = 'good' | 'average' | 'poor' | 'no_website';
+export type BlogTargetSite = 'stachbit.in' | 'ai.stachbit.in' | 'both';
 
 export interface Database {
     public: {
@@ -69,6 +70,7 @@ export interface Database {
                 Row: {
                     id: string;
                     email: string;
+                    email_lower: string;
                     full_name: string | null;
                     phone: string | null;
                     company_name: string | null;
@@ -83,12 +85,14 @@ export interface Database {
                     usage_reset_date: string;
                     is_active: boolean;
                     last_login_at: string | null;
+                    source_inquiry_id: string | null;
                     created_at: string;
                     updated_at: string;
                 };
                 Insert: {
                     id: string;
                     email: string;
+                    email_lower?: never;
                     full_name?: string | null;
                     phone?: string | null;
                     company_name?: string | null;
@@ -103,12 +107,14 @@ export interface Database {
                     usage_reset_date?: string;
                     is_active?: boolean;
                     last_login_at?: string | null;
+                    source_inquiry_id?: string | null;
                     created_at?: string;
                     updated_at?: string;
                 };
                 Update: {
                     id?: string;
                     email?: string;
+                    email_lower?: never;
                     full_name?: string | null;
                     phone?: string | null;
                     company_name?: string | null;
@@ -123,6 +129,7 @@ export interface Database {
                     usage_reset_date?: string;
                     is_active?: boolean;
                     last_login_at?: string | null;
+                    source_inquiry_id?: string | null;
                     created_at?: string;
                     updated_at?: string;
                 };
@@ -140,6 +147,7 @@ export interface Database {
                     start_date: string;
                     end_date: string | null;
                     cancelled_at: string | null;
+                    refunded_subscription_id: string | null;
                     created_at: string;
                 };
                 Insert: {
@@ -154,6 +162,7 @@ export interface Database {
                     start_date?: string;
                     end_date?: string | null;
                     cancelled_at?: string | null;
+                    refunded_subscription_id?: string | null;
                     created_at?: string;
                 };
                 Update: {
@@ -168,6 +177,7 @@ export interface Database {
                     start_date?: string;
                     end_date?: string | null;
                     cancelled_at?: string | null;
+                    refunded_subscription_id?: string | null;
                     created_at?: string;
                 };
             };
@@ -434,6 +444,9 @@ export interface Database {
                     variables: string[];
                     is_default: boolean;
                     use_count: number;
+                    category: string | null;
+                    is_system: boolean;
+                    system_key: string | null;
                     created_at: string;
                     updated_at: string;
                 };
@@ -447,6 +460,9 @@ export interface Database {
                     variables?: string[];
                     is_default?: boolean;
                     use_count?: number;
+                    category?: string | null;
+                    is_system?: boolean;
+                    system_key?: string | null;
                     created_at?: string;
                     updated_at?: string;
                 };
@@ -460,6 +476,9 @@ export interface Database {
                     variables?: string[];
                     is_default?: boolean;
                     use_count?: number;
+                    category?: string | null;
+                    is_system?: boolean;
+                    system_key?: string | null;
                     created_at?: string;
                     updated_at?: string;
                 };
@@ -699,10 +718,13 @@ export interface Database {
 
 // Helper types for components
 export type UserProfile = Database['public']['Tables']['user_profiles']['Row'];
+export type UserSubscription = Database['public']['Tables']['user_subscriptions']['Row'];
 export type Lead = Database['public']['Tables']['leads']['Row'];
 export type LeadSearch = Database['public']['Tables']['lead_searches']['Row'];
 export type EmailTemplate = Database['public']['Tables']['email_templates']['Row'];
 export type EmailCampaign = Database['public']['Tables']['email_campaigns']['Row'];
+export type CampaignLead = Database['public']['Tables']['campaign_leads']['Row'];
+export type EmailLog = Database['public']['Tables']['email_logs']['Row'];
 export type SmtpConfig = Database['public']['Tables']['smtp_configs']['Row'];
 export type SubscriptionPlan = Database['public']['Tables']['subscription_plans']['Row'];
 export type WhatsAppTemplate = Database['public']['Tables']['whatsapp_templates']['Row'];
@@ -726,7 +748,9 @@ export interface BlogPost {
     is_featured: boolean;
     view_count: number;
     read_time_minutes: number;
+    target_site: BlogTargetSite;
     published_at: string | null;
+    scheduled_at: string | null;
     created_at: string;
     updated_at: string;
 }
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { FALLBACK_LINK_TARGETS, getLinkTargets, getRoutesForSite } from './links';
 
 // Groq API Configuration
 const GROQ_API_URL = 'https://api.groq.com/openai/v1/chat/completions';
@@ -103,15 +104,9 @@ export async function generateBlogContent(options: GenerationOptions): Promise<{
         ? 'an AI-powered lead generation and business automation tool'
         : 'a professional web development and digital solutions agency';
 
-    // Valid internal links for stachbit.in
-    const validInternalLinks = [
-        { path: '/services', label: 'our services', description: 'web development, SaaS, mobile apps' },
-        { path: '/portfolio', label: 'our portfolio', description: 'view our work and case studies' },
-        { path: '/contact', label: 'contact us', description: 'get in touch for a free consultation' },
-        { path: '/calculator', label: 'cost calculator', description: 'estimate your project cost' },
-        { path: '/about', label: 'about us', description: 'learn about Stachbit' },
-        { path: '/blog', label: 'our blog', description: 'more articles and insights' },
-    ];
+    // Valid internal links come from the managed site routes, the same list posts are checked against
+    const { data: linkTargets } = await getLinkTargets();
+    const validInternalLinks = getRoutesForSite((linkTargets || FALLBACK_LINK_TARGETS).routes, targetSite);
 
     const prompt = `You are an expert SEO content writer specializing in the Indian market. Generate a comprehensive, SEO-optimized blog post.
 
@@ -125,7 +120,7 @@ TONE: ${tone}
 WORD COUNT: ${wordCount}-${wordCount + 300} words
 
 VALID INTERNAL LINKS (USE ONLY THESE - DO NOT MAKE UP NEW URLS):
-${validInternalLinks.map(link => `- ${link.path} - ${link.label} (${link.description})`).join('\n')}
+${validInternalLinks.map(link => `- ${link.path} - ${link.label}${link.description ? ` (${link.description})` : ''}`).join('\n') || '- (none - do not add internal links)'}
 
 REQUIREMENTS:
 1. Title: Catchy, includes main keyword, under 60 characters, optimized for Google India
@@ -0,0 +1,142 @@
+import type { BlogPost, BlogTargetSite } from './database.types';
+import { getBlogPosts, getBlogSlugs, getSiteRoutes } from './supabase';
+import { extractMarkdownLinks } from './markdown';
+
+// Checks the internal links in blog markdown against the managed site routes and the
+// existing blog slugs. Relative links in a post for both sites must work on both.
+
+type Site = Exclude<BlogTargetSite, 'both'>;
+
+const SITES: Site[] = ['stachbit.in', 'ai.stachbit.in'];
+
+// Absolute links to these hosts are checked like relative ones
+const SITE_HOSTS: Record<string, Site> = {
+    'stachbit.in': 'stachbit.in',
+    'www.stachbit.in': 'stachbit.in',
+    'ai.stachbit.in': 'ai.stachbit.in',
+};
+
+export interface LinkRoute {
+    path: string;
+    label: string;
+    description: string | null;
+    target_site: BlogTargetSite;
+}
+
+// Used while no routes have been added to `site_routes`, and offered there as a starting list
+export const DEFAULT_SITE_ROUTES: LinkRoute[] = [
+    { path: '/services', label: 'our services', description: 'web development, SaaS, mobile apps', target_site: 'stachbit.in' },
+    { path: '/portfolio', label: 'our portfolio', description: 'view our work and case studies', target_site: 'stachbit.in' },
+    { path: '/contact', label: 'contact us', description: 'get in touch for a free consultation', target_site: 'stachbit.in' },
+    { path: '/calculator', label: 'cost calculator', description: 'estimate your project cost', target_site: 'stachbit.in' },
+    { path: '/about', label: 'about us', description: 'learn about Stachbit', target_site: 'stachbit.in' },
+    { path: '/blog', label: 'our blog', description: 'more articles and insights', target_site: 'stachbit.in' },
+];
+
+export interface LinkTargets {
+    routes: LinkRoute[];
+    // null when the blog slugs are not loaded; /blog/... links are then not checked
+    posts: Pick<BlogPost, 'slug' | 'is_published' | 'target_site'>[] | null;
+}
+
+export const FALLBACK_LINK_TARGETS: LinkTargets = { routes: DEFAULT_SITE_ROUTES, posts: null };
+
+export interface BrokenLink {
+    url: string;
+    text: string;
+    line: number;
+    reason: string;
+}
+
+const sitesFor = (target: BlogTargetSite): Site[] => (target === 'both' ? SITES : [target]);
+
+const covers = (target: BlogTargetSite, site: Site) => target === 'both' || target === site;
+
+const normalizePath = (path: string) => {
+    const clean = path.split(/[?#]/)[0];
+    return clean.length > 1 ? clean.replace(/\/+$/, '') : clean;
+};
+
+const routeMatches = (routePath: string, path: string) => {
+    if (routePath.endsWith('/*')) {
+        const base = normalizePath(routePath.slice(0, -2));
+        return path === base || path.startsWith(`${base}/`);
+    }
+    return normalizePath(routePath) === path;
+};
+
+// Routes usable from a post on `target`, i.e. available on every site the post appears on
+export const getRoutesForSite = (routes: LinkRoute[], target: BlogTargetSite) =>
+    routes.filter((route) => sitesFor(target).every((site) => covers(route.target_site, site)));
+
+export const getLinkTargets = async () => {
+    const [{ data: routes, error }, { data: posts, error: postsError }] = await Promise.all([getSiteRoutes(), getBlogSlugs()]);
+    if (error || postsError || !routes || !posts) return { data: null, error: error || postsError };
+    return { data: { routes: routes.length > 0 ? routes : DEFAULT_SITE_ROUTES, posts } as LinkTargets, error: null };
+};
+
+const checkPath = (path: string, site: Site, targets: LinkTargets): string | null => {
+    if (path.startsWith('/blog/') && targets.posts) {
+        const slug = path.slice('/blog/'.length).split('/')[0];
+        const post = targets.posts.find((candidate) => candidate.slug === slug);
+        if (!post) return 'No blog post with this slug';
+        if (!post.is_published) return 'Links to an unpublished post';
+        if (!covers(post.target_site, site)) return `Post is not published on ${site}`;
+        return null;
+    }
+    if (path.startsWith('/blog/')) return null;
+
+    const matching = targets.routes.filter((route) => routeMatches(route.path, path));
+    if (matching.some((route) => covers(route.target_site, site))) return null;
+    return matching.length > 0 ? `Page does not exist on ${site}` : 'Unknown page';
+};
+
+export function findBrokenLinks(content: string, targetSite: BlogTargetSite, targets: LinkTargets): BrokenLink[] {
+    const broken: BrokenLink[] = [];
+
+    for (const link of extractMarkdownLinks(content)) {
+        if (link.image) continue;
+
+        let path: string;
+        let sites: Site[];
+        if (link.url.startsWith('/') && !link.url.startsWith('//')) {
+            path = normalizePath(link.url);
+            sites = sitesFor(targetSite);
+        } else {
+            let host: Site | undefined;
+            try {
+                const parsed = new URL(link.url);
+                host = SITE_HOSTS[parsed.hostname];
+                path = normalizePath(parsed.pathname);
+            } catch {
+                continue;
+            }
+            if (!host) continue;
+            sites = [host];
+        }
+
+        const reason = sites.map((site) => checkPath(path, site, targets)).find(Boolean);
+        if (reason) broken.push({ url: link.url, text: link.text, line: link.line, reason });
+    }
+
+    return broken;
+}
+
+export interface BrokenLinkReportRow {
+    post: BlogPost;
+    links: BrokenLink[];
+}
+
+// Scans every blog post, drafts included; only posts with broken links are returned
+export const getBrokenLinkReport = async () => {
+    const [{ data: posts, error }, { data: targets, error: targetsError }] = await Promise.all([
+        getBlogPosts({ status: 'all' }),
+        getLinkTargets(),
+    ]);
+    if (error || targetsError || !posts || !targets) return { data: null, error: error || targetsError };
+
+    const report: BrokenLinkReportRow[] = posts
+        .map((post) => ({ post, links: findBrokenLinks(post.content, post.target_site || 'stachbit.in', targets) }))
+        .filter((row) => row.links.length > 0);
+    return { data: report, error: null };
+};
@@ -0,0 +1,149 @@
+import { escapeHtml } from './utils';
+
+// Renders the markdown subset blog posts are written in (and that generateBlogContent produces):
+// headings, paragraphs, bold/italic, inline and fenced code, lists, blockquotes, links, images
+// and rules. Raw HTML is escaped rather than passed through.
+
+const BLOCK_START = /^(#{1,6}\s|```|>|\s*[-*+]\s+|\s*\d+\.\s+|(-{3,}|\*{3,})\s*$)/;
+
+// Only web, mail, anchor and site-relative URLs are linked; anything else (javascript: etc.) is dropped
+const safeUrl = (url: string) => (/^(https?:\/\/|mailto:|\/|#)/i.test(url) || !/^[a-z][a-z0-9+.-]*:/i.test(url) ? url : '#');
+
+const renderInline = (text: string) => {
+    // Code spans and generated tags are set aside so emphasis never rewrites their contents or URLs
+    const stashed: string[] = [];
+    const stash = (html: string) => `\u0000${stashed.push(html) - 1}\u0000`;
+
+    const html = escapeHtml(text)
+        .replace(/`([^`]+)`/g, (_, code: string) => stash(`<code>${code}</code>`))
+        .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;([^&]*)&quot;)?\)/g, (_, alt: string, url: string, title?: string) =>
+            stash(`<img src="${safeUrl(url)}" alt="${alt}"${title ? ` title="${title}"` : ''} loading="lazy">`))
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label: string, url: string) => {
+            const href = safeUrl(url);
+            const external = /^https?:\/\//i.test(href);
+            return `${stash(`<a href="${href}"${external ? ' target="_blank" rel="noopener noreferrer"' : ''}>`)}${label}</a>`;
+        })
+        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/__(.+?)__/g, '<strong>$1</strong>')
+        .replace(/\*(?!\s)(.+?)\*/g, '<em>$1</em>')
+        .replace(/(^|\W)_(?!\s)(.+?)_(?=\W|$)/g, '$1<em>$2</em>');
+
+    return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => stashed[Number(index)]);
+};
+
+const renderBlocks = (lines: string[]): string => {
+    const html: string[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        if (line.startsWith('```')) {
+            const code: string[] = [];
+            i++;
+            while (i < lines.length && !lines[i].startsWith('```')) {
+                code.push(escapeHtml(lines[i]));
+                i++;
+            }
+            i++;
+            html.push(`<pre><code>${code.join('\n')}</code></pre>`);
+            continue;
+        }
+
+        const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+        if (heading) {
+            html.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+            i++;
+            continue;
+        }
+
+        if (/^(-{3,}|\*{3,})\s*$/.test(line)) {
+            html.push('<hr>');
+            i++;
+            continue;
+        }
+
+        if (line.startsWith('>')) {
+            const quoted: string[] = [];
+            while (i < lines.length && lines[i].startsWith('>')) {
+                quoted.push(lines[i].replace(/^>\s?/, ''));
+                i++;
+            }
+            html.push(`<blockquote>${renderBlocks(quoted)}</blockquote>`);
+            continue;
+        }
+
+        const listType = /^\s*[-*+]\s+/.test(line) ? 'ul' : /^\s*\d+\.\s+/.test(line) ? 'ol' : null;
+        if (listType) {
+            const marker = listType === 'ul' ? /^\s*[-*+]\s+/ : /^\s*\d+\.\s+/;
+            const items: string[] = [];
+            while (i < lines.length && marker.test(lines[i])) {
+                items.push(`<li>${renderInline(lines[i].replace(marker, ''))}</li>`);
+                i++;
+            }
+            html.push(`<${listType}>${items.join('')}</${listType}>`);
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !BLOCK_START.test(lines[i]))) {
+            paragraph.push(lines[i].trim());
+            i++;
+        }
+        html.push(`<p>${renderInline(paragraph.join(' '))}</p>`);
+    }
+
+    return html.join('\n');
+};
+
+export function renderMarkdown(markdown: string): string {
+    return renderBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+// Fenced code is left out of text, headings and links; it is not read as prose
+const withoutCodeBlocks = (markdown: string) => markdown.replace(/```[\s\S]*?(```|$)/g, '');
+
+export interface MarkdownLink {
+    text: string;
+    url: string;
+    image: boolean;
+    // 1-based line of the markdown the link is on
+    line: number;
+}
+
+export function extractMarkdownLinks(markdown: string): MarkdownLink[] {
+    const links: MarkdownLink[] = [];
+    let inCode = false;
+    markdown.split('\n').forEach((line, index) => {
+        if (line.startsWith('```')) inCode = !inCode;
+        if (inCode || line.startsWith('```')) return;
+        for (const match of line.matchAll(/(!?)\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g)) {
+            links.push({ text: match[2].trim(), url: match[3], image: match[1] === '!', line: index + 1 });
+        }
+    });
+    return links;
+}
+
+export function extractMarkdownHeadings(markdown: string): { level: number; text: string }[] {
+    return [...withoutCodeBlocks(markdown).matchAll(/^(#{1,6})\s+(.*?)\s*#*$/gm)].map((match) => ({
+        level: match[1].length,
+        text: match[2],
+    }));
+}
+
+// Plain prose for word counts and readability: no markup, images or code
+export function markdownToText(markdown: string): string {
+    return withoutCodeBlocks(markdown)
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/`[^`]*`/g, '')
+        .replace(/^(#{1,6}\s+|>\s?|\s*[-*+]\s+|\s*\d+\.\s+)/gm, '')
+        .replace(/[*_]{1,2}/g, '')
+        .replace(/^(-{3,}|\*{3,})\s*$/gm, '')
+        .trim();
+}
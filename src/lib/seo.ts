@@ -0,0 +1,197 @@
+import type { BlogPost } from './database.types';
+import { FALLBACK_LINK_TARGETS, findBrokenLinks, type LinkTargets } from './links';
+import { extractMarkdownHeadings, extractMarkdownLinks, markdownToText } from './markdown';
+
+// Scores a blog post against the rules the generateBlogContent prompt asks for. Each check
+// carries a weight; a warning earns half of it, and the score is the earned share out of 100.
+
+export type SeoCheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface SeoCheck {
+    id: string;
+    label: string;
+    status: SeoCheckStatus;
+    message: string;
+    weight: number;
+}
+
+export interface SeoAudit {
+    score: number;
+    checks: SeoCheck[];
+}
+
+export type SeoAuditInput = Pick<BlogPost, 'title' | 'slug' | 'content' | 'meta_title' | 'meta_description' | 'meta_keywords'> &
+    Partial<Pick<BlogPost, 'target_site'>>;
+
+const STATUS_CREDIT: Record<SeoCheckStatus, number> = { pass: 1, warn: 0.5, fail: 0 };
+
+export const SEO_TITLE_MAX = 60;
+export const SEO_DESCRIPTION_RANGE = [150, 160] as const;
+// Primary keyword share of the words in the post, in percent
+const KEYWORD_DENSITY_RANGE = [0.5, 2.5] as const;
+const MIN_WORDS = 900;
+const MIN_H2_COUNT = 4;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Rough syllable count for English: vowel groups, less a silent trailing e
+const countSyllables = (word: string) => {
+    const groups = word.toLowerCase().replace(/[^a-z]/g, '').replace(/e$/, '').match(/[aeiouy]+/g);
+    return Math.max(1, groups?.length || 0);
+};
+
+// Flesch reading ease: 60-70 is plain English, below 30 reads like an academic paper
+export const readingEase = (text: string) => {
+    const words = text.split(/\s+/).filter((word) => /[a-z]/i.test(word));
+    if (words.length === 0) return 0;
+    const sentences = Math.max(1, text.split(/[.!?]+(\s|$)/).filter((sentence) => sentence.trim()).length);
+    const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+    return Math.round(206.835 - 1.015 * (words.length / sentences) - 84.6 * (syllables / words.length));
+};
+
+const countPhrase = (text: string, phrase: string) => {
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return (text.match(new RegExp(`\\b${escaped}\\b`, 'gi')) || []).length;
+};
+
+const checkTitle = (post: SeoAuditInput): Omit<SeoCheck, 'weight'> => {
+    const title = (post.meta_title || post.title).trim();
+    const base = { id: 'title', label: 'SEO title length' };
+    if (!title) return { ...base, status: 'fail', message: 'The post has no title' };
+    if (title.length <= SEO_TITLE_MAX) return { ...base, status: 'pass', message: `${title.length} characters` };
+    return {
+        ...base,
+        status: title.length <= SEO_TITLE_MAX + 10 ? 'warn' : 'fail',
+        message: `${title.length} characters; Google truncates titles over ${SEO_TITLE_MAX}`,
+    };
+};
+
+const checkDescription = (post: SeoAuditInput): Omit<SeoCheck, 'weight'> => {
+    const length = (post.meta_description || '').trim().length;
+    const [min, max] = SEO_DESCRIPTION_RANGE;
+    const base = { id: 'description', label: 'Meta description length' };
+    if (!length) return { ...base, status: 'fail', message: 'No meta description' };
+    if (length >= min && length <= max) return { ...base, status: 'pass', message: `${length} characters` };
+    return {
+        ...base,
+        status: length >= min - 30 && length <= max + 10 ? 'warn' : 'fail',
+        message: `${length} characters; aim for ${min}-${max}`,
+    };
+};
+
+const checkSlug = (post: SeoAuditInput): Omit<SeoCheck, 'weight'> => {
+    const base = { id: 'slug', label: 'URL slug' };
+    if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(post.slug)) {
+        return { ...base, status: 'fail', message: 'Use lowercase letters, digits and single hyphens only' };
+    }
+    if (post.slug.length > 75) return { ...base, status: 'warn', message: `${post.slug.length} characters; shorter slugs rank and share better` };
+    return { ...base, status: 'pass', message: post.slug };
+};
+
+const checkKeywordPlacement = (post: SeoAuditInput, keyword: string | undefined): Omit<SeoCheck, 'weight'> => {
+    const base = { id: 'keyword_placement', label: 'Keyword in title and description' };
+    if (!keyword) return { ...base, status: 'fail', message: 'No meta keywords set' };
+    const inTitle = countPhrase(post.meta_title || post.title, keyword) > 0;
+    const inDescription = countPhrase(post.meta_description || '', keyword) > 0;
+    if (inTitle && inDescription) return { ...base, status: 'pass', message: `"${keyword}" appears in both` };
+    return {
+        ...base,
+        status: inTitle || inDescription ? 'warn' : 'fail',
+        message: `"${keyword}" is missing from the ${!inTitle && !inDescription ? 'title and description' : !inTitle ? 'title' : 'description'}`,
+    };
+};
+
+const checkKeywordDensity = (text: string, words: number, keywords: string[]): Omit<SeoCheck, 'weight'> => {
+    const base = { id: 'keyword_density', label: 'Keyword density' };
+    if (keywords.length === 0) return { ...base, status: 'fail', message: 'No meta keywords set' };
+    const [primary, ...others] = keywords;
+    const density = words > 0 ? (countPhrase(text, primary) * countWords(primary) * 100) / words : 0;
+    const unused = others.filter((keyword) => countPhrase(text, keyword) === 0);
+    const [min, max] = KEYWORD_DENSITY_RANGE;
+    const summary = `"${primary}" at ${density.toFixed(1)}%${unused.length > 0 ? `; unused: ${unused.join(', ')}` : ''}`;
+
+    if (density === 0) return { ...base, status: 'fail', message: `"${primary}" never appears in the content` };
+    if (density > max) return { ...base, status: 'warn', message: `${summary}; above ${max}% reads as keyword stuffing` };
+    if (density < min || unused.length > 0) return { ...base, status: 'warn', message: summary };
+    return { ...base, status: 'pass', message: summary };
+};
+
+const checkHeadings = (content: string): Omit<SeoCheck, 'weight'> => {
+    const headings = extractMarkdownHeadings(content);
+    const h2Count = headings.filter((heading) => heading.level === 2).length;
+    const skipsLevel = headings.some((heading, i) => i > 0 && heading.level > headings[i - 1].level + 1);
+    const base = { id: 'headings', label: 'Heading structure' };
+
+    if (h2Count === 0) return { ...base, status: 'fail', message: 'No ## sections; search engines use them to understand the post' };
+    if (headings.some((heading) => heading.level === 1)) return { ...base, status: 'warn', message: 'Uses # headings; the post title is already the page heading' };
+    if (skipsLevel) return { ...base, status: 'warn', message: 'Skips a heading level, e.g. ## straight to ####' };
+    if (h2Count < MIN_H2_COUNT) return { ...base, status: 'warn', message: `${h2Count} sections; aim for ${MIN_H2_COUNT}-6` };
+    return { ...base, status: 'pass', message: `${h2Count} sections` };
+};
+
+const checkImageAlt = (content: string): Omit<SeoCheck, 'weight'> => {
+    const images = extractMarkdownLinks(content).filter((link) => link.image);
+    const missing = images.filter((image) => !image.text).length;
+    const base = { id: 'image_alt', label: 'Image alt text' };
+    if (images.length === 0) return { ...base, status: 'pass', message: 'No inline images' };
+    if (missing === 0) return { ...base, status: 'pass', message: `All ${images.length} images described` };
+    return { ...base, status: missing === images.length ? 'fail' : 'warn', message: `${missing} of ${images.length} images have no alt text` };
+};
+
+const checkInternalLinks = (post: SeoAuditInput, targets: LinkTargets): Omit<SeoCheck, 'weight'> => {
+    const internal = extractMarkdownLinks(post.content).filter((link) => !link.image && link.url.startsWith('/'));
+    const broken = findBrokenLinks(post.content, post.target_site || 'stachbit.in', targets);
+    const base = { id: 'internal_links', label: 'Internal links' };
+
+    if (broken.length > 0) return { ...base, status: 'fail', message: `Broken: ${broken.map((link) => link.url).join(', ')}` };
+    if (internal.length === 0) return { ...base, status: 'warn', message: 'No links to other pages on the site' };
+    return { ...base, status: 'pass', message: `${internal.length} valid internal link${internal.length === 1 ? '' : 's'}` };
+};
+
+const checkReadability = (text: string): Omit<SeoCheck, 'weight'> => {
+    const ease = readingEase(text);
+    const base = { id: 'readability', label: 'Readability' };
+    if (ease >= 50) return { ...base, status: 'pass', message: `Reading ease ${ease}` };
+    return {
+        ...base,
+        status: ease >= 30 ? 'warn' : 'fail',
+        message: `Reading ease ${ease}; shorter sentences and simpler words will help`,
+    };
+};
+
+const checkLength = (words: number): Omit<SeoCheck, 'weight'> => {
+    const base = { id: 'length', label: 'Content length' };
+    if (words >= MIN_WORDS) return { ...base, status: 'pass', message: `${words} words` };
+    return { ...base, status: words >= MIN_WORDS / 3 ? 'warn' : 'fail', message: `${words} words; aim for ${MIN_WORDS}+` };
+};
+
+// Without `targets`, links are checked against the built-in routes and /blog/... links are trusted
+export function auditBlogPost(post: SeoAuditInput, targets: LinkTargets = FALLBACK_LINK_TARGETS): SeoAudit {
+    const text = markdownToText(post.content);
+    const words = countWords(text);
+    const keywords = (post.meta_keywords || '').split(',').map((keyword) => keyword.trim()).filter(Boolean);
+
+    const checks: SeoCheck[] = [
+        { ...checkTitle(post), weight: 15 },
+        { ...checkDescription(post), weight: 15 },
+        { ...checkSlug(post), weight: 5 },
+        { ...checkKeywordPlacement(post, keywords[0]), weight: 10 },
+        { ...checkKeywordDensity(text, words, keywords), weight: 15 },
+        { ...checkHeadings(post.content), weight: 10 },
+        { ...checkImageAlt(post.content), weight: 5 },
+        { ...checkInternalLinks(post, targets), weight: 10 },
+        { ...checkReadability(text), weight: 10 },
+        { ...checkLength(words), weight: 5 },
+    ];
+
+    const total = checks.reduce((sum, check) => sum + check.weight, 0);
+    const earned = checks.reduce((sum, check) => sum + check.weight * STATUS_CREDIT[check.status], 0);
+    return { score: Math.round((earned / total) * 100), checks };
+}
+
+export const seoScoreClass = (score: number) =>
+    score >= 80
+        ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+        : score >= 50
+            ? 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30'
+            : 'bg-red-500/20 text-red-400 border border-red-500/30';
@@ -1,15 +1,27 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { createClient, FunctionsHttpError, SupabaseClient } from '@supabase/supabase-js';
 import type {
+    Database,
     UserProfile,
+    UserSubscription,
+    UserRole,
+    SubscriptionTier,
+    SubscriptionStatus,
+    LeadStatus,
+    WebsiteScore,
     Lead,
     LeadSearch,
     EmailTemplate,
     EmailCampaign,
+    CampaignStatus,
+    CampaignLead,
+    EmailLog,
     SmtpConfig,
     SubscriptionPlan,
     WhatsAppTemplate,
-    BlogPost
+    BlogPost,
+    BlogTargetSite
 } from './database.types';
+import { escapeHtml, fillTemplate, formatCurrency, formatDate } from './utils';
 
 // Supabase configuration - same as tootle/webmain
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
@@ -27,6 +39,109 @@ export const supabase: SupabaseClient = createClient(supabaseUrl, supabaseAnonKe
     },
 });
 
+// Build an or() filter matching `search` against any of `columns`. Characters that
+// would break the PostgREST filter syntax are stripped first.
+const buildSearchFilter = (columns: string[], search?: string): string | null => {
+    const term = search?.replace(/[,()*%\\]/g, ' ').trim();
+    if (!term) return null;
+    return columns.map((column) => `${column}.ilike.%${term}%`).join(',');
+};
+
+// Escapes LIKE wildcards so the value is matched literally
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+// Shape of the user_profiles(full_name, email) join used across admin listings
+export type UserSummary = { full_name: string | null; email: string } | null;
+
+// ===== Admin Audit Trail =====
+// Admin mutations are written to activity_logs next to customer events. Their action
+// carries this prefix so the Logs page can list them on their own.
+export const ADMIN_ACTION_PREFIX = 'admin_';
+
+export type AuditEntityType =
+    | 'user'
+    | 'user_subscription'
+    | 'subscription_plan'
+    | 'email_template'
+    | 'email_campaign'
+    | 'smtp_setting'
+    | 'site_setting'
+    | 'website_inquiry'
+    | 'portfolio_project'
+    | 'support_ticket'
+    | 'canned_response'
+    | 'coupon'
+    | 'coupon_batch'
+    | 'blog_post'
+    | 'api_key'
+    | 'auto_blog_topic'
+    | 'contact_setting'
+    | 'social_link'
+    | 'site_route';
+
+type AuditRecord = Record<string, unknown>;
+
+export interface AdminAuditDetails {
+    entity_type: AuditEntityType;
+    entity_id: string;
+    before: AuditRecord | null;
+    after: AuditRecord | null;
+}
+
+// Secret values are never copied into the log, only whether they changed
+const AUDIT_REDACTED_FIELDS = ['key_value', 'smtp_password'];
+const AUDIT_IGNORED_FIELDS = ['updated_at'];
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const redactAuditRecord = (record: AuditRecord | null) => {
+    if (!record) return null;
+    const copy = { ...record };
+    AUDIT_REDACTED_FIELDS.forEach((field) => {
+        if (field in copy) copy[field] = copy[field] ? '[redacted]' : copy[field];
+    });
+    return copy;
+};
+
+const fetchAuditSnapshot = async (table: string, column: string, value: string) => {
+    const { data } = await supabase.from(table).select('*').eq(column, value).maybeSingle();
+    return data as AuditRecord | null;
+};
+
+// Creates and deletes keep the whole row; updates keep only the fields that changed
+// so the entry reads as a diff. Failures are logged but never fail the mutation.
+const recordAdminAction = async (
+    action: string,
+    entity: { type: AuditEntityType; id: string },
+    before: AuditRecord | null,
+    after: AuditRecord | null
+) => {
+    let details: AdminAuditDetails = { entity_type: entity.type, entity_id: entity.id, before, after };
+
+    if (before && after) {
+        const changed = Object.keys(after).filter(
+            (key) => !AUDIT_IGNORED_FIELDS.includes(key) && !isSameValue(before[key], after[key])
+        );
+        if (changed.length === 0) return;
+        details = {
+            ...details,
+            before: Object.fromEntries(changed.map((key) => [key, before[key] ?? null])),
+            after: Object.fromEntries(changed.map((key) => [key, after[key] ?? null])),
+        };
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    const { error } = await supabase.from('activity_logs').insert({
+        user_id: session.user.id,
+        action: `${ADMIN_ACTION_PREFIX}${action}`,
+        details: { ...details, before: redactAuditRecord(details.before), after: redactAuditRecord(details.after) },
+        user_agent: navigator.userAgent,
+    });
+    if (error) console.error('Failed to record admin action:', error);
+};
+
 // Profile helper functions
 export const getUserProfile = async (userId: string) => {
     const { data, error } = await supabase
@@ -38,12 +153,14 @@ export const getUserProfile = async (userId: string) => {
 };
 
 export const updateUserProfile = async (userId: string, updates: Partial<UserProfile>) => {
+    const before = await fetchAuditSnapshot('user_profiles', 'id', userId);
     const { data, error } = await supabase
         .from('user_profiles')
         .update(updates)
         .eq('id', userId)
         .select()
         .single();
+    if (data) await recordAdminAction('update_user', { type: 'user', id: userId }, before, data);
     return { data: data as UserProfile | null, error };
 };
 
@@ -57,6 +174,141 @@ export const getSubscriptionPlans = async () => {
     return { data: data as SubscriptionPlan[] | null, error };
 };
 
+export const getAllSubscriptionPlans = async () => {
+    const { data, error } = await supabase
+        .from('subscription_plans')
+        .select('*')
+        .order('price_monthly', { ascending: true });
+    return { data: data as SubscriptionPlan[] | null, error };
+};
+
+export const createSubscriptionPlan = async (
+    plan: Database['public']['Tables']['subscription_plans']['Insert'],
+    changedBy?: string
+) => {
+    const { data, error } = await supabase
+        .from('subscription_plans')
+        .insert(plan)
+        .select()
+        .single();
+
+    if (data) {
+        await recordPlanVersion(data as SubscriptionPlan, changedBy);
+        await recordAdminAction('create_subscription_plan', { type: 'subscription_plan', id: data.id }, null, data);
+    }
+    return { data: data as SubscriptionPlan | null, error };
+};
+
+export const updateSubscriptionPlan = async (
+    planId: string,
+    updates: Database['public']['Tables']['subscription_plans']['Update'],
+    changedBy?: string
+) => {
+    const { data: before } = await supabase
+        .from('subscription_plans')
+        .select('*')
+        .eq('id', planId)
+        .single();
+
+    const { data, error } = await supabase
+        .from('subscription_plans')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', planId)
+        .select()
+        .single();
+
+    if (data && before && PLAN_VERSION_FIELDS.some((field) => !isSameValue(before[field], data[field]))) {
+        // Plans that predate versioning get their pre-edit state recorded as the first version
+        const { count } = await supabase
+            .from('subscription_plan_versions')
+            .select('*', { count: 'exact', head: true })
+            .eq('plan_id', planId);
+        if (!count) {
+            await recordPlanVersion(before as SubscriptionPlan, null, before.created_at);
+        }
+        await recordPlanVersion(data as SubscriptionPlan, changedBy);
+    }
+    if (data) await recordAdminAction('update_subscription_plan', { type: 'subscription_plan', id: planId }, before, data);
+    return { data: data as SubscriptionPlan | null, error };
+};
+
+// ===== Subscription Plan Versions =====
+export interface SubscriptionPlanVersion {
+    id: string;
+    plan_id: string;
+    version: number;
+    name: string;
+    price_monthly: number;
+    price_yearly: number | null;
+    leads_per_month: number;
+    emails_per_month: number;
+    templates_limit: number;
+    can_export_csv: boolean;
+    priority_support: boolean;
+    trial_days: number;
+    features: string[];
+    changed_by: string | null;
+    effective_from: string;
+    created_at: string;
+}
+
+// Fields whose change produces a new plan version; toggling is_active does not
+export const PLAN_VERSION_FIELDS = [
+    'name',
+    'price_monthly',
+    'price_yearly',
+    'leads_per_month',
+    'emails_per_month',
+    'templates_limit',
+    'can_export_csv',
+    'priority_support',
+    'trial_days',
+    'features',
+] as const;
+
+const recordPlanVersion = async (plan: SubscriptionPlan, changedBy?: string | null, effectiveFrom?: string) => {
+    const { data: latest } = await supabase
+        .from('subscription_plan_versions')
+        .select('version')
+        .eq('plan_id', plan.id)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    const snapshot = Object.fromEntries(PLAN_VERSION_FIELDS.map((field) => [field, plan[field]]));
+    const { error } = await supabase
+        .from('subscription_plan_versions')
+        .insert({
+            ...snapshot,
+            plan_id: plan.id,
+            version: (latest?.version || 0) + 1,
+            changed_by: changedBy || null,
+            effective_from: effectiveFrom || new Date().toISOString(),
+        });
+
+    if (error) {
+        console.error('Error recording plan version:', error);
+    }
+};
+
+export const getSubscriptionPlanVersions = async (planId: string) => {
+    const { data, error } = await supabase
+        .from('subscription_plan_versions')
+        .select('*')
+        .eq('plan_id', planId)
+        .order('version', { ascending: false });
+    return { data: data as SubscriptionPlanVersion[] | null, error };
+};
+
+export const getPlanSubscriptions = async (planId: string) => {
+    const { data, error } = await supabase
+        .from('user_subscriptions')
+        .select('*, user_profiles(full_name, email)')
+        .eq('plan_id', planId)
+        .order('start_date', { ascending: false });
+    return { data: data as (UserSubscription & { user_profiles: UserSummary })[] | null, error };
+};
+
 // Admin helper functions
 export const isUserAdmin = async (userId: string) => {
     const { data, error } = await supabase
@@ -72,12 +324,57 @@ export const isUserAdmin = async (userId: string) => {
     return data?.role === 'admin';
 };
 
-export const getAllUsers = async (options?: { limit?: number; offset?: number }) => {
+export type UserSortField =
+    | 'created_at'
+    | 'last_login_at'
+    | 'email'
+    | 'full_name'
+    | 'subscription_tier'
+    | 'leads_used_this_month';
+
+export const getAllUsers = async (options?: {
+    limit?: number;
+    offset?: number;
+    search?: string;
+    tier?: SubscriptionTier;
+    status?: SubscriptionStatus;
+    role?: UserRole;
+    isActive?: boolean;
+    lastLoginFrom?: string;
+    lastLoginTo?: string;
+    sortBy?: UserSortField;
+    ascending?: boolean;
+}) => {
     let query = supabase
         .from('user_profiles')
         .select('*', { count: 'exact' })
-        .order('created_at', { ascending: false });
+        .order(options?.sortBy || 'created_at', {
+            ascending: options?.ascending ?? false,
+            nullsFirst: false,
+        });
 
+    const searchFilter = buildSearchFilter(['email', 'full_name', 'company_name', 'phone'], options?.search);
+    if (searchFilter) {
+        query = query.or(searchFilter);
+    }
+    if (options?.tier) {
+        query = query.eq('subscription_tier', options.tier);
+    }
+    if (options?.status) {
+        query = query.eq('subscription_status', options.status);
+    }
+    if (options?.role) {
+        query = query.eq('role', options.role);
+    }
+    if (options?.isActive !== undefined) {
+        query = query.eq('is_active', options.isActive);
+    }
+    if (options?.lastLoginFrom) {
+        query = query.gte('last_login_at', options.lastLoginFrom);
+    }
+    if (options?.lastLoginTo) {
+        query = query.lte('last_login_at', options.lastLoginTo);
+    }
     if (options?.limit) {
         query = query.limit(options.limit);
     }
@@ -89,27 +386,214 @@ export const getAllUsers = async (options?: { limit?: number; offset?: number })
     return { data: data as UserProfile[] | null, error, count };
 };
 
+// Looks up users for pickers that work with emails but store ids
+// Emails match regardless of case
+export const getUserSummaries = async (filter: { ids?: string[]; emails?: string[] }) => {
+    let query = supabase.from('user_profiles').select('id, email, full_name');
+    if (filter.ids) query = query.in('id', filter.ids);
+    if (filter.emails) query = query.in('email_lower', filter.emails.map((email) => email.toLowerCase()));
+    const { data, error } = await query;
+    return { data: data as { id: string; email: string; full_name: string | null }[] | null, error };
+};
+
 export const updateUserAsAdmin = async (userId: string, updates: Partial<UserProfile>) => {
+    const before = await fetchAuditSnapshot('user_profiles', 'id', userId);
     const { data, error } = await supabase
         .from('user_profiles')
         .update(updates)
         .eq('id', userId)
         .select()
         .single();
+    if (data) await recordAdminAction('update_user', { type: 'user', id: userId }, before, data);
     return { data: data as UserProfile | null, error };
 };
 
+export const deleteUserAsAdmin = async (userId: string) => {
+    const before = await fetchAuditSnapshot('user_profiles', 'id', userId);
+    const { error } = await supabase
+        .from('user_profiles')
+        .delete()
+        .eq('id', userId);
+    if (!error) await recordAdminAction('delete_user', { type: 'user', id: userId }, before, null);
+    return { error };
+};
+
+// User subscription helper functions
+export const REFUND_PAYMENT_METHOD = 'refund';
+
+export const getUserSubscriptions = async (userId: string) => {
+    const { data, error } = await supabase
+        .from('user_subscriptions')
+        .select('*, subscription_plans(name)')
+        .eq('user_id', userId)
+        .order('start_date', { ascending: false })
+        .order('created_at', { ascending: false });
+    return { data: data as (UserSubscription & { subscription_plans: { name: string } | null })[] | null, error };
+};
+
+// Mirror the user's current subscription onto user_profiles so the customer app,
+// which only reads the profile, sees the same state as the subscription timeline.
+const syncProfileSubscription = async (userId: string) => {
+    const { data: subscriptions } = await supabase
+        .from('user_subscriptions')
+        .select('*')
+        .eq('user_id', userId)
+        .or(`payment_method.is.null,payment_method.neq.${REFUND_PAYMENT_METHOD}`)
+        .order('start_date', { ascending: false });
+
+    const rows = (subscriptions || []) as UserSubscription[];
+    const current = rows.find((sub) => sub.status === 'active') || rows[0];
+    if (!current) return { error: null };
+
+    const { error } = await supabase
+        .from('user_profiles')
+        .update({
+            subscription_tier: current.tier,
+            subscription_status: current.status,
+            subscription_start_date: current.start_date,
+            subscription_end_date: current.end_date,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId);
+    return { error };
+};
+
+export const grantSubscription = async (grant: {
+    user_id: string;
+    plan_id: string;
+    tier: SubscriptionTier;
+    amount_paid?: number | null;
+    payment_method?: string | null;
+    payment_reference?: string | null;
+    start_date: string;
+    end_date?: string | null;
+}) => {
+    const { data, error } = await supabase
+        .from('user_subscriptions')
+        .insert({ ...grant, status: 'active' })
+        .select()
+        .single();
+
+    if (error) return { data: null, error };
+    await recordAdminAction('grant_subscription', { type: 'user_subscription', id: data.id }, null, data);
+
+    // The new grant supersedes whatever the user had. It is inserted first so a failure
+    // here leaves two active rows rather than none.
+    const { error: expireError } = await supabase
+        .from('user_subscriptions')
+        .update({ status: 'expired', end_date: grant.start_date })
+        .eq('user_id', grant.user_id)
+        .eq('status', 'active')
+        .neq('id', data.id);
+
+    const { error: syncError } = await syncProfileSubscription(grant.user_id);
+    return { data: data as UserSubscription, error: expireError || syncError };
+};
+
+export const extendSubscription = async (subscription: UserSubscription, endDate: string) => {
+    const { data, error } = await supabase
+        .from('user_subscriptions')
+        .update({ end_date: endDate, status: 'active', cancelled_at: null })
+        .eq('id', subscription.id)
+        .select()
+        .single();
+
+    if (error) return { data: null, error };
+    await recordAdminAction('extend_subscription', { type: 'user_subscription', id: subscription.id }, subscription, data);
+    const { error: syncError } = await syncProfileSubscription(subscription.user_id);
+    return { data: data as UserSubscription, error: syncError };
+};
+
+export const cancelSubscription = async (subscription: UserSubscription) => {
+    const { data, error } = await supabase
+        .from('user_subscriptions')
+        .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+        .eq('id', subscription.id)
+        .select()
+        .single();
+
+    if (error) return { data: null, error };
+    await recordAdminAction('cancel_subscription', { type: 'user_subscription', id: subscription.id }, subscription, data);
+    const { error: syncError } = await syncProfileSubscription(subscription.user_id);
+    return { data: data as UserSubscription, error: syncError };
+};
+
+// What is left to refund on a payment once the refunds recorded against it are taken off
+export const getRefundableAmount = (subscription: UserSubscription, subscriptions: UserSubscription[]) => {
+    if (subscription.payment_method === REFUND_PAYMENT_METHOD) return 0;
+    const refunded = subscriptions
+        .filter((sub) => sub.refunded_subscription_id === subscription.id)
+        .reduce((sum, sub) => sum - (sub.amount_paid || 0), 0);
+    return Math.max(0, (subscription.amount_paid || 0) - refunded);
+};
+
+// A refund cancels the original subscription and is recorded as its own row with a
+// negative amount, so the timeline keeps both the payment and the money returned.
+// Refund rows link back through `refunded_subscription_id` and together never exceed
+// the amount paid.
+export const refundSubscription = async (subscription: UserSubscription, refund: { amount: number; reference?: string }) => {
+    const { data: refunds, error: refundsError } = await supabase
+        .from('user_subscriptions')
+        .select('*')
+        .eq('refunded_subscription_id', subscription.id);
+    if (refundsError) return { data: null, error: refundsError };
+
+    const refundable = getRefundableAmount(subscription, (refunds || []) as UserSubscription[]);
+    if (refundable <= 0) {
+        return { data: null, error: new Error('This payment has already been fully refunded') };
+    }
+    if (!(refund.amount > 0) || refund.amount > refundable) {
+        return { data: null, error: new Error(`Refund must be more than 0 and at most ${formatCurrency(refundable)}`) };
+    }
+
+    const now = new Date().toISOString();
+
+    if (subscription.status !== 'cancelled') {
+        const { error } = await supabase
+            .from('user_subscriptions')
+            .update({ status: 'cancelled', cancelled_at: now })
+            .eq('id', subscription.id);
+        if (error) return { data: null, error };
+    }
+
+    const { data, error } = await supabase
+        .from('user_subscriptions')
+        .insert({
+            user_id: subscription.user_id,
+            plan_id: subscription.plan_id,
+            tier: subscription.tier,
+            status: 'cancelled',
+            amount_paid: -Math.abs(refund.amount),
+            payment_method: REFUND_PAYMENT_METHOD,
+            payment_reference: refund.reference || subscription.payment_reference,
+            start_date: now,
+            end_date: now,
+            cancelled_at: now,
+            refunded_subscription_id: subscription.id,
+        })
+        .select()
+        .single();
+
+    if (error) return { data: null, error };
+    await recordAdminAction('refund_subscription', { type: 'user_subscription', id: subscription.id }, null, data);
+    const { error: syncError } = await syncProfileSubscription(subscription.user_id);
+    return { data: data as UserSubscription, error: syncError };
+};
+
 // Leads helper functions
 export const getLeads = async (options?: {
     userId?: string;
     searchId?: string;
-    status?: string;
+    status?: LeadStatus;
+    websiteScore?: WebsiteScore;
+    hasWebsite?: boolean;
+    search?: string;
     limit?: number;
     offset?: number;
 }) => {
     let query = supabase
         .from('leads')
-        .select('*', { count: 'exact' })
+        .select('*, user_profiles(full_name, email)', { count: 'exact' })
         .order('created_at', { ascending: false });
 
     if (options?.userId) {
@@ -121,6 +605,17 @@ export const getLeads = async (options?: {
     if (options?.status) {
         query = query.eq('status', options.status);
     }
+    if (options?.websiteScore) {
+        query = query.eq('website_score', options.websiteScore);
+    }
+    if (options?.hasWebsite !== undefined) {
+        query = query.eq('has_website', options.hasWebsite);
+    }
+
+    const searchFilter = buildSearchFilter(['business_name', 'email', 'phone', 'city', 'business_type'], options?.search);
+    if (searchFilter) {
+        query = query.or(searchFilter);
+    }
     if (options?.limit) {
         query = query.limit(options.limit);
     }
@@ -129,16 +624,33 @@ export const getLeads = async (options?: {
     }
 
     const { data, error, count } = await query;
-    return { data: data as Lead[] | null, error, count };
+    return { data: data as (Lead & { user_profiles: UserSummary })[] | null, error, count };
 };
 
 // Lead searches helper functions
-export const getLeadSearches = async (options?: { limit?: number; offset?: number }) => {
+export const getLeadSearches = async (options?: {
+    userId?: string;
+    status?: string;
+    search?: string;
+    limit?: number;
+    offset?: number;
+}) => {
     let query = supabase
         .from('lead_searches')
-        .select('*', { count: 'exact' })
+        .select('*, user_profiles(full_name, email)', { count: 'exact' })
         .order('created_at', { ascending: false });
 
+    if (options?.userId) {
+        query = query.eq('user_id', options.userId);
+    }
+    if (options?.status) {
+        query = query.eq('status', options.status);
+    }
+
+    const searchFilter = buildSearchFilter(['search_name', 'business_type', 'city', 'state', 'client_need'], options?.search);
+    if (searchFilter) {
+        query = query.or(searchFilter);
+    }
     if (options?.limit) {
         query = query.limit(options.limit);
     }
@@ -147,7 +659,7 @@ export const getLeadSearches = async (options?: { limit?: number; offset?: numbe
     }
 
     const { data, error, count } = await query;
-    return { data: data as LeadSearch[] | null, error, count };
+    return { data: data as (LeadSearch & { user_profiles: UserSummary })[] | null, error, count };
 };
 
 // Email templates helper functions
@@ -171,24 +683,29 @@ export const createEmailTemplate = async (template: Partial<EmailTemplate> & { n
         .insert(template)
         .select()
         .single();
+    if (data) await recordAdminAction('create_email_template', { type: 'email_template', id: data.id }, null, data);
     return { data: data as EmailTemplate | null, error };
 };
 
 export const updateEmailTemplate = async (templateId: string, updates: Partial<EmailTemplate>) => {
+    const before = await fetchAuditSnapshot('email_templates', 'id', templateId);
     const { data, error } = await supabase
         .from('email_templates')
         .update({ ...updates, updated_at: new Date().toISOString() })
         .eq('id', templateId)
         .select()
         .single();
+    if (data) await recordAdminAction('update_email_template', { type: 'email_template', id: templateId }, before, data);
     return { data: data as EmailTemplate | null, error };
 };
 
 export const deleteEmailTemplate = async (templateId: string) => {
+    const before = await fetchAuditSnapshot('email_templates', 'id', templateId);
     const { error } = await supabase
         .from('email_templates')
         .delete()
         .eq('id', templateId);
+    if (!error) await recordAdminAction('delete_email_template', { type: 'email_template', id: templateId }, before, null);
     return { error };
 };
 
@@ -208,18 +725,91 @@ export const getSmtpConfigs = async (userId?: string) => {
 };
 
 // Email campaigns helper functions
-export const getEmailCampaigns = async (userId?: string) => {
+export const getEmailCampaigns = async (options?: {
+    userId?: string;
+    status?: CampaignStatus;
+    search?: string;
+    limit?: number;
+    offset?: number;
+}) => {
     let query = supabase
         .from('email_campaigns')
-        .select('*')
+        .select('*, user_profiles(full_name, email)', { count: 'exact' })
         .order('created_at', { ascending: false });
 
-    if (userId) {
-        query = query.eq('user_id', userId);
+    if (options?.userId) {
+        query = query.eq('user_id', options.userId);
+    }
+    if (options?.status) {
+        query = query.eq('status', options.status);
     }
 
-    const { data, error } = await query;
-    return { data: data as EmailCampaign[] | null, error };
+    const searchFilter = buildSearchFilter(['name', 'subject'], options?.search);
+    if (searchFilter) {
+        query = query.or(searchFilter);
+    }
+    if (options?.limit) {
+        query = query.limit(options.limit);
+    }
+    if (options?.offset) {
+        query = query.range(options.offset, options.offset + (options.limit || 10) - 1);
+    }
+
+    const { data, error, count } = await query;
+    return { data: data as (EmailCampaign & { user_profiles: UserSummary })[] | null, error, count };
+};
+
+export const getCampaignRecipients = async (campaignId: string, limit: number = 500) => {
+    const { data, error } = await supabase
+        .from('campaign_leads')
+        .select('*, leads(business_name, email)')
+        .eq('campaign_id', campaignId)
+        .order('created_at', { ascending: true })
+        .limit(limit);
+    return {
+        data: data as (CampaignLead & { leads: { business_name: string; email: string | null } | null })[] | null,
+        error,
+    };
+};
+
+export const getCampaignEmailLogs = async (campaignId: string, limit: number = 50) => {
+    const { data, error } = await supabase
+        .from('email_logs')
+        .select('*')
+        .eq('campaign_id', campaignId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+    return { data: data as EmailLog[] | null, error };
+};
+
+// Pausing only applies to a campaign that is still sending; the status guard keeps us
+// from overwriting a campaign that finished between loading the page and clicking.
+export const pauseEmailCampaign = async (campaignId: string) => {
+    const before = await fetchAuditSnapshot('email_campaigns', 'id', campaignId);
+    const { data, error } = await supabase
+        .from('email_campaigns')
+        .update({ status: 'paused', updated_at: new Date().toISOString() })
+        .eq('id', campaignId)
+        .eq('status', 'sending')
+        .select()
+        .single();
+    if (data) await recordAdminAction('pause_email_campaign', { type: 'email_campaign', id: campaignId }, before, data);
+    return { data: data as EmailCampaign | null, error };
+};
+
+// There is no cancelled campaign status, so cancelling a scheduled campaign returns it
+// to draft and clears the schedule.
+export const cancelScheduledCampaign = async (campaignId: string) => {
+    const before = await fetchAuditSnapshot('email_campaigns', 'id', campaignId);
+    const { data, error } = await supabase
+        .from('email_campaigns')
+        .update({ status: 'draft', scheduled_at: null, updated_at: new Date().toISOString() })
+        .eq('id', campaignId)
+        .eq('status', 'scheduled')
+        .select()
+        .single();
+    if (data) await recordAdminAction('cancel_email_campaign', { type: 'email_campaign', id: campaignId }, before, data);
+    return { data: data as EmailCampaign | null, error };
 };
 
 // WhatsApp templates helper functions
@@ -237,6 +827,71 @@ export const getWhatsAppTemplates = async (userId?: string) => {
     return { data: data as WhatsAppTemplate[] | null, error };
 };
 
+// Admin email settings: the single smtp_settings row the notification edge functions send with
+export interface EmailSettings {
+    id?: string;
+    from_email: string;
+    from_name: string;
+    notification_emails: string[];
+    is_active: boolean;
+}
+
+export const getSmtpSettings = async () => {
+    const { data, error } = await supabase
+        .from('smtp_settings')
+        .select('*')
+        .maybeSingle();
+    return { data: data as (EmailSettings & { id: string }) | null, error };
+};
+
+export const saveSmtpSettings = async ({ id, ...settings }: EmailSettings) => {
+    if (id) {
+        const before = await fetchAuditSnapshot('smtp_settings', 'id', id);
+        const { data, error } = await supabase
+            .from('smtp_settings')
+            .update({ ...settings, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .select()
+            .single();
+        if (data) await recordAdminAction('update_smtp_settings', { type: 'smtp_setting', id }, before, data);
+        return { data, error };
+    }
+
+    // Delivery goes through Resend; the SMTP columns only hold placeholders
+    const { data, error } = await supabase
+        .from('smtp_settings')
+        .insert({
+            ...settings,
+            smtp_host: 'resend.com',
+            smtp_port: 443,
+            smtp_secure: true,
+            smtp_user: 'resend',
+            smtp_password: 'api_key',
+        })
+        .select()
+        .single();
+    if (data) await recordAdminAction('create_smtp_settings', { type: 'smtp_setting', id: data.id }, null, data);
+    return { data, error };
+};
+
+// The edge functions in supabase/functions answer failures with a non-2xx status and an
+// `{ error }` body; that message is returned instead of the client's generic one.
+const invokeEdgeFunction = async <T,>(name: string, body: object) => {
+    const { data, error } = await supabase.functions.invoke(name, { body });
+    if (error instanceof FunctionsHttpError) {
+        const details = await error.context.json().catch(() => null);
+        return { data: null, error: new Error(details?.error || error.message) };
+    }
+    if (error) return { data: null, error };
+    return { data: data as T, error: null };
+};
+
+// Email to a single customer goes through the `send-email` edge function, whose request
+// names the recipient (see supabase/functions/send-email). send-contact-notification only
+// ever writes to the admin notification list.
+export const sendEmail = (email: { to: string; subject: string; html: string; text?: string }) =>
+    invokeEdgeFunction<{ id: string }>('send-email', email);
+
 // Site settings helper functions
 export const getSiteSettings = async () => {
     const { data, error } = await supabase
@@ -260,25 +915,41 @@ export const getSiteSettings = async () => {
     return { data: settings, error: null };
 };
 
-export const updateSiteSetting = async (key: string, value: string, updatedBy?: string) => {
-    const { data, error } = await supabase
-        .from('site_settings')
-        .update({ value, updated_by: updatedBy, updated_at: new Date().toISOString() })
-        .eq('key', key)
-        .select()
-        .single();
+// Settings the admin UI introduces (e.g. SLA targets) may not be seeded yet; `definition`
+// supplies the columns a new row needs and is ignored when the key already exists.
+export const updateSiteSetting = async (
+    key: string,
+    value: string,
+    updatedBy?: string,
+    definition?: { type: string; description: string; is_public: boolean }
+) => {
+    const before = await fetchAuditSnapshot('site_settings', 'key', key);
+    const changes = { value, updated_by: updatedBy, updated_at: new Date().toISOString() };
+    const { data, error } = before
+        ? await supabase.from('site_settings').update(changes).eq('key', key).select().single()
+        : await supabase.from('site_settings').insert({ key, ...definition, ...changes }).select().single();
+    if (data) await recordAdminAction('update_site_setting', { type: 'site_setting', id: key }, before, data);
     return { data, error };
 };
 
 // Website inquiries helper functions
-export const getWebsiteInquiries = async (options?: { status?: string; limit?: number; offset?: number }) => {
+export type InquiryStatus = 'new' | 'contacted' | 'in_progress' | 'completed' | 'spam';
+
+// The sales pipeline; spam is kept out of it and only shown when filtered for
+export const INQUIRY_STATUSES: InquiryStatus[] = ['new', 'contacted', 'in_progress', 'completed'];
+
+// Inquiries merged into another one are hidden; their history lives on the primary inquiry
+export const getWebsiteInquiries = async (options?: { status?: string; excludeSpam?: boolean; limit?: number; offset?: number }) => {
     let query = supabase
         .from('website_inquiries')
         .select('*', { count: 'exact' })
+        .is('merged_into', null)
         .order('created_at', { ascending: false });
 
     if (options?.status) {
         query = query.eq('status', options.status);
+    } else if (options?.excludeSpam) {
+        query = query.neq('status', 'spam');
     }
     if (options?.limit) {
         query = query.limit(options.limit);
@@ -291,16 +962,327 @@ export const getWebsiteInquiries = async (options?: { status?: string; limit?: n
     return { data, error, count };
 };
 
-export const updateWebsiteInquiry = async (inquiryId: string, updates: { status?: string; admin_notes?: string }) => {
+export const getWebsiteInquiryById = async (inquiryId: string) => {
+    const { data, error } = await supabase
+        .from('website_inquiries')
+        .select('*')
+        .eq('id', inquiryId)
+        .maybeSingle();
+    return { data, error };
+};
+
+// Status and follow-up changes are also written to the inquiry's activity history
+export const updateWebsiteInquiry = async (
+    inquiryId: string,
+    updates: {
+        status?: InquiryStatus;
+        admin_notes?: string;
+        follow_up_at?: string | null;
+        converted_user_id?: string | null;
+        portfolio_project_id?: string | null;
+        converted_at?: string | null;
+    }
+) => {
+    const before = await fetchAuditSnapshot('website_inquiries', 'id', inquiryId);
     const { data, error } = await supabase
         .from('website_inquiries')
         .update({ ...updates, updated_at: new Date().toISOString() })
         .eq('id', inquiryId)
         .select()
         .single();
+    if (data) {
+        await recordAdminAction('update_website_inquiry', { type: 'website_inquiry', id: inquiryId }, before, data);
+
+        if (before && before.status !== data.status) {
+            await insertInquiryActivity(
+                inquiryId,
+                'status_change',
+                `Moved from ${String(before.status).replace('_', ' ')} to ${data.status.replace('_', ' ')}`
+            );
+        }
+        if (before && !isSameValue(before.follow_up_at, data.follow_up_at)) {
+            await insertInquiryActivity(
+                inquiryId,
+                'follow_up',
+                data.follow_up_at ? `Follow-up set for ${formatDate(data.follow_up_at)}` : 'Follow-up cleared'
+            );
+        }
+    }
     return { data, error };
 };
 
+// Follow-ups that have come due on inquiries that are still open
+export const getDueInquiryFollowUps = async (options?: { limit?: number }) => {
+    const { data, error, count } = await supabase
+        .from('website_inquiries')
+        .select('id, name, email, status, follow_up_at', { count: 'exact' })
+        .not('follow_up_at', 'is', null)
+        .lte('follow_up_at', new Date().toISOString())
+        .not('status', 'in', '(completed,spam)')
+        .is('merged_into', null)
+        .order('follow_up_at', { ascending: true })
+        .limit(options?.limit || 10);
+    return { data, error, count };
+};
+
+// ===== Inquiry Activity =====
+// Timestamped history per inquiry, replacing the single overwritten `admin_notes` field
+export type InquiryActivityType = 'note' | 'status_change' | 'follow_up' | 'email' | 'conversion' | 'merge';
+
+export interface InquiryActivity {
+    id: string;
+    inquiry_id: string;
+    user_id: string | null;
+    type: InquiryActivityType;
+    message: string;
+    created_at: string;
+    user_profiles?: { full_name: string | null; email: string | null } | null;
+}
+
+const INQUIRY_ACTIVITY_SELECT = '*, user_profiles(full_name, email)';
+
+const insertInquiryActivity = async (inquiryId: string, type: InquiryActivityType, message: string) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const { data, error } = await supabase
+        .from('inquiry_activities')
+        .insert({ inquiry_id: inquiryId, user_id: session?.user.id || null, type, message })
+        .select(INQUIRY_ACTIVITY_SELECT)
+        .single();
+    if (error) console.error('Failed to record inquiry activity:', error);
+    return { data, error };
+};
+
+export const getInquiryActivities = async (inquiryId: string) => {
+    const { data, error } = await supabase
+        .from('inquiry_activities')
+        .select(INQUIRY_ACTIVITY_SELECT)
+        .eq('inquiry_id', inquiryId)
+        .order('created_at', { ascending: false });
+    return { data: data as InquiryActivity[] | null, error };
+};
+
+export const addInquiryNote = async (inquiryId: string, message: string) => {
+    const { data, error } = await insertInquiryActivity(inquiryId, 'note', message);
+    if (data) await recordAdminAction('add_inquiry_note', { type: 'website_inquiry', id: inquiryId }, null, data);
+    return { data: data as InquiryActivity | null, error };
+};
+
+// Variables available to email templates when replying to an inquiry
+export const INQUIRY_TEMPLATE_VARIABLES = ['name', 'first_name', 'company', 'service_interest', 'budget_range'];
+
+const htmlToText = (html: string) =>
+    html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|h[1-6]|li|blockquote)>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&amp;/g, '&')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+
+// Sends a rendered reply to the inquirer and keeps a plain-text copy in the inquiry's history
+export const sendInquiryReply = async (
+    inquiry: { id: string; name: string; email: string },
+    email: { subject: string; html: string }
+) => {
+    const text = htmlToText(email.html);
+    const { error: sendError } = await sendEmail({ to: inquiry.email, subject: email.subject, html: email.html, text });
+    if (sendError) return { data: null, error: sendError, logError: null };
+
+    const { data: activity, error: logError } = await insertInquiryActivity(inquiry.id, 'email', `Emailed "${email.subject}"\n\n${text}`);
+    if (activity) await recordAdminAction('reply_website_inquiry', { type: 'website_inquiry', id: inquiry.id }, null, activity);
+    return { data: activity as InquiryActivity | null, error: null, logError };
+};
+
+// ===== Inquiry Conversion =====
+// Case-insensitive exact match. PostgREST also reads `*` as a wildcard, so candidates are
+// compared again here rather than trusting the pattern alone.
+export const findUserByEmail = async (email: string) => {
+    const target = email.trim().toLowerCase();
+    const { data, error } = await supabase
+        .from('user_profiles')
+        .select('*')
+        .ilike('email', escapeLikePattern(target))
+        .limit(10);
+    const match = ((data || []) as UserProfile[]).find((profile) => profile.email.toLowerCase() === target);
+    return { data: match || null, error };
+};
+
+// Creating auth users needs the service role, so new customers are invited through the
+// `invite-user` edge function (supabase/functions/invite-user), which sends the sign-up
+// email and returns the new user's id.
+export const inviteUser = async (invite: { email: string; full_name?: string; company_name?: string; phone?: string }) => {
+    const { data, error } = await invokeEdgeFunction<{ user_id?: string }>('invite-user', invite);
+    if (error || !data?.user_id) {
+        return { data: null, error: error || new Error('The invite did not return a user id') };
+    }
+    await recordAdminAction('invite_user', { type: 'user', id: data.user_id }, null, invite);
+    return { data: data.user_id, error: null };
+};
+
+const INQUIRY_CONVERSION_PAYMENT_METHOD = 'inquiry_conversion';
+
+// Turns a won inquiry into a customer: reuses or invites the account, optionally grants a
+// plan and drafts an inactive portfolio project, then links everything to the inquiry.
+// Each step first looks for what an earlier, partly failed attempt already created (the
+// grant carries the inquiry id as its payment reference), so retrying is safe.
+export const convertWebsiteInquiry = async (
+    inquiry: { id: string; name: string; email: string; company?: string | null; phone?: string | null; message?: string },
+    options: {
+        plan?: SubscriptionPlan | null;
+        subscriptionEndDate?: string | null;
+        project?: { title: string; service_type: string } | null;
+    }
+) => {
+    const { data: current, error: currentError } = await getWebsiteInquiryById(inquiry.id);
+    if (currentError) return { data: null, error: currentError };
+    if (current?.converted_at) return { data: null, error: new Error('This inquiry has already been converted') };
+
+    const { data: existing, error: lookupError } = await findUserByEmail(inquiry.email);
+    if (lookupError) return { data: null, error: lookupError };
+
+    let userId = existing?.id;
+    if (!userId) {
+        const { data: invitedId, error: inviteError } = await inviteUser({
+            email: inquiry.email,
+            full_name: inquiry.name,
+            company_name: inquiry.company || undefined,
+            phone: inquiry.phone || undefined,
+        });
+        if (inviteError || !invitedId) return { data: null, error: inviteError };
+        userId = invitedId;
+    }
+
+    const { error: profileError } = await updateUserAsAdmin(userId, {
+        source_inquiry_id: existing?.source_inquiry_id || inquiry.id,
+        company_name: existing?.company_name || inquiry.company || null,
+    });
+    if (profileError) return { data: null, error: profileError };
+
+    if (options.plan) {
+        const { data: granted, error: grantedError } = await supabase
+            .from('user_subscriptions')
+            .select('id')
+            .eq('user_id', userId)
+            .eq('payment_method', INQUIRY_CONVERSION_PAYMENT_METHOD)
+            .eq('payment_reference', inquiry.id)
+            .limit(1);
+        if (grantedError) return { data: null, error: grantedError };
+
+        if (!granted?.length) {
+            const { error: grantError } = await grantSubscription({
+                user_id: userId,
+                plan_id: options.plan.id,
+                tier: options.plan.tier,
+                amount_paid: 0,
+                payment_method: INQUIRY_CONVERSION_PAYMENT_METHOD,
+                payment_reference: inquiry.id,
+                start_date: new Date().toISOString(),
+                end_date: options.subscriptionEndDate || null,
+            });
+            if (grantError) return { data: null, error: grantError };
+        }
+    }
+
+    const { data: drafted, error: draftedError } = await supabase
+        .from('portfolio_projects')
+        .select('id')
+        .eq('inquiry_id', inquiry.id)
+        .limit(1);
+    if (draftedError) return { data: null, error: draftedError };
+
+    let projectId: string | null = drafted?.[0]?.id || null;
+    if (options.project && !projectId) {
+        const { data: project, error: projectError } = await createPortfolioProject({
+            title: options.project.title,
+            service_type: options.project.service_type,
+            client_name: inquiry.company || inquiry.name,
+            description: inquiry.message,
+            is_active: false,
+            inquiry_id: inquiry.id,
+        });
+        if (projectError) return { data: null, error: projectError };
+        projectId = project.id;
+    }
+
+    const { error: inquiryError } = await updateWebsiteInquiry(inquiry.id, {
+        status: 'completed',
+        converted_user_id: userId,
+        portfolio_project_id: projectId,
+        converted_at: new Date().toISOString(),
+    });
+    if (inquiryError) return { data: null, error: inquiryError };
+
+    const summary = [
+        existing ? `Linked to existing account ${inquiry.email}` : `Invited ${inquiry.email}`,
+        options.plan && `granted ${options.plan.name}`,
+        projectId && options.project && `drafted portfolio project "${options.project.title}"`,
+    ].filter(Boolean).join(', ');
+    await insertInquiryActivity(inquiry.id, 'conversion', `Converted: ${summary}`);
+
+    return { data: { userId, projectId, invited: !existing }, error: null };
+};
+
+// ===== Inquiry Spam & Duplicates =====
+// Inquiries are scored for spam by a database trigger as they are inserted (see the
+// website_inquiry_spam_scoring migration), which also moves those at or above this score
+// to the spam status.
+export const INQUIRY_SPAM_THRESHOLD = 50;
+
+interface InquiryContact {
+    id: string;
+    name: string;
+    email: string;
+    phone?: string | null;
+    message: string;
+    created_at: string;
+}
+
+// Other inquiries (including merged ones) from the same email or phone number
+export const getRelatedInquiries = async (inquiry: { id: string; email: string; phone?: string | null }) => {
+    const [byEmail, byPhone] = await Promise.all([
+        supabase.from('website_inquiries').select('*').ilike('email', escapeLikePattern(inquiry.email)).neq('id', inquiry.id),
+        inquiry.phone
+            ? supabase.from('website_inquiries').select('*').eq('phone', inquiry.phone).neq('id', inquiry.id)
+            : Promise.resolve({ data: [], error: null }),
+    ]);
+    const error = byEmail.error || byPhone.error;
+    const related = [...(byEmail.data || []), ...(byPhone.data || [])];
+    const unique = related.filter((row, index) => related.findIndex((other) => other.id === row.id) === index);
+    return { data: unique, error };
+};
+
+// Folds a duplicate into the primary inquiry: its history moves over, its message is kept
+// as a merge entry, and the duplicate is hidden from the list.
+export const mergeWebsiteInquiries = async (primaryId: string, duplicate: InquiryContact) => {
+    const before = await fetchAuditSnapshot('website_inquiries', 'id', duplicate.id);
+
+    const { error: moveError } = await supabase
+        .from('inquiry_activities')
+        .update({ inquiry_id: primaryId })
+        .eq('inquiry_id', duplicate.id);
+    if (moveError) return { data: null, error: moveError };
+
+    const { data, error } = await supabase
+        .from('website_inquiries')
+        .update({ merged_into: primaryId, updated_at: new Date().toISOString() })
+        .eq('id', duplicate.id)
+        .select()
+        .single();
+    if (error) return { data: null, error };
+
+    await recordAdminAction('merge_website_inquiry', { type: 'website_inquiry', id: duplicate.id }, before, data);
+    const { data: activity } = await insertInquiryActivity(
+        primaryId,
+        'merge',
+        `Merged submission from ${formatDate(duplicate.created_at)} (${duplicate.email}):\n\n${duplicate.message}`
+    );
+    return { data: activity as InquiryActivity | null, error: null };
+};
+
 // Portfolio projects helper functions
 export const getPortfolioProjects = async () => {
     const { data, error } = await supabase
@@ -321,43 +1303,76 @@ export const createPortfolioProject = async (project: {
     is_featured?: boolean;
     is_active?: boolean;
     display_order?: number;
+    inquiry_id?: string | null;
 }) => {
     const { data, error } = await supabase
         .from('portfolio_projects')
         .insert(project)
         .select()
         .single();
+    if (data) await recordAdminAction('create_portfolio_project', { type: 'portfolio_project', id: data.id }, null, data);
     return { data, error };
 };
 
 export const updatePortfolioProject = async (projectId: string, updates: Record<string, unknown>) => {
+    const before = await fetchAuditSnapshot('portfolio_projects', 'id', projectId);
     const { data, error } = await supabase
         .from('portfolio_projects')
         .update(updates)
         .eq('id', projectId)
         .select()
         .single();
+    if (data) await recordAdminAction('update_portfolio_project', { type: 'portfolio_project', id: projectId }, before, data);
     return { data, error };
 };
 
 export const deletePortfolioProject = async (projectId: string) => {
+    const before = await fetchAuditSnapshot('portfolio_projects', 'id', projectId);
     const { error } = await supabase
         .from('portfolio_projects')
         .delete()
         .eq('id', projectId);
+    if (!error) await recordAdminAction('delete_portfolio_project', { type: 'portfolio_project', id: projectId }, before, null);
     return { error };
 };
 
 // Support tickets helper functions
-export const getSupportTickets = async (options?: { status?: string; limit?: number; offset?: number }) => {
+export type TicketStatus = 'open' | 'in_progress' | 'closed';
+export type TicketPriority = 'low' | 'medium' | 'high';
+export const TICKET_PRIORITIES: TicketPriority[] = ['low', 'medium', 'high'];
+
+// support_tickets references user_profiles for both the customer and the assignee, so the
+// embed names its column. Response timestamps come along for the SLA timers.
+export const SUPPORT_TICKET_SELECT = '*, user_profiles!user_id(full_name, email), ticket_responses(is_admin, is_internal, created_at)';
+
+export const getSupportTickets = async (options?: {
+    status?: string;
+    priority?: TicketPriority;
+    assignedTo?: string | null;
+    // Only open tickets past one of these SLA targets
+    overdue?: Record<TicketPriority, TicketSlaTarget>;
+    limit?: number;
+    offset?: number;
+}) => {
     let query = supabase
         .from('support_tickets')
-        .select('*, user_profiles(full_name, email)', { count: 'exact' })
+        .select(SUPPORT_TICKET_SELECT, { count: 'exact' })
         .order('created_at', { ascending: false });
 
     if (options?.status) {
         query = query.eq('status', options.status);
     }
+    if (options?.priority) {
+        query = query.eq('priority', options.priority);
+    }
+    if (options?.assignedTo === null) {
+        query = query.is('assigned_to', null);
+    } else if (options?.assignedTo) {
+        query = query.eq('assigned_to', options.assignedTo);
+    }
+    if (options?.overdue) {
+        query = query.neq('status', 'closed').or(buildOverdueTicketFilter(options.overdue));
+    }
     if (options?.limit) {
         query = query.limit(options.limit);
     }
@@ -378,36 +1393,337 @@ export const getTicketResponses = async (ticketId: string) => {
     return { data, error };
 };
 
-export const addTicketResponse = async (response: {
-    ticket_id: string;
-    user_id: string;
-    message: string;
-    is_admin: boolean;
-}) => {
+// Pass `notify` to email the ticket owner; it is skipped for tickets set to reply silently
+// and for internal notes. Internal notes live in ticket_responses too and are hidden from
+// customers by the "Internal notes are visible to admins only" RLS policy.
+export const addTicketResponse = async (
+    response: {
+        ticket_id: string;
+        user_id: string;
+        message: string;
+        is_admin: boolean;
+        is_internal?: boolean;
+        attachments?: TicketAttachment[];
+    },
+    options?: { notify?: boolean }
+) => {
     const { data, error } = await supabase
         .from('ticket_responses')
         .insert(response)
         .select()
         .single();
-    return { data, error };
+    if (data && response.is_admin) {
+        await recordAdminAction(
+            response.is_internal ? 'add_ticket_note' : 'reply_support_ticket',
+            { type: 'support_ticket', id: response.ticket_id },
+            null,
+            data
+        );
+    }
+
+    const notifyError = data && options?.notify && !response.is_internal
+        ? await notifyTicketOwner(response.ticket_id, 'ticket_reply', { message: response.message })
+        : null;
+    return { data, error, notifyError };
+};
+
+export const updateTicketStatus = async (ticketId: string, status: string, options?: { notify?: boolean }) => {
+    const before = await fetchAuditSnapshot('support_tickets', 'id', ticketId);
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+        .from('support_tickets')
+        .update({ status, closed_at: status === 'closed' ? now : null, updated_at: now })
+        .eq('id', ticketId)
+        .select()
+        .single();
+    if (data) await recordAdminAction('update_support_ticket', { type: 'support_ticket', id: ticketId }, before, data);
+
+    const notifyError = data && options?.notify && before?.status !== status
+        ? await notifyTicketOwner(ticketId, 'ticket_status_change', {})
+        : null;
+    return { data, error, notifyError };
 };
 
-export const updateTicketStatus = async (ticketId: string, status: string) => {
+export const updateSupportTicket = async (
+    ticketId: string,
+    updates: { priority?: TicketPriority; assigned_to?: string | null; notify_customer?: boolean }
+) => {
+    const before = await fetchAuditSnapshot('support_tickets', 'id', ticketId);
     const { data, error } = await supabase
         .from('support_tickets')
-        .update({ status, updated_at: new Date().toISOString() })
+        .update({ ...updates, updated_at: new Date().toISOString() })
         .eq('id', ticketId)
         .select()
         .single();
+    if (data) await recordAdminAction('update_support_ticket', { type: 'support_ticket', id: ticketId }, before, data);
     return { data, error };
 };
 
-// Coupons helper functions
-export const getCoupons = async () => {
+// ===== Ticket Attachments =====
+// Attachments on replies and notes live in a private bucket, unlike the site assets in
+// public-assets, and are opened through short-lived signed URLs.
+export const TICKET_ATTACHMENTS_BUCKET = 'ticket-attachments';
+const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+export interface TicketAttachment {
+    path: string;
+    name: string;
+    size: number;
+    content_type: string;
+}
+
+export const uploadTicketAttachment = async (ticketId: string, file: File) => {
+    const safeName = file.name.replace(/[^\w.-]+/g, '_');
+    const path = `${ticketId}/${Date.now()}_${safeName}`;
+
+    const { error } = await supabase.storage
+        .from(TICKET_ATTACHMENTS_BUCKET)
+        .upload(path, file, { contentType: file.type || undefined });
+
+    if (error) return { data: null, error };
+    const attachment: TicketAttachment = {
+        path,
+        name: file.name,
+        size: file.size,
+        content_type: file.type || 'application/octet-stream',
+    };
+    return { data: attachment, error: null };
+};
+
+export const getTicketAttachmentUrl = async (path: string) => {
+    const { data, error } = await supabase.storage
+        .from(TICKET_ATTACHMENTS_BUCKET)
+        .createSignedUrl(path, ATTACHMENT_URL_TTL_SECONDS);
+    return { data: data?.signedUrl || null, error };
+};
+
+// ===== Ticket Notifications =====
+// Customer emails are rendered from system templates managed on the Emails page (matched
+// by `system_key`). The migration seeds them with these defaults, which also cover a
+// template that has been deleted.
+export type NotificationTemplateKey = 'ticket_reply' | 'ticket_status_change';
+
+export const NOTIFICATION_TEMPLATES: Record<NotificationTemplateKey, {
+    name: string;
+    subject: string;
+    body_html: string;
+    variables: string[];
+}> = {
+    ticket_reply: {
+        name: 'Support ticket reply',
+        subject: 'Re: {{ticket_subject}}',
+        body_html: '<p>Hi {{first_name}},</p><p>Our support team replied to your ticket "{{ticket_subject}}":</p><blockquote>{{message}}</blockquote><p>Current status: {{ticket_status}}</p><p>— Stachbit Support</p>',
+        variables: ['customer_name', 'first_name', 'ticket_subject', 'ticket_status', 'message'],
+    },
+    ticket_status_change: {
+        name: 'Support ticket status change',
+        subject: 'Your ticket "{{ticket_subject}}" is now {{ticket_status}}',
+        body_html: '<p>Hi {{first_name}},</p><p>The status of your ticket "{{ticket_subject}}" changed to <strong>{{ticket_status}}</strong>.</p><p>— Stachbit Support</p>',
+        variables: ['customer_name', 'first_name', 'ticket_subject', 'ticket_status'],
+    },
+};
+
+export const getNotificationTemplates = async () => {
+    const { data, error } = await supabase
+        .from('email_templates')
+        .select('*')
+        .in('system_key', Object.keys(NOTIFICATION_TEMPLATES));
+    return { data: data as EmailTemplate[] | null, error };
+};
+
+const notifyTicketOwner = async (ticketId: string, key: NotificationTemplateKey, values: { message?: string }) => {
+    const { data: ticket, error } = await supabase
+        .from('support_tickets')
+        .select('subject, status, notify_customer, user_profiles!user_id(full_name, email)')
+        .eq('id', ticketId)
+        .single();
+    if (error) return error;
+
+    // A to-one embed, though the inferred select type is an array
+    const owner = [ticket.user_profiles].flat()[0];
+    if (ticket.notify_customer === false || !owner?.email) return null;
+
+    const { data: custom } = await supabase
+        .from('email_templates')
+        .select('subject, body_html')
+        .eq('system_key', key)
+        .maybeSingle();
+    const template = custom || NOTIFICATION_TEMPLATES[key];
+
+    const name = owner.full_name || '';
+    const plainValues = {
+        customer_name: name || 'there',
+        first_name: name.split(' ')[0] || 'there',
+        ticket_subject: ticket.subject,
+        ticket_status: String(ticket.status).replace('_', ' '),
+    };
+    const htmlValues = Object.fromEntries(
+        Object.entries({ ...plainValues, message: values.message }).map(([k, v]) => [k, v === undefined ? v : escapeHtml(v)])
+    );
+
+    const { error: sendError } = await sendEmail({
+        to: owner.email,
+        subject: fillTemplate(template.subject, plainValues),
+        html: fillTemplate(template.body_html, htmlValues),
+    });
+    return sendError;
+};
+
+// ===== Ticket SLA =====
+export interface TicketSlaTarget {
+    firstResponseHours: number;
+    resolutionHours: number;
+}
+
+export const DEFAULT_TICKET_SLA: Record<TicketPriority, TicketSlaTarget> = {
+    high: { firstResponseHours: 4, resolutionHours: 24 },
+    medium: { firstResponseHours: 12, resolutionHours: 72 },
+    low: { firstResponseHours: 24, resolutionHours: 168 },
+};
+
+export const ticketSlaSettingKey = (priority: TicketPriority, target: 'first_response' | 'resolution') =>
+    `sla_${priority}_${target}_hours`;
+
+// Past the resolution target, or past the first-response target without an admin reply.
+// `first_response_at` is set by a trigger on ticket_responses.
+const buildOverdueTicketFilter = (targets: Record<TicketPriority, TicketSlaTarget>) => {
+    const now = Date.now();
+    const createdBefore = (hours: number) => `created_at.lt."${new Date(now - hours * 60 * 60 * 1000).toISOString()}"`;
+    return TICKET_PRIORITIES.flatMap((priority) => [
+        `and(priority.eq.${priority},${createdBefore(targets[priority].resolutionHours)})`,
+        `and(priority.eq.${priority},first_response_at.is.null,${createdBefore(targets[priority].firstResponseHours)})`,
+    ]).join(',');
+};
+
+// SLA targets live in site_settings; any priority without a valid value uses the default
+export const getTicketSlaTargets = async () => {
+    const keys = TICKET_PRIORITIES.flatMap((priority) => [
+        ticketSlaSettingKey(priority, 'first_response'),
+        ticketSlaSettingKey(priority, 'resolution'),
+    ]);
+    const { data, error } = await supabase
+        .from('site_settings')
+        .select('key, value')
+        .in('key', keys);
+
+    const values = new Map((data || []).map((row: { key: string; value: string | null }) => [row.key, Number(row.value)]));
+    const hours = (key: string, fallback: number) => {
+        const value = values.get(key);
+        return value && value > 0 ? value : fallback;
+    };
+
+    const targets = Object.fromEntries(
+        TICKET_PRIORITIES.map((priority) => [
+            priority,
+            {
+                firstResponseHours: hours(ticketSlaSettingKey(priority, 'first_response'), DEFAULT_TICKET_SLA[priority].firstResponseHours),
+                resolutionHours: hours(ticketSlaSettingKey(priority, 'resolution'), DEFAULT_TICKET_SLA[priority].resolutionHours),
+            },
+        ])
+    ) as Record<TicketPriority, TicketSlaTarget>;
+    return { data: targets, error };
+};
+
+// ===== Canned Responses =====
+// Saved ticket replies. A reply with `set_status` is a macro: sending it also moves the
+// ticket to that status.
+export interface CannedResponse {
+    id: string;
+    title: string;
+    body: string;
+    set_status: TicketStatus | null;
+    created_by: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export const getCannedResponses = async () => {
+    const { data, error } = await supabase
+        .from('canned_responses')
+        .select('*')
+        .order('title', { ascending: true });
+    return { data: data as CannedResponse[] | null, error };
+};
+
+export const createCannedResponse = async (response: {
+    title: string;
+    body: string;
+    set_status?: TicketStatus | null;
+    created_by?: string;
+}) => {
+    const { data, error } = await supabase
+        .from('canned_responses')
+        .insert(response)
+        .select()
+        .single();
+    if (data) await recordAdminAction('create_canned_response', { type: 'canned_response', id: data.id }, null, data);
+    return { data: data as CannedResponse | null, error };
+};
+
+export const updateCannedResponse = async (responseId: string, updates: { title?: string; body?: string; set_status?: TicketStatus | null }) => {
+    const before = await fetchAuditSnapshot('canned_responses', 'id', responseId);
     const { data, error } = await supabase
+        .from('canned_responses')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', responseId)
+        .select()
+        .single();
+    if (data) await recordAdminAction('update_canned_response', { type: 'canned_response', id: responseId }, before, data);
+    return { data: data as CannedResponse | null, error };
+};
+
+export const deleteCannedResponse = async (responseId: string) => {
+    const before = await fetchAuditSnapshot('canned_responses', 'id', responseId);
+    const { error } = await supabase
+        .from('canned_responses')
+        .delete()
+        .eq('id', responseId);
+    if (!error) await recordAdminAction('delete_canned_response', { type: 'canned_response', id: responseId }, before, null);
+    return { error };
+};
+
+// Coupons helper functions
+export type CouponBillingCycle = 'monthly' | 'yearly';
+
+// Empty or null restriction lists mean the coupon is not limited on that rule
+export interface CouponRestrictions {
+    allowed_plan_ids: string[] | null;
+    allowed_tiers: SubscriptionTier[] | null;
+    allowed_user_ids: string[] | null;
+    allowed_email_domains: string[] | null;
+    first_purchase_only: boolean;
+    billing_cycle: CouponBillingCycle | null;
+    max_uses_per_user: number | null;
+}
+
+export interface Coupon extends CouponRestrictions {
+    id: string;
+    code: string;
+    discount_type: 'percentage' | 'fixed';
+    discount_value: number;
+    max_uses: number | null;
+    current_uses: number;
+    valid_from: string | null;
+    valid_until: string | null;
+    is_active: boolean;
+    created_at: string;
+}
+
+// Batch-generated codes are listed per batch; pass `batchId` for one batch's codes or
+// `standalone` to leave them out
+export const getCoupons = async (options?: { batchId?: string; standalone?: boolean }) => {
+    let query = supabase
         .from('coupons')
         .select('*')
         .order('created_at', { ascending: false });
+
+    if (options?.batchId) {
+        query = query.eq('batch_id', options.batchId);
+    } else if (options?.standalone) {
+        query = query.is('batch_id', null);
+    }
+
+    const { data, error } = await query;
     return { data, error };
 };
 
@@ -419,40 +1735,431 @@ export const createCoupon = async (coupon: {
     valid_from?: string;
     valid_until?: string;
     is_active?: boolean;
-}) => {
+} & Partial<CouponRestrictions>) => {
     const { data, error } = await supabase
         .from('coupons')
         .insert(coupon)
         .select()
         .single();
+    if (data) await recordAdminAction('create_coupon', { type: 'coupon', id: data.id }, null, data);
     return { data, error };
 };
 
 export const updateCoupon = async (couponId: string, updates: Record<string, unknown>) => {
+    const before = await fetchAuditSnapshot('coupons', 'id', couponId);
     const { data, error } = await supabase
         .from('coupons')
         .update(updates)
         .eq('id', couponId)
         .select()
         .single();
+    if (data) await recordAdminAction('update_coupon', { type: 'coupon', id: couponId }, before, data);
     return { data, error };
 };
 
 export const deleteCoupon = async (couponId: string) => {
+    const before = await fetchAuditSnapshot('coupons', 'id', couponId);
     const { error } = await supabase
         .from('coupons')
         .delete()
         .eq('id', couponId);
+    if (!error) await recordAdminAction('delete_coupon', { type: 'coupon', id: couponId }, before, null);
+    return { error };
+};
+
+// ===== Coupon Batches =====
+// Codes avoid characters that are easy to misread (0/O, 1/I/L)
+const COUPON_CODE_LETTERS = 'ABCDEFGHJKMNPQRSTUVWXYZ';
+const COUPON_CODE_DIGITS = '23456789';
+const COUPON_INSERT_CHUNK = 500;
+// Keeps `code=in.(...)` lookups well inside URL length limits
+const COUPON_LOOKUP_CHUNK = 200;
+export const COUPON_BATCH_MAX_QUANTITY = 1000;
+export const DEFAULT_COUPON_PATTERN = 'XXXX-XXXX';
+
+export interface CouponBatch {
+    id: string;
+    name: string;
+    prefix: string;
+    pattern: string;
+    quantity: number;
+    created_by: string | null;
+    created_at: string;
+    coupons?: { is_active: boolean; current_uses: number }[];
+}
+
+const randomChar = (alphabet: string) => alphabet[crypto.getRandomValues(new Uint32Array(1))[0] % alphabet.length];
+
+// In the pattern X is a random letter or digit, 9 a random digit and A a random letter;
+// anything else is copied as is.
+export const generateCouponCode = (prefix: string, pattern: string) => {
+    const body = pattern
+        .toUpperCase()
+        .split('')
+        .map((char) => {
+            if (char === 'X') return randomChar(COUPON_CODE_LETTERS + COUPON_CODE_DIGITS);
+            if (char === '9') return randomChar(COUPON_CODE_DIGITS);
+            if (char === 'A') return randomChar(COUPON_CODE_LETTERS);
+            return char;
+        })
+        .join('');
+    return `${prefix.toUpperCase()}${body}`;
+};
+
+// Number of distinct codes a pattern can produce, to refuse batches it can't fill
+export const couponPatternCapacity = (pattern: string) =>
+    pattern.toUpperCase().split('').reduce((total, char) => {
+        if (char === 'X') return total * (COUPON_CODE_LETTERS.length + COUPON_CODE_DIGITS.length);
+        if (char === '9') return total * COUPON_CODE_DIGITS.length;
+        if (char === 'A') return total * COUPON_CODE_LETTERS.length;
+        return total;
+    }, 1);
+
+export const getCouponBatches = async () => {
+    const { data, error } = await supabase
+        .from('coupon_batches')
+        .select('*, coupons(is_active, current_uses)')
+        .order('created_at', { ascending: false });
+    return { data: data as CouponBatch[] | null, error };
+};
+
+// Generates `quantity` unique codes sharing the same discount rules and inserts them under
+// a new batch. Recorded as a single admin action rather than one per code. If any chunk of
+// codes fails to insert, the codes already written and the batch itself are removed again.
+export const createCouponBatch = async (
+    batch: { name: string; prefix: string; pattern: string; quantity: number },
+    rules: {
+        discount_type: 'percentage' | 'fixed';
+        discount_value: number;
+        max_uses?: number;
+        valid_until?: string;
+        is_active?: boolean;
+    } & Partial<CouponRestrictions>
+) => {
+    if (!Number.isInteger(batch.quantity) || batch.quantity < 1 || batch.quantity > COUPON_BATCH_MAX_QUANTITY) {
+        return { data: null, error: new Error(`Quantity must be between 1 and ${COUPON_BATCH_MAX_QUANTITY}`) };
+    }
+    if (batch.quantity > couponPatternCapacity(batch.pattern) / 10) {
+        return { data: null, error: new Error('The pattern is too short for that many unique codes') };
+    }
+
+    const codes = new Set<string>();
+    let unchecked: string[] = [];
+    while (codes.size < batch.quantity) {
+        while (codes.size < batch.quantity) {
+            const code = generateCouponCode(batch.prefix, batch.pattern);
+            if (!codes.has(code)) unchecked.push(code);
+            codes.add(code);
+        }
+
+        // Replace any code that already exists on another coupon
+        for (let i = 0; i < unchecked.length; i += COUPON_LOOKUP_CHUNK) {
+            const { data: taken, error } = await supabase
+                .from('coupons')
+                .select('code')
+                .in('code', unchecked.slice(i, i + COUPON_LOOKUP_CHUNK));
+            if (error) return { data: null, error };
+            taken?.forEach(({ code }) => codes.delete(code));
+        }
+        unchecked = [];
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    const { data, error } = await supabase
+        .from('coupon_batches')
+        .insert({ ...batch, prefix: batch.prefix.toUpperCase(), pattern: batch.pattern.toUpperCase(), created_by: session?.user.id || null })
+        .select()
+        .single();
+    if (error) return { data: null, error };
+
+    const rows = [...codes].map((code) => ({ ...rules, code, batch_id: data.id }));
+    for (let i = 0; i < rows.length; i += COUPON_INSERT_CHUNK) {
+        const { error: insertError } = await supabase.from('coupons').insert(rows.slice(i, i + COUPON_INSERT_CHUNK));
+        if (insertError) {
+            await supabase.from('coupons').delete().eq('batch_id', data.id);
+            await supabase.from('coupon_batches').delete().eq('id', data.id);
+            return { data: null, error: insertError };
+        }
+    }
+
+    await recordAdminAction('create_coupon_batch', { type: 'coupon_batch', id: data.id }, null, { ...data, ...rules });
+    return { data: data as CouponBatch, error: null };
+};
+
+// The audit entry records how many of the batch's codes were active before and after, since
+// codes can also be switched on and off one at a time
+export const setCouponBatchActive = async (batchId: string, isActive: boolean) => {
+    const { data: codes } = await supabase.from('coupons').select('is_active').eq('batch_id', batchId);
+    const total = codes?.length || 0;
+    const activeBefore = (codes || []).filter((code) => code.is_active).length;
+
+    const { error } = await supabase
+        .from('coupons')
+        .update({ is_active: isActive })
+        .eq('batch_id', batchId);
+    if (!error) {
+        await recordAdminAction(
+            isActive ? 'activate_coupon_batch' : 'deactivate_coupon_batch',
+            { type: 'coupon_batch', id: batchId },
+            { is_active: activeBefore === total, active_codes: activeBefore },
+            { is_active: isActive, active_codes: isActive ? total : 0 }
+        );
+    }
     return { error };
 };
 
+// ===== Coupon Redemptions =====
+// Checkout records a redemption as 'applied' through the apply_coupon() database function and
+// marks it 'completed' with complete_coupon_redemption() once payment succeeds, so
+// applied-but-abandoned rows give each coupon's conversion rate.
+export type CouponRedemptionStatus = 'applied' | 'completed';
+
+export interface CouponRedemption {
+    id: string;
+    coupon_id: string;
+    user_id: string;
+    plan_id: string | null;
+    subscription_id: string | null;
+    billing_cycle: CouponBillingCycle | null;
+    status: CouponRedemptionStatus;
+    original_amount: number;
+    discount_amount: number;
+    final_amount: number;
+    created_at: string;
+    user_profiles?: UserSummary;
+    subscription_plans?: { name: string } | null;
+}
+
+export const getCouponRedemptions = async (options?: {
+    couponId?: string;
+    status?: CouponRedemptionStatus;
+    limit?: number;
+    offset?: number;
+}) => {
+    let query = supabase
+        .from('coupon_redemptions')
+        .select('*, user_profiles(full_name, email), subscription_plans(name)', { count: 'exact' })
+        .order('created_at', { ascending: false });
+
+    if (options?.couponId) {
+        query = query.eq('coupon_id', options.couponId);
+    }
+    if (options?.status) {
+        query = query.eq('status', options.status);
+    }
+    if (options?.limit) {
+        query = query.limit(options.limit);
+    }
+    if (options?.offset) {
+        query = query.range(options.offset, options.offset + (options.limit || 10) - 1);
+    }
+
+    const { data, error, count } = await query;
+    return { data: data as CouponRedemption[] | null, error, count };
+};
+
+export interface CouponReportRow {
+    coupon_id: string;
+    batch_id: string | null;
+    applied: number;
+    redemptions: number;
+    unique_users: number;
+    conversion_rate: number;
+    total_discount: number;
+    revenue: number;
+}
+
+// Per-coupon totals, aggregated by the coupon_report() database function; discount and
+// revenue only count completed purchases
+export const getCouponReport = async () => {
+    const { data, error } = await supabase.rpc('coupon_report');
+    if (error || !data) return { data: null, error };
+
+    const report: CouponReportRow[] = (data as Omit<CouponReportRow, 'conversion_rate'>[]).map((row) => {
+        const applied = Number(row.applied) || 0;
+        const redemptions = Number(row.redemptions) || 0;
+        return {
+            coupon_id: row.coupon_id,
+            batch_id: row.batch_id,
+            applied,
+            redemptions,
+            unique_users: Number(row.unique_users) || 0,
+            conversion_rate: applied > 0 ? redemptions / applied : 0,
+            total_discount: Number(row.total_discount) || 0,
+            revenue: Number(row.revenue) || 0,
+        };
+    });
+    return { data: report, error: null };
+};
+
+// ===== Coupon Validation =====
+// Mirrors the checks of the apply_coupon() database function that checkout calls, without
+// recording a redemption, so the admin tester previews exactly what a customer would pay.
+export interface CouponValidation {
+    valid: boolean;
+    reason: string | null;
+    coupon_id: string | null;
+    original_amount: number;
+    discount_amount: number;
+    final_amount: number;
+    original_price: string;
+    discount: string;
+    final_price: string;
+}
+
+const hasRule = <T>(list: T[] | null): list is T[] => !!list && list.length > 0;
+
+// Returns the first rule the coupon fails, or null when it applies
+const checkCouponRules = async (
+    coupon: Coupon,
+    plan: SubscriptionPlan,
+    billingCycle: CouponBillingCycle,
+    userId?: string
+): Promise<string | null> => {
+    const now = new Date();
+    if (!coupon.is_active) return 'This coupon is no longer active';
+    if (coupon.valid_from && new Date(coupon.valid_from) > now) return 'This coupon is not valid yet';
+    if (coupon.valid_until && new Date(coupon.valid_until) < now) return 'This coupon has expired';
+    if (coupon.max_uses !== null && coupon.current_uses >= coupon.max_uses) return 'This coupon has reached its usage limit';
+    if (hasRule(coupon.allowed_plan_ids) && !coupon.allowed_plan_ids.includes(plan.id)) return `This coupon does not apply to the ${plan.name} plan`;
+    if (hasRule(coupon.allowed_tiers) && !coupon.allowed_tiers.includes(plan.tier)) return `This coupon does not apply to ${plan.tier} plans`;
+    if (coupon.billing_cycle && coupon.billing_cycle !== billingCycle) return `This coupon is only valid on ${coupon.billing_cycle} billing`;
+
+    // Without a user only the coupon and plan rules can be checked, as on a pricing page preview
+    if (!userId) return null;
+
+    if (hasRule(coupon.allowed_user_ids) && !coupon.allowed_user_ids.includes(userId)) return 'This coupon is not available for this account';
+
+    if (hasRule(coupon.allowed_email_domains)) {
+        const { data: user } = await supabase.from('user_profiles').select('email').eq('id', userId).maybeSingle();
+        const domain = user?.email?.split('@')[1]?.toLowerCase();
+        if (!domain || !coupon.allowed_email_domains.some((allowed) => allowed.toLowerCase() === domain)) {
+            return 'This coupon is not available for this email domain';
+        }
+    }
+
+    if (coupon.first_purchase_only) {
+        const { count } = await supabase
+            .from('user_subscriptions')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', userId)
+            .gt('amount_paid', 0);
+        if (count) return 'This coupon is only valid on a first purchase';
+    }
+
+    if (coupon.max_uses_per_user) {
+        const { count } = await supabase
+            .from('coupon_redemptions')
+            .select('id', { count: 'exact', head: true })
+            .eq('coupon_id', coupon.id)
+            .eq('user_id', userId)
+            .eq('status', 'completed');
+        if ((count || 0) >= coupon.max_uses_per_user) return 'You have already used this coupon the maximum number of times';
+    }
+
+    return null;
+};
+
+// Yearly billing falls back to twelve months when a plan has no yearly price
+export const validateCoupon = async (
+    code: string,
+    planId: string,
+    billingCycle: CouponBillingCycle,
+    userId?: string
+) => {
+    const { data: plan, error: planError } = await supabase
+        .from('subscription_plans')
+        .select('*')
+        .eq('id', planId)
+        .maybeSingle();
+    if (planError || !plan) return { data: null, error: planError || new Error('Plan not found') };
+
+    const original = billingCycle === 'yearly' ? plan.price_yearly ?? plan.price_monthly * 12 : plan.price_monthly;
+    const result = (couponId: string | null, reason: string | null, discount = 0): CouponValidation => ({
+        valid: reason === null,
+        reason,
+        coupon_id: couponId,
+        original_amount: original,
+        discount_amount: discount,
+        final_amount: original - discount,
+        original_price: formatCurrency(original),
+        discount: formatCurrency(discount),
+        final_price: formatCurrency(original - discount),
+    });
+
+    const { data: coupon, error } = await supabase
+        .from('coupons')
+        .select('*')
+        .eq('code', code.trim().toUpperCase())
+        .maybeSingle();
+    if (error) return { data: null, error };
+    if (!coupon) return { data: result(null, 'Coupon code not found'), error: null };
+
+    const reason = await checkCouponRules(coupon as Coupon, plan as SubscriptionPlan, billingCycle, userId);
+    if (reason) return { data: result(coupon.id, reason), error: null };
+
+    // A discount never takes the price below zero
+    const discount = coupon.discount_type === 'percentage'
+        ? Math.round(original * Math.min(coupon.discount_value, 100)) / 100
+        : Math.min(coupon.discount_value, original);
+    return { data: result(coupon.id, null, discount), error: null };
+};
+
 // Activity logs helper functions
-export const getActivityLogs = async (options?: { limit?: number; offset?: number }) => {
+export interface ActivityLog {
+    id: string;
+    // Null for entries written by database jobs rather than a signed-in user
+    user_id: string | null;
+    action: string;
+    details: Record<string, unknown> | null;
+    ip_address: string | null;
+    user_agent: string | null;
+    created_at: string;
+    user_profiles: UserSummary;
+}
+
+export const getActivityLogs = async (options?: {
+    adminOnly?: boolean;
+    action?: string;
+    user?: string;
+    ipAddress?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+    offset?: number;
+}) => {
     let query = supabase
         .from('activity_logs')
         .select('*, user_profiles(full_name, email)', { count: 'exact' })
         .order('created_at', { ascending: false });
 
+    if (options?.adminOnly) {
+        query = query.like('action', `${escapeLikePattern(ADMIN_ACTION_PREFIX)}%`);
+    }
+    const actionFilter = buildSearchFilter(['action'], options?.action);
+    if (actionFilter) {
+        query = query.or(actionFilter);
+    }
+    // The user filter matches name or email, so resolve it to ids before filtering logs
+    const userFilter = buildSearchFilter(['full_name', 'email'], options?.user);
+    if (userFilter) {
+        const { data: users, error } = await supabase
+            .from('user_profiles')
+            .select('id')
+            .or(userFilter)
+            .limit(200);
+        if (error) return { data: null, error, count: null };
+        query = query.in('user_id', (users || []).map((user) => user.id));
+    }
+    if (options?.ipAddress) {
+        query = query.eq('ip_address', options.ipAddress);
+    }
+    if (options?.from) {
+        query = query.gte('created_at', options.from);
+    }
+    if (options?.to) {
+        query = query.lte('created_at', options.to);
+    }
     if (options?.limit) {
         query = query.limit(options.limit);
     }
@@ -461,11 +2168,23 @@ export const getActivityLogs = async (options?: { limit?: number; offset?: numbe
     }
 
     const { data, error, count } = await query;
-    return { data, error, count };
+    return { data: data as ActivityLog[] | null, error, count };
 };
 
 // Blog posts helper functions
-export const getBlogPosts = async (options?: { status?: 'all' | 'published' | 'draft'; limit?: number; offset?: number }) => {
+// A scheduled post stays unpublished with `scheduled_at` set until the publish_due_blog_posts
+// database job takes it live, within a minute of that time
+export type BlogPostStatus = 'published' | 'scheduled' | 'draft';
+
+export const getBlogPostStatus = (post: Pick<BlogPost, 'is_published' | 'scheduled_at'>): BlogPostStatus =>
+    post.is_published ? 'published' : post.scheduled_at ? 'scheduled' : 'draft';
+
+export const getBlogPosts = async (options?: {
+    status?: 'all' | BlogPostStatus;
+    targetSite?: BlogTargetSite;
+    limit?: number;
+    offset?: number;
+}) => {
     let query = supabase
         .from('blog_posts')
         .select('*', { count: 'exact' })
@@ -473,8 +2192,14 @@ export const getBlogPosts = async (options?: { status?: 'all' | 'published' | 'd
 
     if (options?.status === 'published') {
         query = query.eq('is_published', true);
+    } else if (options?.status === 'scheduled') {
+        query = query.eq('is_published', false).not('scheduled_at', 'is', null);
     } else if (options?.status === 'draft') {
-        query = query.eq('is_published', false);
+        query = query.eq('is_published', false).is('scheduled_at', null);
+    }
+    // Posts targeting both sites appear under either one
+    if (options?.targetSite && options.targetSite !== 'both') {
+        query = query.in('target_site', [options.targetSite, 'both']);
     }
     if (options?.limit) {
         query = query.limit(options.limit);
@@ -512,34 +2237,189 @@ export const createBlogPost = async (post: {
     is_published?: boolean;
     is_featured?: boolean;
     read_time_minutes?: number;
+    target_site?: BlogTargetSite;
     published_at?: string;
+    scheduled_at?: string | null;
 }) => {
     const { data, error } = await supabase
         .from('blog_posts')
         .insert(post)
         .select()
         .single();
+    if (data) {
+        await recordBlogRevision(data as BlogPost);
+        await recordAdminAction('create_blog_post', { type: 'blog_post', id: data.id }, null, data);
+    }
     return { data: data as BlogPost | null, error };
 };
 
 export const updateBlogPost = async (postId: string, updates: Partial<BlogPost>) => {
+    const before = await fetchAuditSnapshot('blog_posts', 'id', postId);
     const { data, error } = await supabase
         .from('blog_posts')
         .update({ ...updates, updated_at: new Date().toISOString() })
         .eq('id', postId)
         .select()
         .single();
+
+    if (data && before && BLOG_REVISION_FIELDS.some((field) => !isSameValue(before[field], data[field]))) {
+        // Posts written before revisions existed get their pre-edit state saved as revision 1
+        const { count } = await supabase
+            .from('blog_post_revisions')
+            .select('*', { count: 'exact', head: true })
+            .eq('post_id', postId);
+        if (!count) {
+            await recordBlogRevision({ ...before, id: postId }, before.updated_at as string);
+        }
+        await recordBlogRevision(data as BlogPost);
+    }
+    if (data) await recordAdminAction('update_blog_post', { type: 'blog_post', id: postId }, before, data);
     return { data: data as BlogPost | null, error };
 };
 
 export const deleteBlogPost = async (postId: string) => {
+    const before = await fetchAuditSnapshot('blog_posts', 'id', postId);
     const { error } = await supabase
         .from('blog_posts')
         .delete()
         .eq('id', postId);
+    if (!error) await recordAdminAction('delete_blog_post', { type: 'blog_post', id: postId }, before, null);
+    return { error };
+};
+
+// ===== Blog Post Revisions =====
+export interface BlogPostRevision {
+    id: string;
+    post_id: string;
+    revision: number;
+    title: string;
+    excerpt: string | null;
+    content: string;
+    author_name: string;
+    meta_title: string | null;
+    meta_description: string | null;
+    meta_keywords: string | null;
+    created_by: string | null;
+    created_at: string;
+    user_profiles?: UserSummary;
+}
+
+// Fields whose change produces a new revision; publishing or featuring a post does not
+export const BLOG_REVISION_FIELDS = [
+    'title',
+    'excerpt',
+    'content',
+    'author_name',
+    'meta_title',
+    'meta_description',
+    'meta_keywords',
+] as const;
+
+// A saved post, or the audit snapshot of one taken before an edit
+type BlogRevisionSource = Pick<BlogPost, 'id'> & Partial<Record<(typeof BLOG_REVISION_FIELDS)[number], unknown>>;
+
+const recordBlogRevision = async (post: BlogRevisionSource, createdAt?: string) => {
+    const { data: latest } = await supabase
+        .from('blog_post_revisions')
+        .select('revision')
+        .eq('post_id', post.id)
+        .order('revision', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    const { data: { session } } = await supabase.auth.getSession();
+    const snapshot = Object.fromEntries(BLOG_REVISION_FIELDS.map((field) => [field, post[field]]));
+    const { error } = await supabase
+        .from('blog_post_revisions')
+        .insert({
+            ...snapshot,
+            post_id: post.id,
+            revision: (latest?.revision || 0) + 1,
+            // The backfilled first revision has no known author
+            created_by: createdAt ? null : session?.user.id || null,
+            created_at: createdAt || new Date().toISOString(),
+        });
+
+    if (error) {
+        console.error('Error recording blog revision:', error);
+    }
+};
+
+export const getBlogPostRevisions = async (postId: string) => {
+    const { data, error } = await supabase
+        .from('blog_post_revisions')
+        .select('*, user_profiles(full_name, email)')
+        .eq('post_id', postId)
+        .order('revision', { ascending: false });
+    return { data: data as BlogPostRevision[] | null, error };
+};
+
+// Restoring saves the old fields as the post's current state, which is itself recorded as a new revision
+export const restoreBlogPostRevision = async (revision: BlogPostRevision) => {
+    const restored = Object.fromEntries(BLOG_REVISION_FIELDS.map((field) => [field, revision[field]]));
+    return updateBlogPost(revision.post_id, restored as Partial<BlogPost>);
+};
+
+// ===== Site Routes =====
+// Pages blog posts may link to. A path ending in `/*` also covers everything beneath it.
+export interface SiteRoute {
+    id: string;
+    path: string;
+    label: string;
+    description: string | null;
+    target_site: BlogTargetSite;
+    created_at: string;
+}
+
+export const getSiteRoutes = async () => {
+    const { data, error } = await supabase
+        .from('site_routes')
+        .select('*')
+        .order('path', { ascending: true });
+    return { data: data as SiteRoute[] | null, error };
+};
+
+export const createSiteRoutes = async (routes: { path: string; label: string; description?: string; target_site: BlogTargetSite }[]) => {
+    const { data, error } = await supabase
+        .from('site_routes')
+        .insert(routes)
+        .select();
+    for (const route of data || []) {
+        await recordAdminAction('create_site_route', { type: 'site_route', id: route.id }, null, route);
+    }
+    return { data: data as SiteRoute[] | null, error };
+};
+
+export const deleteSiteRoute = async (routeId: string) => {
+    const before = await fetchAuditSnapshot('site_routes', 'id', routeId);
+    const { error } = await supabase
+        .from('site_routes')
+        .delete()
+        .eq('id', routeId);
+    if (!error) await recordAdminAction('delete_site_route', { type: 'site_route', id: routeId }, before, null);
     return { error };
 };
 
+// Every post's slug and publish state, for checking /blog/... links
+export const getBlogSlugs = async () => {
+    const { data, error } = await supabase
+        .from('blog_posts')
+        .select('slug, is_published, target_site');
+    return { data: data as Pick<BlogPost, 'slug' | 'is_published' | 'target_site'>[] | null, error };
+};
+
+// Featured, OG and inline content images are served straight from the public bucket
+export const uploadBlogImage = async (file: File) => {
+    const fileExt = file.name.split('.').pop();
+    const filePath = `blog/${Date.now()}.${fileExt}`;
+
+    const { error } = await supabase.storage.from('public-assets').upload(filePath, file);
+    if (error) return { data: null, error };
+
+    const { data } = supabase.storage.from('public-assets').getPublicUrl(filePath);
+    return { data: data.publicUrl, error: null };
+};
+
 export const generateSlug = (title: string): string => {
     return title
         .toLowerCase()
@@ -597,12 +2477,14 @@ export const getApiKeys = async () => {
 };
 
 export const updateApiKey = async (keyName: string, keyValue: string) => {
+    const before = await fetchAuditSnapshot('api_keys', 'key_name', keyName);
     const { data, error } = await supabase
         .from('api_keys')
         .update({ key_value: keyValue, updated_at: new Date().toISOString() })
         .eq('key_name', keyName)
         .select()
         .single();
+    if (data) await recordAdminAction('update_api_key', { type: 'api_key', id: keyName }, before, data);
     return { data: data as ApiKey | null, error };
 };
 
@@ -659,14 +2541,17 @@ export const createAutoBlogTopic = async (topic: {
         .insert(topic)
         .select()
         .single();
+    if (data) await recordAdminAction('create_auto_blog_topic', { type: 'auto_blog_topic', id: data.id }, null, data);
     return { data: data as AutoBlogTopic | null, error };
 };
 
 export const deleteAutoBlogTopic = async (topicId: string) => {
+    const before = await fetchAuditSnapshot('auto_blog_topics', 'id', topicId);
     const { error } = await supabase
         .from('auto_blog_topics')
         .delete()
         .eq('id', topicId);
+    if (!error) await recordAdminAction('delete_auto_blog_topic', { type: 'auto_blog_topic', id: topicId }, before, null);
     return { error };
 };
 
@@ -737,12 +2622,14 @@ export const getContactSettings = async () => {
 };
 
 export const updateContactSetting = async (settingKey: string, settingValue: string) => {
+    const before = await fetchAuditSnapshot('site_contact_settings', 'setting_key', settingKey);
     const { data, error } = await supabase
         .from('site_contact_settings')
         .update({ setting_value: settingValue, updated_at: new Date().toISOString() })
         .eq('setting_key', settingKey)
         .select()
         .single();
+    if (data) await recordAdminAction('update_contact_setting', { type: 'contact_setting', id: settingKey }, before, data);
     return { data: data as ContactSetting | null, error };
 };
 
@@ -777,13 +2664,54 @@ export const getSocialLinks = async () => {
 };
 
 export const updateSocialLink = async (platform: string, url: string) => {
+    const before = await fetchAuditSnapshot('site_social_links', 'platform', platform);
     const { data, error } = await supabase
         .from('site_social_links')
         .update({ url, updated_at: new Date().toISOString() })
         .eq('platform', platform)
         .select()
         .single();
+    if (data) await recordAdminAction('update_social_link', { type: 'social_link', id: platform }, before, data);
     return { data: data as SocialLink | null, error };
 };
 
+// ===== Realtime =====
+export type RealtimeTable = 'support_tickets' | 'ticket_responses' | 'website_inquiries' | 'activity_logs';
+
+let realtimeChannelCount = 0;
+
+// Calls `onInsert` for every row inserted into `table`. Realtime payloads carry only the
+// raw row, so pass `select` when the caller needs joined columns and the row is re-read.
+// Returns an unsubscribe function for use as an effect cleanup.
+export const subscribeToInserts = <T,>(
+    table: RealtimeTable,
+    onInsert: (row: T) => void,
+    options?: { filter?: string; select?: string }
+) => {
+    realtimeChannelCount += 1;
+    const channel = supabase
+        .channel(`${table}-inserts-${realtimeChannelCount}`)
+        .on(
+            'postgres_changes',
+            { event: 'INSERT', schema: 'public', table, filter: options?.filter },
+            async (payload) => {
+                if (!options?.select) {
+                    onInsert(payload.new as T);
+                    return;
+                }
+                const { data } = await supabase
+                    .from(table)
+                    .select(options.select)
+                    .eq('id', payload.new.id)
+                    .maybeSingle();
+                if (data) onInsert(data as T);
+            }
+        )
+        .subscribe();
+
+    return () => {
+        supabase.removeChannel(channel);
+    };
+};
+
 export default supabase;
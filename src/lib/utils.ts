@@ -42,6 +42,83 @@ export function formatRelativeTime(date: string | Date): string {
     return formatDate(d);
 }
 
+// Format a duration in milliseconds as e.g. "45m", "3h 20m" or "2d 4h"
+export function formatDuration(ms: number): string {
+    const totalMins = Math.max(0, Math.floor(ms / 60000));
+    const days = Math.floor(totalMins / 1440);
+    const hours = Math.floor((totalMins % 1440) / 60);
+    const mins = totalMins % 60;
+
+    if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+    if (hours > 0) return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+    return `${mins}m`;
+}
+
+// Format a byte count as e.g. "512 B", "14.2 KB" or "3.1 MB"
+export function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Format a coupon discount as e.g. "20%" or "₹500"
+export function formatDiscount(rule: { discount_type: 'percentage' | 'fixed'; discount_value: number }): string {
+    return rule.discount_type === 'percentage' ? `${rule.discount_value}%` : `₹${rule.discount_value}`;
+}
+
+// Escape text for interpolation into HTML, keeping line breaks
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/\n/g, '<br>');
+}
+
+// Replace {{variable}} placeholders; unknown variables are left in place so they stand out
+export function fillTemplate(template: string, values: Record<string, string | number | null | undefined>): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+        const value = values[name];
+        return value === null || value === undefined ? match : String(value);
+    });
+}
+
+export interface DiffLine {
+    type: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+// Line-by-line diff of two texts (longest common subsequence)
+export function diffLines(before: string, after: string): DiffLine[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            lines.push({ type: 'same', text: a[i] });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            lines.push({ type: 'removed', text: a[i++] });
+        } else {
+            lines.push({ type: 'added', text: b[j++] });
+        }
+    }
+    while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+    while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+    return lines;
+}
+
 // Truncate text
 export function truncate(text: string, maxLength: number): string {
     if (text.length <= maxLength) return text;
@@ -109,7 +186,7 @@ export function downloadCSV(data: Record<string, unknown>[], filename: string):
             headers.map(header => {
                 const value = row[header];
                 if (value === null || value === undefined) return '';
-                if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
+                if (typeof value === 'string' && (value.includes(',') || value.includes('"') || value.includes('\n'))) {
                     return `"${value.replace(/"/g, '""')}"`;
                 }
                 return String(value);
@@ -244,6 +244,7 @@ export default function AIBlogGenerator() {
             is_published: !asDraft,
             is_featured: false,
             read_time_minutes: generatedBlog.read_time_minutes,
+            target_site: (selectedTopic?.target_site as typeof targetSite) || targetSite,
             published_at: asDraft ? undefined : new Date().toISOString(),
         });
 
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
     BookOpen,
     Plus,
@@ -17,6 +17,12 @@ import {
     Filter,
     AlertCircle,
     CheckCircle,
+    History,
+    CalendarDays,
+    LayoutGrid,
+    Gauge,
+    XCircle,
+    Unlink,
 } from 'lucide-react';
 import {
     getBlogPosts,
@@ -24,9 +30,23 @@ import {
     updateBlogPost,
     deleteBlogPost,
     generateSlug,
-    supabase,
+    uploadBlogImage,
+    getBlogPostStatus,
+    type BlogPostRevision,
+    type BlogPostStatus,
 } from '../lib/supabase';
-import type { BlogPost } from '../lib/database.types';
+import { auditBlogPost, seoScoreClass, type SeoCheckStatus } from '../lib/seo';
+import {
+    FALLBACK_LINK_TARGETS,
+    findBrokenLinks,
+    getLinkTargets,
+    type LinkTargets,
+} from '../lib/links';
+import type { BlogPost, BlogTargetSite } from '../lib/database.types';
+import MarkdownEditor from '../components/ui/MarkdownEditor';
+import BlogRevisionsModal from '../components/blog/BlogRevisionsModal';
+import BlogCalendar from '../components/blog/BlogCalendar';
+import BlogLinkReportModal from '../components/blog/BlogLinkReportModal';
 
 const categories = [
     'Technology',
@@ -39,6 +59,34 @@ const categories = [
     'Tutorial',
 ];
 
+const targetSites: { value: BlogTargetSite; label: string; className: string }[] = [
+    { value: 'stachbit.in', label: 'stachbit.in', className: 'bg-primary-500/20 text-primary-300 border-primary-500/30' },
+    { value: 'ai.stachbit.in', label: 'ai.stachbit.in', className: 'bg-accent-500/20 text-accent-300 border-accent-500/30' },
+    { value: 'both', label: 'Both sites', className: 'bg-green-500/20 text-green-300 border-green-500/30' },
+];
+
+const statusBadges: Record<BlogPostStatus, { label: string; className: string }> = {
+    published: { label: 'Published', className: 'bg-green-500/20 text-green-400 border border-green-500/30' },
+    scheduled: { label: 'Scheduled', className: 'bg-blue-500/20 text-blue-400 border border-blue-500/30' },
+    draft: { label: 'Draft', className: 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30' },
+};
+
+const seoCheckIcons: Record<SeoCheckStatus, { icon: typeof CheckCircle; className: string }> = {
+    pass: { icon: CheckCircle, className: 'text-green-400' },
+    warn: { icon: AlertCircle, className: 'text-yellow-400' },
+    fail: { icon: XCircle, className: 'text-red-400' },
+};
+
+// Posts for both sites link to the main site
+const postUrl = (post: BlogPost) =>
+    `https://${post.target_site === 'ai.stachbit.in' ? 'ai.stachbit.in' : 'stachbit.in'}/blog/${post.slug}`;
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInputValue = (iso: string) => {
+    const date = new Date(iso);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
 export default function BlogManagement() {
     const [posts, setPosts] = useState<BlogPost[]>([]);
     const [loading, setLoading] = useState(true);
@@ -46,9 +94,15 @@ export default function BlogManagement() {
     const [editingPost, setEditingPost] = useState<BlogPost | null>(null);
     const [uploading, setUploading] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
-    const [filterStatus, setFilterStatus] = useState<'all' | 'published' | 'draft'>('all');
+    const [filterStatus, setFilterStatus] = useState<'all' | BlogPostStatus>('all');
+    const [filterSite, setFilterSite] = useState<'all' | BlogTargetSite>('all');
+    const [view, setView] = useState<'grid' | 'calendar'>('grid');
+    const [sortBy, setSortBy] = useState<'newest' | 'seo_asc' | 'seo_desc'>('newest');
+    const [linkTargets, setLinkTargets] = useState<LinkTargets>(FALLBACK_LINK_TARGETS);
+    const [showLinkReport, setShowLinkReport] = useState(false);
     const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
     const [deleting, setDeleting] = useState<string | null>(null);
+    const [showHistory, setShowHistory] = useState(false);
 
     const [formData, setFormData] = useState({
         title: '',
@@ -63,14 +117,16 @@ export default function BlogManagement() {
         meta_description: '',
         meta_keywords: '',
         og_image: '',
-        is_published: false,
+        status: 'draft' as BlogPostStatus,
+        scheduled_at: '',
+        target_site: 'stachbit.in' as BlogTargetSite,
         is_featured: false,
         read_time_minutes: 5,
     });
 
     useEffect(() => {
         loadPosts();
-    }, [filterStatus]);
+    }, [filterStatus, filterSite]);
 
     // Auto-hide notifications
     useEffect(() => {
@@ -82,12 +138,19 @@ export default function BlogManagement() {
 
     async function loadPosts() {
         setLoading(true);
-        const { data, error } = await getBlogPosts({ status: filterStatus });
+        const { data, error } = await getBlogPosts({
+            status: filterStatus,
+            targetSite: filterSite === 'all' ? undefined : filterSite,
+        });
         if (error) {
             setNotification({ type: 'error', message: 'Failed to load posts: ' + error.message });
         }
         if (data) setPosts(data);
         setLoading(false);
+
+        // Publishing changes which /blog/... links resolve, so the targets follow the post list
+        const { data: targets } = await getLinkTargets();
+        if (targets) setLinkTargets(targets);
     }
 
     const resetForm = () => {
@@ -104,7 +167,9 @@ export default function BlogManagement() {
             meta_description: '',
             meta_keywords: '',
             og_image: '',
-            is_published: false,
+            status: 'draft',
+            scheduled_at: '',
+            target_site: 'stachbit.in',
             is_featured: false,
             read_time_minutes: 5,
         });
@@ -122,6 +187,18 @@ export default function BlogManagement() {
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
+        // The editor's textarea is hidden in preview mode, so it can't carry `required` itself
+        if (!formData.content.trim()) {
+            setNotification({ type: 'error', message: 'Content is required' });
+            return;
+        }
+
+        const isScheduled = formData.status === 'scheduled';
+        if (isScheduled && new Date(formData.scheduled_at) <= new Date()) {
+            setNotification({ type: 'error', message: 'Pick a publish time in the future' });
+            return;
+        }
+
         const postData = {
             title: formData.title,
             slug: formData.slug,
@@ -135,10 +212,13 @@ export default function BlogManagement() {
             meta_description: formData.meta_description || undefined,
             meta_keywords: formData.meta_keywords || undefined,
             og_image: formData.og_image || formData.featured_image || undefined,
-            is_published: formData.is_published,
+            is_published: formData.status === 'published',
             is_featured: formData.is_featured,
             read_time_minutes: formData.read_time_minutes,
-            published_at: formData.is_published ? new Date().toISOString() : undefined,
+            target_site: formData.target_site,
+            // Re-saving a published post keeps its original publish date
+            published_at: formData.status === 'published' ? editingPost?.published_at || new Date().toISOString() : undefined,
+            scheduled_at: isScheduled ? new Date(formData.scheduled_at).toISOString() : null,
         };
 
         let result;
@@ -172,7 +252,9 @@ export default function BlogManagement() {
             meta_description: post.meta_description || '',
             meta_keywords: post.meta_keywords || '',
             og_image: post.og_image || '',
-            is_published: post.is_published,
+            status: getBlogPostStatus(post),
+            scheduled_at: post.scheduled_at ? toLocalInputValue(post.scheduled_at) : '',
+            target_site: post.target_site || 'stachbit.in',
             is_featured: post.is_featured,
             read_time_minutes: post.read_time_minutes || 5,
         });
@@ -202,6 +284,7 @@ export default function BlogManagement() {
         const { error } = await updateBlogPost(post.id, {
             is_published: newPublishState,
             published_at: newPublishState ? new Date().toISOString() : null,
+            scheduled_at: null,
         });
 
         if (error) {
@@ -226,27 +309,88 @@ export default function BlogManagement() {
         if (!file) return;
 
         setUploading(true);
-        const fileExt = file.name.split('.').pop();
-        const fileName = `${Date.now()}.${fileExt}`;
-        const filePath = `blog/${fileName}`;
-
-        const { error } = await supabase.storage.from('public-assets').upload(filePath, file);
+        const { data, error } = await uploadBlogImage(file);
 
-        if (!error) {
-            const { data } = supabase.storage.from('public-assets').getPublicUrl(filePath);
-            setFormData({ ...formData, [field]: data.publicUrl });
-        } else {
+        if (data) {
+            setFormData({ ...formData, [field]: data });
+        } else if (error) {
             setNotification({ type: 'error', message: 'Upload failed: ' + error.message });
         }
         setUploading(false);
     };
 
-    const filteredPosts = posts.filter(
-        (post) =>
-            post.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            post.category?.toLowerCase().includes(searchQuery.toLowerCase())
+    const handleContentImageUpload = async (file: File) => {
+        const { data, error } = await uploadBlogImage(file);
+        if (error) setNotification({ type: 'error', message: 'Upload failed: ' + error.message });
+        return data;
+    };
+
+    const handleRevisionRestored = async (post: BlogPost, revision: BlogPostRevision) => {
+        setFormData((prev) => ({
+            ...prev,
+            title: post.title,
+            excerpt: post.excerpt || '',
+            content: post.content,
+            author_name: post.author_name,
+            meta_title: post.meta_title || '',
+            meta_description: post.meta_description || '',
+            meta_keywords: post.meta_keywords || '',
+        }));
+        setEditingPost(post);
+        setNotification({ type: 'success', message: `Revision ${revision.revision} restored` });
+        await loadPosts();
+    };
+
+    const seoScores = useMemo(
+        () => Object.fromEntries(posts.map((post) => [post.id, auditBlogPost(post, linkTargets).score])) as Record<string, number>,
+        [posts, linkTargets]
+    );
+
+    const formAudit = useMemo(
+        () =>
+            auditBlogPost(
+                {
+                    title: formData.title,
+                    slug: formData.slug,
+                    content: formData.content,
+                    meta_title: formData.meta_title || null,
+                    meta_description: formData.meta_description || null,
+                    meta_keywords: formData.meta_keywords || null,
+                    target_site: formData.target_site,
+                },
+                linkTargets
+            ),
+        [
+            formData.title,
+            formData.slug,
+            formData.content,
+            formData.meta_title,
+            formData.meta_description,
+            formData.meta_keywords,
+            formData.target_site,
+            linkTargets,
+        ]
     );
 
+    const formBrokenLinks = useMemo(
+        () => findBrokenLinks(formData.content, formData.target_site, linkTargets),
+        [formData.content, formData.target_site, linkTargets]
+    );
+
+    const filteredPosts = posts
+        .filter(
+            (post) =>
+                post.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+                post.category?.toLowerCase().includes(searchQuery.toLowerCase())
+        )
+        .sort((a, b) =>
+            sortBy === 'seo_asc'
+                ? seoScores[a.id] - seoScores[b.id]
+                : sortBy === 'seo_desc'
+                    ? seoScores[b.id] - seoScores[a.id]
+                    : 0
+        );
+
     const formatDate = (date: string | null) => {
         if (!date) return 'Not published';
         return new Date(date).toLocaleDateString('en-US', {
@@ -281,16 +425,22 @@ export default function BlogManagement() {
                     <h1 className="text-2xl font-bold text-white">Blog Posts</h1>
                     <p className="text-dark-400">Create and manage blog content for SEO</p>
                 </div>
-                <button
-                    onClick={() => {
-                        resetForm();
-                        setShowForm(true);
-                    }}
-                    className="btn-primary"
-                >
-                    <Plus className="w-5 h-5" />
-                    New Blog Post
-                </button>
+                <div className="flex gap-2">
+                    <button onClick={() => setShowLinkReport(true)} className="btn-secondary">
+                        <Unlink className="w-5 h-5" />
+                        Link Report
+                    </button>
+                    <button
+                        onClick={() => {
+                            resetForm();
+                            setShowForm(true);
+                        }}
+                        className="btn-primary"
+                    >
+                        <Plus className="w-5 h-5" />
+                        New Blog Post
+                    </button>
+                </div>
             </div>
 
             {/* Filters */}
@@ -314,8 +464,43 @@ export default function BlogManagement() {
                     >
                         <option value="all">All Posts</option>
                         <option value="published">Published</option>
+                        <option value="scheduled">Scheduled</option>
                         <option value="draft">Drafts</option>
                     </select>
+                    <select
+                        value={filterSite}
+                        onChange={(e) => setFilterSite(e.target.value as typeof filterSite)}
+                        className="select"
+                    >
+                        <option value="all">All Sites</option>
+                        <option value="stachbit.in">stachbit.in</option>
+                        <option value="ai.stachbit.in">ai.stachbit.in</option>
+                    </select>
+                    <select
+                        value={sortBy}
+                        onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+                        className="select"
+                    >
+                        <option value="newest">Newest first</option>
+                        <option value="seo_asc">SEO score: lowest first</option>
+                        <option value="seo_desc">SEO score: highest first</option>
+                    </select>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setView('grid')}
+                        className={view === 'grid' ? 'btn-primary btn-sm' : 'btn-secondary btn-sm'}
+                        title="Post grid"
+                    >
+                        <LayoutGrid className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setView('calendar')}
+                        className={view === 'calendar' ? 'btn-primary btn-sm' : 'btn-secondary btn-sm'}
+                        title="Publishing calendar"
+                    >
+                        <CalendarDays className="w-4 h-4" />
+                    </button>
                 </div>
             </div>
 
@@ -376,20 +561,32 @@ export default function BlogManagement() {
             {/* Form Modal */}
             {showForm && (
                 <div className="fixed inset-0 bg-black/70 flex items-start justify-center z-50 p-4 overflow-y-auto">
-                    <div className="glass-card p-6 w-full max-w-4xl my-8">
+                    <div className="glass-card p-6 w-full max-w-6xl my-8">
                         <div className="flex items-center justify-between mb-6">
                             <h2 className="text-xl font-bold text-white">
                                 {editingPost ? 'Edit Blog Post' : 'Create New Blog Post'}
                             </h2>
-                            <button
-                                onClick={() => {
-                                    setShowForm(false);
-                                    resetForm();
-                                }}
-                                className="p-2 hover:bg-dark-700 rounded-lg transition-colors"
-                            >
-                                <X className="w-5 h-5 text-dark-400" />
-                            </button>
+                            <div className="flex items-center gap-2">
+                                {editingPost && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setShowHistory(true)}
+                                        className="btn-secondary btn-sm"
+                                    >
+                                        <History className="w-4 h-4" />
+                                        History
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => {
+                                        setShowForm(false);
+                                        resetForm();
+                                    }}
+                                    className="p-2 hover:bg-dark-700 rounded-lg transition-colors"
+                                >
+                                    <X className="w-5 h-5 text-dark-400" />
+                                </button>
+                            </div>
                         </div>
                         <form onSubmit={handleSubmit} className="space-y-6">
                             {/* Basic Info */}
@@ -431,14 +628,27 @@ export default function BlogManagement() {
                                 </div>
                                 <div>
                                     <label className="label">Content *</label>
-                                    <textarea
+                                    <MarkdownEditor
                                         value={formData.content}
-                                        onChange={(e) => setFormData({ ...formData, content: e.target.value })}
-                                        className="input resize-none font-mono text-sm"
-                                        rows={10}
-                                        placeholder="Write your blog content here... (Markdown supported)"
-                                        required
+                                        onChange={(content) => setFormData((prev) => ({ ...prev, content }))}
+                                        onUploadImage={handleContentImageUpload}
+                                        brokenLinks={formBrokenLinks.map((link) => link.url)}
+                                        placeholder="Write your blog content here in Markdown..."
                                     />
+                                    {formBrokenLinks.length > 0 && (
+                                        <div className="mt-2 p-3 rounded-xl bg-red-500/10 border border-red-500/30 space-y-1">
+                                            <p className="flex items-center gap-2 text-red-400 text-sm font-medium">
+                                                <Unlink className="w-4 h-4" />
+                                                {formBrokenLinks.length} broken internal link{formBrokenLinks.length === 1 ? '' : 's'}
+                                            </p>
+                                            {formBrokenLinks.map((link, index) => (
+                                                <p key={index} className="text-xs text-dark-300">
+                                                    <span className="text-dark-500">Line {link.line}:</span>{' '}
+                                                    <code className="text-red-300">{link.url}</code> · {link.reason}
+                                                </p>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
 
@@ -598,23 +808,75 @@ export default function BlogManagement() {
                                 </div>
                             </div>
 
+                            {/* SEO Audit */}
+                            <div className="space-y-4">
+                                <div className="flex items-center justify-between border-b border-dark-700 pb-2">
+                                    <h3 className="text-lg font-semibold text-white">SEO Audit</h3>
+                                    <span className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-semibold ${seoScoreClass(formAudit.score)}`}>
+                                        <Gauge className="w-4 h-4" />
+                                        {formAudit.score}/100
+                                    </span>
+                                </div>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+                                    {formAudit.checks.map((check) => {
+                                        const { icon: Icon, className } = seoCheckIcons[check.status];
+                                        return (
+                                            <div key={check.id} className="flex items-start gap-2 text-sm">
+                                                <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${className}`} />
+                                                <div className="min-w-0">
+                                                    <span className="text-white">{check.label}</span>
+                                                    <p className="text-dark-400 text-xs break-words">{check.message}</p>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+
                             {/* Publishing Options */}
                             <div className="space-y-4">
                                 <h3 className="text-lg font-semibold text-white border-b border-dark-700 pb-2">
                                     Publishing
                                 </h3>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                    <div>
+                                        <label className="label">Status</label>
+                                        <select
+                                            value={formData.status}
+                                            onChange={(e) => setFormData({ ...formData, status: e.target.value as BlogPostStatus })}
+                                            className="select"
+                                        >
+                                            <option value="draft">Draft</option>
+                                            <option value="published">{editingPost?.is_published ? 'Published' : 'Publish immediately'}</option>
+                                            <option value="scheduled">Schedule for later</option>
+                                        </select>
+                                    </div>
+                                    {formData.status === 'scheduled' && (
+                                        <div>
+                                            <label className="label">Publish At *</label>
+                                            <input
+                                                type="datetime-local"
+                                                value={formData.scheduled_at}
+                                                onChange={(e) => setFormData({ ...formData, scheduled_at: e.target.value })}
+                                                className="input"
+                                                required
+                                            />
+                                        </div>
+                                    )}
+                                    <div>
+                                        <label className="label">Target Site</label>
+                                        <select
+                                            value={formData.target_site}
+                                            onChange={(e) => setFormData({ ...formData, target_site: e.target.value as BlogTargetSite })}
+                                            className="select"
+                                        >
+                                            {targetSites.map((site) => (
+                                                <option key={site.value} value={site.value}>{site.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
                                 <div className="flex flex-wrap items-center gap-6">
-                                    <label className="flex items-center gap-3 cursor-pointer group">
-                                        <input
-                                            type="checkbox"
-                                            checked={formData.is_published}
-                                            onChange={(e) =>
-                                                setFormData({ ...formData, is_published: e.target.checked })
-                                            }
-                                            className="w-5 h-5 rounded border-dark-600 bg-dark-800 text-primary-500 focus:ring-primary-500"
-                                        />
-                                        <span className="text-dark-300 group-hover:text-white transition-colors">Publish immediately</span>
-                                    </label>
                                     <label className="flex items-center gap-3 cursor-pointer group">
                                         <input
                                             type="checkbox"
@@ -649,6 +911,31 @@ export default function BlogManagement() {
                 </div>
             )}
 
+            {/* Link Report Modal */}
+            {showLinkReport && (
+                <BlogLinkReportModal
+                    sites={targetSites}
+                    statusBadges={statusBadges}
+                    onClose={() => setShowLinkReport(false)}
+                    onEditPost={(post) => {
+                        setShowLinkReport(false);
+                        handleEdit(post);
+                    }}
+                    onRoutesChange={loadPosts}
+                    onError={(message) => setNotification({ type: 'error', message })}
+                />
+            )}
+
+            {/* Revision History Modal */}
+            {showHistory && editingPost && (
+                <BlogRevisionsModal
+                    postId={editingPost.id}
+                    onClose={() => setShowHistory(false)}
+                    onRestored={handleRevisionRestored}
+                    onError={(message) => setNotification({ type: 'error', message })}
+                />
+            )}
+
             {/* Posts List */}
             {loading ? (
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
@@ -665,6 +952,8 @@ export default function BlogManagement() {
                         </div>
                     ))}
                 </div>
+            ) : view === 'calendar' ? (
+                <BlogCalendar posts={filteredPosts} sites={targetSites} onSelectPost={handleEdit} />
             ) : filteredPosts.length === 0 ? (
                 <div className="card p-16 text-center bg-gradient-to-br from-dark-800/50 to-dark-900/50">
                     <div className="w-20 h-20 rounded-2xl bg-primary-500/10 flex items-center justify-center mx-auto mb-6">
@@ -684,7 +973,7 @@ export default function BlogManagement() {
                     {filteredPosts.map((post) => (
                         <div
                             key={post.id}
-                            className={`card group hover:border-primary-500/50 transition-all duration-300 ${!post.is_published ? 'opacity-70 border-dashed' : ''
+                            className={`card group hover:border-primary-500/50 transition-all duration-300 ${getBlogPostStatus(post) === 'draft' ? 'opacity-70 border-dashed' : ''
                                 } ${deleting === post.id ? 'opacity-50 pointer-events-none' : ''}`}
                         >
                             <div className="flex gap-4">
@@ -714,14 +1003,19 @@ export default function BlogManagement() {
                                         <h3 className="font-semibold text-white text-base lg:text-lg line-clamp-1 group-hover:text-primary-400 transition-colors">
                                             {post.title}
                                         </h3>
-                                        <span
-                                            className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${post.is_published
-                                                    ? 'bg-green-500/20 text-green-400 border border-green-500/30'
-                                                    : 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30'
-                                                }`}
-                                        >
-                                            {post.is_published ? 'Published' : 'Draft'}
-                                        </span>
+                                        <div className="flex shrink-0 items-center gap-1.5">
+                                            <span
+                                                className={`px-2 py-0.5 rounded-full text-xs font-medium ${seoScoreClass(seoScores[post.id])}`}
+                                                title="SEO score"
+                                            >
+                                                SEO {seoScores[post.id]}
+                                            </span>
+                                            <span
+                                                className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusBadges[getBlogPostStatus(post)].className}`}
+                                            >
+                                                {statusBadges[getBlogPostStatus(post)].label}
+                                            </span>
+                                        </div>
                                     </div>
 
                                     {post.excerpt && (
@@ -736,7 +1030,9 @@ export default function BlogManagement() {
                                         )}
                                         <span className="flex items-center gap-1">
                                             <Calendar className="w-3 h-3" />
-                                            {formatDate(post.published_at || post.created_at)}
+                                            {post.scheduled_at && !post.is_published
+                                                ? `Goes live ${formatDate(post.scheduled_at)}`
+                                                : formatDate(post.published_at || post.created_at)}
                                         </span>
                                         <span className="flex items-center gap-1">
                                             <Clock className="w-3 h-3" />
@@ -790,7 +1086,7 @@ export default function BlogManagement() {
                                 </button>
                                 {post.is_published && (
                                     <a
-                                        href={`https://stachbit.in/blog/${post.slug}`}
+                                        href={postUrl(post)}
                                         target="_blank"
                                         rel="noopener noreferrer"
                                         className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-dark-400 hover:text-blue-400 hover:bg-blue-500/10 transition-colors"
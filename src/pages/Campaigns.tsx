@@ -0,0 +1,449 @@
+import { useState, useEffect } from 'react';
+import {
+    Send,
+    Search,
+    X,
+    Pause,
+    CalendarX,
+    RefreshCw,
+    AlertCircle,
+    CheckCircle,
+    ChevronLeft,
+    ChevronRight,
+} from 'lucide-react';
+import {
+    getEmailCampaigns,
+    getCampaignRecipients,
+    getCampaignEmailLogs,
+    pauseEmailCampaign,
+    cancelScheduledCampaign,
+    type UserSummary,
+} from '../lib/supabase';
+import { formatDate, formatRelativeTime } from '../lib/utils';
+import type { CampaignLead, CampaignStatus, EmailCampaign, EmailLog, EmailStatus } from '../lib/database.types';
+
+type CampaignRow = EmailCampaign & { user_profiles: UserSummary };
+type RecipientRow = CampaignLead & { leads: { business_name: string; email: string | null } | null };
+
+const CAMPAIGNS_PER_PAGE = 20;
+
+const CAMPAIGN_STATUSES: CampaignStatus[] = ['draft', 'scheduled', 'sending', 'paused', 'completed'];
+const EMAIL_STATUSES: EmailStatus[] = ['pending', 'sent', 'delivered', 'opened', 'clicked', 'bounced', 'failed'];
+
+const campaignStatusColors: Record<CampaignStatus, string> = {
+    draft: 'bg-dark-700 text-dark-300 border border-dark-600',
+    scheduled: 'badge-primary',
+    sending: 'badge-warning',
+    paused: 'badge-accent',
+    completed: 'badge-success',
+};
+
+const emailStatusColors: Record<EmailStatus, string> = {
+    pending: 'text-dark-300',
+    sent: 'text-primary-400',
+    delivered: 'text-blue-400',
+    opened: 'text-green-400',
+    clicked: 'text-accent-400',
+    bounced: 'text-yellow-400',
+    failed: 'text-red-400',
+};
+
+export default function Campaigns() {
+    const [campaigns, setCampaigns] = useState<CampaignRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState<CampaignStatus | ''>('');
+    const [searchQuery, setSearchQuery] = useState('');
+    const [currentPage, setCurrentPage] = useState(1);
+    const [totalCount, setTotalCount] = useState(0);
+    const [selectedCampaign, setSelectedCampaign] = useState<CampaignRow | null>(null);
+    const [recipients, setRecipients] = useState<RecipientRow[]>([]);
+    const [emailLogs, setEmailLogs] = useState<EmailLog[]>([]);
+    const [detailLoading, setDetailLoading] = useState(false);
+    const [recipientFilter, setRecipientFilter] = useState<EmailStatus | ''>('');
+    const [acting, setActing] = useState(false);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    useEffect(() => {
+        loadCampaigns();
+    }, [currentPage, statusFilter]);
+
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 4000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
+    async function loadCampaigns() {
+        setLoading(true);
+        const { data, count } = await getEmailCampaigns({
+            status: statusFilter || undefined,
+            search: searchQuery || undefined,
+            limit: CAMPAIGNS_PER_PAGE,
+            offset: (currentPage - 1) * CAMPAIGNS_PER_PAGE,
+        });
+        if (data) setCampaigns(data);
+        if (count !== null) setTotalCount(count);
+        setLoading(false);
+    }
+
+    const handleSelectCampaign = async (campaign: CampaignRow) => {
+        setSelectedCampaign(campaign);
+        setRecipientFilter('');
+        setDetailLoading(true);
+        const [recipientsRes, logsRes] = await Promise.all([
+            getCampaignRecipients(campaign.id),
+            getCampaignEmailLogs(campaign.id),
+        ]);
+        setRecipients(recipientsRes.data || []);
+        setEmailLogs(logsRes.data || []);
+        setDetailLoading(false);
+    };
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (currentPage === 1) loadCampaigns();
+        else setCurrentPage(1);
+    };
+
+    const handleAction = async (action: 'pause' | 'cancel') => {
+        if (!selectedCampaign) return;
+        const label = action === 'pause' ? 'pause this campaign' : 'cancel this scheduled campaign';
+        if (!confirm(`Are you sure you want to ${label}? The customer will need to resume it themselves.`)) return;
+
+        setActing(true);
+        const { data, error } = action === 'pause'
+            ? await pauseEmailCampaign(selectedCampaign.id)
+            : await cancelScheduledCampaign(selectedCampaign.id);
+
+        if (error || !data) {
+            setNotification({
+                type: 'error',
+                message: error?.message || 'Campaign status changed before the action could be applied',
+            });
+        } else {
+            setNotification({
+                type: 'success',
+                message: action === 'pause' ? 'Campaign paused' : 'Scheduled campaign cancelled and returned to draft',
+            });
+            setSelectedCampaign({ ...selectedCampaign, ...data });
+        }
+        setActing(false);
+        await loadCampaigns();
+    };
+
+    const totalPages = Math.ceil(totalCount / CAMPAIGNS_PER_PAGE);
+
+    const percent = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—');
+
+    const recipientCounts = EMAIL_STATUSES.reduce<Record<string, number>>((acc, status) => {
+        acc[status] = recipients.filter((r) => r.status === status).length;
+        return acc;
+    }, {});
+
+    const filteredRecipients = recipientFilter
+        ? recipients.filter((r) => r.status === recipientFilter)
+        : recipients;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-white">Email Campaigns</h1>
+                    <p className="text-dark-400">Monitor customer campaigns and intervene when needed</p>
+                </div>
+                <button onClick={loadCampaigns} className="btn-secondary self-start">
+                    <RefreshCw className="w-4 h-4" />
+                    Refresh
+                </button>
+            </div>
+
+            {/* Notification */}
+            {notification && (
+                <div
+                    className={`flex items-center gap-2 p-4 rounded-xl ${notification.type === 'success'
+                        ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+                        : 'bg-red-500/20 text-red-400 border border-red-500/30'
+                        }`}
+                >
+                    {notification.type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+                    {notification.message}
+                </div>
+            )}
+
+            {/* Filters */}
+            <div className="card p-4 flex flex-col md:flex-row gap-3">
+                <form onSubmit={handleSearch} className="relative flex-1">
+                    <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-dark-400" />
+                    <input
+                        type="text"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        placeholder="Search by campaign name or subject (Enter)"
+                        className="input pl-12"
+                    />
+                </form>
+                <select
+                    value={statusFilter}
+                    onChange={(e) => {
+                        setStatusFilter(e.target.value as CampaignStatus | '');
+                        setCurrentPage(1);
+                    }}
+                    className="select md:w-48"
+                >
+                    <option value="">All statuses</option>
+                    {CAMPAIGN_STATUSES.map((status) => (
+                        <option key={status} value={status}>{status}</option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Campaigns Table */}
+            <div className="card overflow-hidden">
+                {loading ? (
+                    <div className="p-8 text-center">
+                        <div className="spinner text-primary-400 mx-auto mb-4" />
+                        <p className="text-dark-400">Loading campaigns...</p>
+                    </div>
+                ) : campaigns.length === 0 ? (
+                    <div className="p-12 text-center">
+                        <Send className="w-16 h-16 text-dark-600 mx-auto mb-4" />
+                        <h3 className="text-xl font-semibold text-white mb-2">No campaigns found</h3>
+                        <p className="text-dark-400">Customer campaigns will appear here</p>
+                    </div>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="table">
+                            <thead>
+                                <tr>
+                                    <th>Campaign</th>
+                                    <th>Customer</th>
+                                    <th>Status</th>
+                                    <th>Sent</th>
+                                    <th>Delivered</th>
+                                    <th>Opened</th>
+                                    <th>Clicked</th>
+                                    <th>Bounced</th>
+                                    <th>Failed</th>
+                                    <th>Created</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {campaigns.map((campaign) => (
+                                    <tr
+                                        key={campaign.id}
+                                        className="cursor-pointer"
+                                        onClick={() => handleSelectCampaign(campaign)}
+                                    >
+                                        <td>
+                                            <p className="text-white font-medium">{campaign.name}</p>
+                                            <p className="text-dark-500 text-sm truncate max-w-xs">{campaign.subject}</p>
+                                        </td>
+                                        <td>
+                                            <p className="text-white text-sm">{campaign.user_profiles?.full_name || 'Unknown'}</p>
+                                            <p className="text-dark-500 text-xs">{campaign.user_profiles?.email || campaign.user_id}</p>
+                                        </td>
+                                        <td>
+                                            <span className={`badge ${campaignStatusColors[campaign.status]}`}>{campaign.status}</span>
+                                        </td>
+                                        <td className="text-white">
+                                            {campaign.sent_count}
+                                            <span className="text-dark-500 text-xs"> / {campaign.total_recipients}</span>
+                                        </td>
+                                        <td className="text-dark-300">{campaign.delivered_count}</td>
+                                        <td className="text-dark-300">{campaign.opened_count}</td>
+                                        <td className="text-dark-300">{campaign.clicked_count}</td>
+                                        <td className={campaign.bounced_count > 0 ? 'text-yellow-400' : 'text-dark-300'}>
+                                            {campaign.bounced_count}
+                                        </td>
+                                        <td className={campaign.failed_count > 0 ? 'text-red-400' : 'text-dark-300'}>
+                                            {campaign.failed_count}
+                                        </td>
+                                        <td className="text-dark-400 text-sm">{formatRelativeTime(campaign.created_at)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                {/* Pagination */}
+                {totalPages > 1 && (
+                    <div className="p-4 border-t border-dark-700 flex items-center justify-between">
+                        <p className="text-dark-400 text-sm">
+                            Page {currentPage} of {totalPages} ({totalCount} campaigns)
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                                disabled={currentPage === 1}
+                                className="btn-ghost btn-sm"
+                            >
+                                <ChevronLeft className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                                disabled={currentPage === totalPages}
+                                className="btn-ghost btn-sm"
+                            >
+                                <ChevronRight className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* Campaign Detail Modal */}
+            {selectedCampaign && (
+                <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 overflow-y-auto" onClick={() => setSelectedCampaign(null)}>
+                    <div className="glass-card p-6 w-full max-w-4xl my-8 space-y-6" onClick={(e) => e.stopPropagation()}>
+                        <div className="flex items-start justify-between">
+                            <div>
+                                <h2 className="text-xl font-bold text-white">{selectedCampaign.name}</h2>
+                                <p className="text-dark-400 text-sm">{selectedCampaign.subject}</p>
+                                <p className="text-dark-500 text-xs mt-1">
+                                    {selectedCampaign.user_profiles?.email || selectedCampaign.user_id}
+                                    {selectedCampaign.scheduled_at && ` · Scheduled ${formatDate(selectedCampaign.scheduled_at, { dateStyle: 'medium', timeStyle: 'short' })}`}
+                                    {selectedCampaign.started_at && ` · Started ${formatRelativeTime(selectedCampaign.started_at)}`}
+                                    {selectedCampaign.completed_at && ` · Completed ${formatRelativeTime(selectedCampaign.completed_at)}`}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <span className={`badge ${campaignStatusColors[selectedCampaign.status]}`}>{selectedCampaign.status}</span>
+                                <button onClick={() => setSelectedCampaign(null)} className="p-1 hover:bg-dark-700 rounded">
+                                    <X className="w-5 h-5 text-dark-400" />
+                                </button>
+                            </div>
+                        </div>
+
+                        {/* Admin Actions */}
+                        {(selectedCampaign.status === 'sending' || selectedCampaign.status === 'scheduled') && (
+                            <div className="flex gap-3">
+                                {selectedCampaign.status === 'sending' && (
+                                    <button onClick={() => handleAction('pause')} disabled={acting} className="btn-secondary btn-sm">
+                                        <Pause className="w-4 h-4" />
+                                        Pause Sending
+                                    </button>
+                                )}
+                                {selectedCampaign.status === 'scheduled' && (
+                                    <button
+                                        onClick={() => handleAction('cancel')}
+                                        disabled={acting}
+                                        className="btn-sm btn bg-red-500/20 text-red-400 border border-red-500/30 hover:bg-red-500/30"
+                                    >
+                                        <CalendarX className="w-4 h-4" />
+                                        Cancel Schedule
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Funnel */}
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            {[
+                                { label: 'Delivered', value: selectedCampaign.delivered_count, of: selectedCampaign.sent_count },
+                                { label: 'Opened', value: selectedCampaign.opened_count, of: selectedCampaign.delivered_count },
+                                { label: 'Clicked', value: selectedCampaign.clicked_count, of: selectedCampaign.opened_count },
+                                { label: 'Bounced + Failed', value: selectedCampaign.bounced_count + selectedCampaign.failed_count, of: selectedCampaign.sent_count },
+                            ].map((stat) => (
+                                <div key={stat.label} className="bg-dark-800/50 rounded-lg p-3">
+                                    <p className="text-dark-500 text-xs">{stat.label}</p>
+                                    <p className="text-xl font-bold text-white">{stat.value}</p>
+                                    <p className="text-dark-400 text-xs">{percent(stat.value, stat.of)}</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        {detailLoading ? (
+                            <div className="p-8 text-center">
+                                <div className="spinner text-primary-400 mx-auto" />
+                            </div>
+                        ) : (
+                            <>
+                                {/* Recipient Breakdown */}
+                                <div>
+                                    <h3 className="text-white font-semibold mb-3">
+                                        Recipients ({recipients.length})
+                                    </h3>
+                                    <div className="flex flex-wrap gap-2 mb-3">
+                                        <button
+                                            onClick={() => setRecipientFilter('')}
+                                            className={`px-3 py-1 rounded-lg text-xs border ${recipientFilter === '' ? 'bg-primary-500/20 border-primary-500 text-primary-400' : 'border-dark-600 text-dark-300'}`}
+                                        >
+                                            all {recipients.length}
+                                        </button>
+                                        {EMAIL_STATUSES.map((status) => (
+                                            <button
+                                                key={status}
+                                                onClick={() => setRecipientFilter(status)}
+                                                className={`px-3 py-1 rounded-lg text-xs border ${recipientFilter === status ? 'bg-primary-500/20 border-primary-500 text-primary-400' : 'border-dark-600 text-dark-300'}`}
+                                            >
+                                                {status} {recipientCounts[status]}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    {filteredRecipients.length === 0 ? (
+                                        <p className="text-dark-400 text-sm">No recipients</p>
+                                    ) : (
+                                        <div className="max-h-72 overflow-y-auto rounded-lg border border-dark-700">
+                                            <table className="table">
+                                                <thead>
+                                                    <tr>
+                                                        <th>Lead</th>
+                                                        <th>Status</th>
+                                                        <th>Sent</th>
+                                                        <th>Error</th>
+                                                    </tr>
+                                                </thead>
+                                                <tbody>
+                                                    {filteredRecipients.map((recipient) => (
+                                                        <tr key={recipient.id}>
+                                                            <td>
+                                                                <p className="text-white text-sm">{recipient.leads?.business_name || recipient.lead_id}</p>
+                                                                <p className="text-dark-500 text-xs">{recipient.leads?.email || '—'}</p>
+                                                            </td>
+                                                            <td className={`text-sm ${emailStatusColors[recipient.status]}`}>{recipient.status}</td>
+                                                            <td className="text-dark-400 text-sm">
+                                                                {recipient.sent_at ? formatRelativeTime(recipient.sent_at) : '—'}
+                                                            </td>
+                                                            <td className="text-red-400 text-xs max-w-xs truncate">{recipient.error_message || ''}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                    )}
+                                </div>
+
+                                {/* Email Logs */}
+                                <div>
+                                    <h3 className="text-white font-semibold mb-3">Latest Delivery Logs</h3>
+                                    {emailLogs.length === 0 ? (
+                                        <p className="text-dark-400 text-sm">No delivery logs recorded</p>
+                                    ) : (
+                                        <div className="space-y-2 max-h-60 overflow-y-auto">
+                                            {emailLogs.map((log) => (
+                                                <div key={log.id} className="flex items-center justify-between gap-4 p-3 bg-dark-800/50 rounded-lg text-sm">
+                                                    <div className="min-w-0">
+                                                        <p className="text-white truncate">{log.to_email}</p>
+                                                        {(log.error_message || log.smtp_response) && (
+                                                            <p className="text-dark-500 text-xs truncate">{log.error_message || log.smtp_response}</p>
+                                                        )}
+                                                    </div>
+                                                    <div className="flex items-center gap-3 shrink-0">
+                                                        <span className={emailStatusColors[log.status]}>{log.status}</span>
+                                                        <span className="text-dark-500 text-xs">{formatRelativeTime(log.created_at)}</span>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -11,8 +11,10 @@ import {
     UserPlus,
     Target,
     Clock,
+    Bell,
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { supabase, getDueInquiryFollowUps } from '../lib/supabase';
+import { formatDate } from '../lib/utils';
 
 interface Stats {
     totalUsers: number;
@@ -31,6 +33,14 @@ interface Activity {
     time: string;
 }
 
+interface FollowUp {
+    id: string;
+    name: string;
+    email: string;
+    status: string;
+    follow_up_at: string;
+}
+
 export default function Dashboard() {
     const [stats, setStats] = useState<Stats>({
         totalUsers: 0,
@@ -41,6 +51,8 @@ export default function Dashboard() {
         revenueThisMonth: 0,
     });
     const [activities, setActivities] = useState<Activity[]>([]);
+    const [followUps, setFollowUps] = useState<FollowUp[]>([]);
+    const [followUpCount, setFollowUpCount] = useState(0);
     const [loading, setLoading] = useState(true);
 
     useEffect(() => {
@@ -85,6 +97,11 @@ export default function Dashboard() {
                 revenueThisMonth: 0,
             });
 
+            // Inquiry follow-ups that have come due
+            const { data: dueFollowUps, count: dueCount } = await getDueInquiryFollowUps({ limit: 5 });
+            if (dueFollowUps) setFollowUps(dueFollowUps);
+            setFollowUpCount(dueCount || 0);
+
             // Load recent activity
             await loadActivities();
             setLoading(false);
@@ -273,6 +290,42 @@ export default function Dashboard() {
                 </Link>
             </div>
 
+            {/* Follow-ups Due */}
+            {followUps.length > 0 && (
+                <div className="card p-6 border-yellow-500/30">
+                    <div className="flex items-center justify-between mb-4">
+                        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                            <Bell className="w-5 h-5 text-yellow-400" />
+                            Follow-ups Due
+                            <span className="badge badge-warning">{followUpCount}</span>
+                        </h2>
+                        <Link to="/inquiries" className="text-primary-400 text-sm hover:underline">
+                            View inquiries →
+                        </Link>
+                    </div>
+                    <div className="space-y-3">
+                        {followUps.map((followUp) => (
+                            <Link
+                                key={followUp.id}
+                                to={`/inquiries?inquiry=${followUp.id}`}
+                                className="flex items-center gap-4 p-3 bg-dark-800/50 rounded-lg hover:bg-dark-700/50 transition-colors"
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-white text-sm font-medium truncate">{followUp.name}</p>
+                                    <p className="text-dark-500 text-xs truncate">
+                                        {followUp.email} · {followUp.status.replace('_', ' ')}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-1 text-red-400 text-xs">
+                                    <Clock className="w-3 h-3" />
+                                    {formatDate(followUp.follow_up_at)}
+                                </div>
+                            </Link>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Recent Activity */}
             <div className="card p-6">
                 <div className="flex items-center justify-between mb-4">
@@ -1,6 +1,13 @@
 import { useState, useEffect } from 'react';
-import { Mail, Plus, Trash2, X, Edit, Eye, Copy, Check } from 'lucide-react';
-import { getEmailTemplates, createEmailTemplate, updateEmailTemplate, deleteEmailTemplate } from '../lib/supabase';
+import { Mail, Plus, Trash2, X, Edit, Eye, Copy, Check, Bell } from 'lucide-react';
+import {
+    getEmailTemplates,
+    createEmailTemplate,
+    updateEmailTemplate,
+    deleteEmailTemplate,
+    NOTIFICATION_TEMPLATES,
+    type NotificationTemplateKey,
+} from '../lib/supabase';
 import { copyToClipboard, formatDate } from '../lib/utils';
 
 interface EmailTemplate {
@@ -12,6 +19,7 @@ interface EmailTemplate {
     body_text: string | null;
     category?: string | null;
     is_system?: boolean;
+    system_key?: string | null;
     variables?: string[];
     is_default?: boolean;
     use_count?: number;
@@ -26,6 +34,8 @@ export default function Emails() {
     const [editingTemplate, setEditingTemplate] = useState<EmailTemplate | null>(null);
     const [previewTemplate, setPreviewTemplate] = useState<EmailTemplate | null>(null);
     const [copied, setCopied] = useState(false);
+    // Set while creating the customised copy of a built-in notification template
+    const [systemKey, setSystemKey] = useState<NotificationTemplateKey | null>(null);
 
     const [formData, setFormData] = useState({
         name: '',
@@ -53,6 +63,7 @@ export default function Emails() {
             category: 'outreach',
         });
         setEditingTemplate(null);
+        setSystemKey(null);
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -60,6 +71,15 @@ export default function Emails() {
 
         if (editingTemplate) {
             await updateEmailTemplate(editingTemplate.id, formData);
+        } else if (systemKey) {
+            await createEmailTemplate({
+                ...formData,
+                user_id: null,
+                category: 'system',
+                is_system: true,
+                system_key: systemKey,
+                variables: NOTIFICATION_TEMPLATES[systemKey].variables,
+            });
         } else {
             await createEmailTemplate({
                 ...formData,
@@ -83,6 +103,19 @@ export default function Emails() {
         setShowForm(true);
     };
 
+    const handleEditNotification = (key: NotificationTemplateKey) => {
+        const existing = templates.find((template) => template.system_key === key);
+        if (existing) {
+            handleEdit(existing);
+            return;
+        }
+        const defaults = NOTIFICATION_TEMPLATES[key];
+        setFormData({ name: defaults.name, subject: defaults.subject, body_html: defaults.body_html, category: 'system' });
+        setEditingTemplate(null);
+        setSystemKey(key);
+        setShowForm(true);
+    };
+
     const handleDelete = async (templateId: string) => {
         if (confirm('Are you sure you want to delete this template?')) {
             await deleteEmailTemplate(templateId);
@@ -96,6 +129,8 @@ export default function Emails() {
         setTimeout(() => setCopied(false), 2000);
     };
 
+    const notificationKey = (systemKey || editingTemplate?.system_key || null) as NotificationTemplateKey | null;
+
     const categories: Record<string, string> = {
         outreach: 'Outreach',
         follow_up: 'Follow-up',
@@ -133,7 +168,7 @@ export default function Emails() {
                     <div className="glass-card p-6 w-full max-w-2xl my-8">
                         <div className="flex items-center justify-between mb-6">
                             <h2 className="text-xl font-bold text-white">
-                                {editingTemplate ? 'Edit Template' : 'Create Template'}
+                                {editingTemplate ? 'Edit Template' : systemKey ? 'Customise Notification' : 'Create Template'}
                             </h2>
                             <button onClick={() => { setShowForm(false); resetForm(); }} className="p-1 hover:bg-dark-700 rounded">
                                 <X className="w-5 h-5 text-dark-400" />
@@ -158,6 +193,7 @@ export default function Emails() {
                                         value={formData.category}
                                         onChange={(e) => setFormData({ ...formData, category: e.target.value })}
                                         className="select"
+                                        disabled={Boolean(systemKey || editingTemplate?.system_key)}
                                     >
                                         {Object.entries(categories).map(([value, label]) => (
                                             <option key={value} value={value}>{label}</option>
@@ -176,7 +212,9 @@ export default function Emails() {
                                     required
                                 />
                                 <p className="text-dark-500 text-xs mt-1">
-                                    Use {'{{variable}}'} for dynamic content
+                                    {notificationKey
+                                        ? `Available: ${NOTIFICATION_TEMPLATES[notificationKey].variables.map((v) => `{{${v}}}`).join(', ')}`
+                                        : <>Use {'{{variable}}'} for dynamic content</>}
                                 </p>
                             </div>
                             <div>
@@ -243,6 +281,38 @@ export default function Emails() {
                 </div>
             )}
 
+            {/* Customer Notifications */}
+            <div className="card p-6">
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="w-10 h-10 bg-primary-500/20 rounded-lg flex items-center justify-center">
+                        <Bell className="w-5 h-5 text-primary-400" />
+                    </div>
+                    <div>
+                        <h2 className="text-lg font-semibold text-white">Customer Notifications</h2>
+                        <p className="text-dark-400 text-sm">Emails sent to customers about their support tickets</p>
+                    </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {(Object.keys(NOTIFICATION_TEMPLATES) as NotificationTemplateKey[]).map((key) => {
+                        const custom = templates.find((template) => template.system_key === key);
+                        return (
+                            <div key={key} className="p-4 bg-dark-800/50 rounded-lg flex items-center justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-white font-medium">{NOTIFICATION_TEMPLATES[key].name}</p>
+                                    <p className="text-dark-500 text-xs truncate">
+                                        {custom ? `Updated ${formatDate(custom.updated_at)}` : 'Using built-in default'}
+                                    </p>
+                                </div>
+                                <button onClick={() => handleEditNotification(key)} className="btn-secondary btn-sm">
+                                    <Edit className="w-4 h-4" />
+                                    {custom ? 'Edit' : 'Customise'}
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
             {/* Templates List */}
             <div className="card overflow-hidden">
                 {loading ? (
@@ -1,7 +1,47 @@
 import { useState, useEffect } from 'react';
-import { Inbox, Eye, X, Mail, Phone, Building, MessageSquare } from 'lucide-react';
-import { getWebsiteInquiries, updateWebsiteInquiry } from '../lib/supabase';
-import { formatDate, formatRelativeTime } from '../lib/utils';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+    Inbox,
+    Eye,
+    X,
+    Mail,
+    Phone,
+    Building,
+    MessageSquare,
+    List,
+    LayoutGrid,
+    Bell,
+    History,
+    Send,
+    CheckCircle,
+    AlertTriangle,
+    UserPlus,
+    FolderKanban,
+    ShieldAlert,
+    GitMerge,
+} from 'lucide-react';
+import {
+    getWebsiteInquiries,
+    getWebsiteInquiryById,
+    updateWebsiteInquiry,
+    getInquiryActivities,
+    addInquiryNote,
+    getEmailTemplates,
+    sendInquiryReply,
+    findUserByEmail,
+    convertWebsiteInquiry,
+    getSubscriptionPlans,
+    getRelatedInquiries,
+    mergeWebsiteInquiries,
+    subscribeToInserts,
+    INQUIRY_STATUSES,
+    INQUIRY_SPAM_THRESHOLD,
+    INQUIRY_TEMPLATE_VARIABLES,
+    type InquiryStatus,
+    type InquiryActivity,
+} from '../lib/supabase';
+import type { EmailTemplate, SubscriptionPlan, UserProfile } from '../lib/database.types';
+import { escapeHtml, fillTemplate, formatDate, formatRelativeTime } from '../lib/utils';
 
 interface Inquiry {
     id: string;
@@ -12,40 +52,331 @@ interface Inquiry {
     service_interest?: string;
     budget_range?: string;
     message: string;
-    status: 'new' | 'contacted' | 'in_progress' | 'completed';
+    status: InquiryStatus;
     admin_notes?: string;
+    follow_up_at?: string | null;
+    converted_user_id?: string | null;
+    portfolio_project_id?: string | null;
+    converted_at?: string | null;
+    spam_score?: number | null;
+    spam_reasons?: string[] | null;
+    merged_into?: string | null;
     created_at: string;
 }
 
+// Follow-ups are picked by day and fall due at the start of the working day
+const FOLLOW_UP_HOUR = 9;
+
+function toDateInputValue(date: string) {
+    const d = new Date(date);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+const EMPTY_REPLY_FORM = { templateId: '', subject: '', body_html: '' };
+
+function toDateInputValueFromNow(days: number) {
+    return toDateInputValue(new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString());
+}
+
+function isFollowUpDue(inquiry: Inquiry) {
+    return !!inquiry.follow_up_at && inquiry.status !== 'completed' && new Date(inquiry.follow_up_at).getTime() <= Date.now();
+}
+
 export default function Inquiries() {
     const [inquiries, setInquiries] = useState<Inquiry[]>([]);
     const [loading, setLoading] = useState(true);
     const [selectedInquiry, setSelectedInquiry] = useState<Inquiry | null>(null);
-    const [notes, setNotes] = useState('');
+    const [view, setView] = useState<'list' | 'board'>('list');
+    const [statusFilter, setStatusFilter] = useState<InquiryStatus | ''>('');
+    const [duplicates, setDuplicates] = useState<Inquiry[]>([]);
+    const [merging, setMerging] = useState<string | null>(null);
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<InquiryStatus | null>(null);
+    const [activities, setActivities] = useState<InquiryActivity[]>([]);
+    const [newNote, setNewNote] = useState('');
+    const [savingNote, setSavingNote] = useState(false);
+    const [followUpDate, setFollowUpDate] = useState('');
+    const [showCompose, setShowCompose] = useState(false);
+    const [showReplyPreview, setShowReplyPreview] = useState(false);
+    const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+    const [replyForm, setReplyForm] = useState(EMPTY_REPLY_FORM);
+    const [sendingReply, setSendingReply] = useState(false);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+    const [showConvert, setShowConvert] = useState(false);
+    const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+    const [existingUser, setExistingUser] = useState<UserProfile | null>(null);
+    const [convertForm, setConvertForm] = useState({
+        plan_id: '',
+        end_date: '',
+        createProject: false,
+        project_title: '',
+        service_type: 'web_dev',
+    });
+    const [converting, setConverting] = useState(false);
+    const [searchParams, setSearchParams] = useSearchParams();
 
     useEffect(() => {
         loadInquiries();
-    }, []);
+        // New rows arrive already scored and, if need be, moved to spam by the database
+        return subscribeToInserts<Inquiry>('website_inquiries', (inquiry) => {
+            if (statusFilter ? inquiry.status !== statusFilter : inquiry.status === 'spam') return;
+            setInquiries((prev) => (prev.some((i) => i.id === inquiry.id) ? prev : [inquiry, ...prev]));
+        });
+    }, [statusFilter]);
+
+    // Dashboard follow-up reminders link here with ?inquiry=<id>; older inquiries that
+    // aren't on the loaded page are fetched on their own
+    useEffect(() => {
+        const inquiryId = searchParams.get('inquiry');
+        if (!inquiryId || loading) return;
+        setSearchParams({}, { replace: true });
+
+        const loaded = inquiries.find((i) => i.id === inquiryId);
+        if (loaded) {
+            selectInquiry(loaded);
+            return;
+        }
+        getWebsiteInquiryById(inquiryId).then(({ data, error }) => {
+            if (data) selectInquiry(data);
+            else setNotification({ type: 'error', message: error ? `Failed to open the inquiry: ${error.message}` : 'That inquiry no longer exists' });
+        });
+    }, [searchParams, loading]);
+
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 4000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
+    useEffect(() => {
+        if (selectedInquiry) {
+            loadActivities(selectedInquiry.id);
+            loadDuplicates(selectedInquiry);
+        } else {
+            setActivities([]);
+            setDuplicates([]);
+        }
+    }, [selectedInquiry?.id]);
 
     async function loadInquiries() {
         setLoading(true);
-        const { data } = await getWebsiteInquiries({ limit: 50 });
+        const { data } = await getWebsiteInquiries({
+            limit: 50,
+            status: statusFilter || undefined,
+            excludeSpam: !statusFilter,
+        });
         if (data) setInquiries(data);
         setLoading(false);
     }
 
-    const handleUpdateStatus = async (id: string, status: string) => {
-        await updateWebsiteInquiry(id, { status });
-        await loadInquiries();
+    async function loadDuplicates(inquiry: Inquiry) {
+        const { data } = await getRelatedInquiries(inquiry);
+        setDuplicates((data || []).filter((related) => !related.merged_into));
+    }
+
+    async function loadActivities(inquiryId: string) {
+        const { data } = await getInquiryActivities(inquiryId);
+        if (data) setActivities(data);
+    }
+
+    const selectInquiry = (inquiry: Inquiry) => {
+        setSelectedInquiry(inquiry);
+        setNewNote('');
+        setFollowUpDate(inquiry.follow_up_at ? toDateInputValue(inquiry.follow_up_at) : '');
+    };
+
+    const applyUpdate = async (id: string, updates: { status?: InquiryStatus; follow_up_at?: string | null }) => {
+        const previous = inquiries.find((i) => i.id === id);
+        // Apply locally first so a dragged card lands immediately
+        setInquiries((prev) => prev.map((i) => (i.id === id ? { ...i, ...updates } : i)));
         if (selectedInquiry?.id === id) {
-            setSelectedInquiry({ ...selectedInquiry, status: status as Inquiry['status'] });
+            setSelectedInquiry({ ...selectedInquiry, ...updates });
+        }
+
+        const { error } = await updateWebsiteInquiry(id, updates);
+        if (error) {
+            // Put the card and the open inquiry back the way they were
+            if (previous) setInquiries((prev) => prev.map((i) => (i.id === id ? previous : i)));
+            if (selectedInquiry?.id === id) {
+                setSelectedInquiry(selectedInquiry);
+                setFollowUpDate(selectedInquiry.follow_up_at ? toDateInputValue(selectedInquiry.follow_up_at) : '');
+            }
+            setNotification({ type: 'error', message: `Failed to update the inquiry: ${error.message}` });
+            return;
         }
+        await loadInquiries();
+        if (selectedInquiry?.id === id) await loadActivities(id);
     };
 
-    const handleSaveNotes = async () => {
+    const handleUpdateStatus = async (id: string, status: InquiryStatus) => {
+        await applyUpdate(id, { status });
+    };
+
+    const handleMerge = async (duplicate: Inquiry) => {
         if (!selectedInquiry) return;
-        await updateWebsiteInquiry(selectedInquiry.id, { admin_notes: notes });
+        if (!confirm(`Merge the ${formatDate(duplicate.created_at)} submission into this inquiry? It will be hidden from the list.`)) return;
+
+        setMerging(duplicate.id);
+        const { error } = await mergeWebsiteInquiries(selectedInquiry.id, duplicate);
+        setMerging(null);
+        if (error) {
+            setNotification({ type: 'error', message: `Merge failed: ${error.message}` });
+            return;
+        }
+        setNotification({ type: 'success', message: 'Inquiries merged' });
         await loadInquiries();
+        await loadActivities(selectedInquiry.id);
+        await loadDuplicates(selectedInquiry);
+    };
+
+    const handleDrop = async (status: InquiryStatus) => {
+        const inquiry = inquiries.find((i) => i.id === draggedId);
+        setDraggedId(null);
+        setDropTarget(null);
+        if (inquiry && inquiry.status !== status) {
+            await handleUpdateStatus(inquiry.id, status);
+        }
+    };
+
+    const handleSaveFollowUp = async () => {
+        if (!selectedInquiry) return;
+        const [year, month, day] = followUpDate.split('-').map(Number);
+        const followUpAt = followUpDate ? new Date(year, month - 1, day, FOLLOW_UP_HOUR).toISOString() : null;
+        await applyUpdate(selectedInquiry.id, { follow_up_at: followUpAt });
+    };
+
+    const handleClearFollowUp = async () => {
+        if (!selectedInquiry) return;
+        setFollowUpDate('');
+        await applyUpdate(selectedInquiry.id, { follow_up_at: null });
+    };
+
+    const handleAddNote = async () => {
+        if (!selectedInquiry || !newNote.trim()) return;
+        setSavingNote(true);
+        const { data } = await addInquiryNote(selectedInquiry.id, newNote.trim());
+        if (data) {
+            setActivities((prev) => [data, ...prev]);
+            setNewNote('');
+        }
+        setSavingNote(false);
+    };
+
+    const handleOpenCompose = async () => {
+        setReplyForm({ ...EMPTY_REPLY_FORM, subject: 'Re: Your inquiry' });
+        setShowReplyPreview(false);
+        setShowCompose(true);
+        if (templates.length === 0) {
+            const { data } = await getEmailTemplates();
+            // Ticket notification templates are sent automatically and don't fit inquiries
+            if (data) setTemplates(data.filter((template) => !template.is_system));
+        }
+    };
+
+    const templateValues = (inquiry: Inquiry) => ({
+        name: inquiry.name,
+        first_name: inquiry.name.split(' ')[0],
+        company: inquiry.company || '',
+        service_interest: inquiry.service_interest ? serviceLabels[inquiry.service_interest] || inquiry.service_interest : 'your project',
+        budget_range: inquiry.budget_range || '',
+    });
+
+    const handleSelectTemplate = (templateId: string) => {
+        const template = templates.find((t) => t.id === templateId);
+        if (!selectedInquiry || !template) {
+            setReplyForm({ ...replyForm, templateId: '' });
+            return;
+        }
+        const values = templateValues(selectedInquiry);
+        const htmlValues = Object.fromEntries(Object.entries(values).map(([key, value]) => [key, escapeHtml(value)]));
+        setReplyForm({
+            templateId,
+            subject: fillTemplate(template.subject, values),
+            body_html: fillTemplate(template.body_html, htmlValues),
+        });
+    };
+
+    const handleSendReply = async () => {
+        if (!selectedInquiry || !replyForm.subject.trim() || !replyForm.body_html.trim()) return;
+        setSendingReply(true);
+
+        const { data, error, logError } = await sendInquiryReply(selectedInquiry, {
+            subject: replyForm.subject.trim(),
+            html: replyForm.body_html,
+        });
+        if (error) {
+            setNotification({ type: 'error', message: `Failed to send reply: ${error.message}` });
+        } else {
+            if (data) setActivities((prev) => [data, ...prev]);
+            setNotification(
+                logError
+                    ? { type: 'error', message: `Reply sent to ${selectedInquiry.email}, but it could not be added to the history: ${logError.message}` }
+                    : { type: 'success', message: `Reply sent to ${selectedInquiry.email}` }
+            );
+            setShowCompose(false);
+            if (selectedInquiry.status === 'new') {
+                await handleUpdateStatus(selectedInquiry.id, 'contacted');
+            }
+        }
+        setSendingReply(false);
+    };
+
+    const handleOpenConvert = async () => {
+        if (!selectedInquiry) return;
+        setConvertForm({
+            plan_id: '',
+            end_date: toDateInputValueFromNow(30),
+            createProject: false,
+            project_title: `${selectedInquiry.company || selectedInquiry.name} ${selectedInquiry.service_interest ? serviceLabels[selectedInquiry.service_interest] || '' : ''}`.trim(),
+            service_type: selectedInquiry.service_interest && serviceLabels[selectedInquiry.service_interest]
+                ? selectedInquiry.service_interest
+                : 'custom',
+        });
+        setExistingUser(null);
+        setShowConvert(true);
+
+        const [userRes, plansRes] = await Promise.all([
+            findUserByEmail(selectedInquiry.email),
+            plans.length === 0 ? getSubscriptionPlans() : Promise.resolve({ data: plans }),
+        ]);
+        setExistingUser(userRes.data);
+        if (plansRes.data) setPlans(plansRes.data);
+    };
+
+    const handleConvert = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!selectedInquiry) return;
+        const plan = plans.find((p) => p.id === convertForm.plan_id) || null;
+
+        setConverting(true);
+        const { data, error } = await convertWebsiteInquiry(selectedInquiry, {
+            plan,
+            subscriptionEndDate: plan && convertForm.end_date ? new Date(convertForm.end_date).toISOString() : null,
+            project: convertForm.createProject && convertForm.project_title.trim()
+                ? { title: convertForm.project_title.trim(), service_type: convertForm.service_type }
+                : null,
+        });
+        setConverting(false);
+
+        if (error || !data) {
+            setNotification({ type: 'error', message: `Conversion failed: ${error?.message}` });
+            return;
+        }
+        setNotification({
+            type: 'success',
+            message: data.invited ? `Invited ${selectedInquiry.email} and converted the inquiry` : 'Inquiry converted to the existing customer',
+        });
+        setShowConvert(false);
+        setSelectedInquiry({
+            ...selectedInquiry,
+            status: 'completed',
+            converted_user_id: data.userId,
+            portfolio_project_id: data.projectId,
+            converted_at: new Date().toISOString(),
+        });
+        await loadInquiries();
+        await loadActivities(selectedInquiry.id);
     };
 
     const statusColors: Record<string, string> = {
@@ -53,6 +384,16 @@ export default function Inquiries() {
         contacted: 'badge-warning',
         in_progress: 'badge-accent',
         completed: 'badge-success',
+        spam: 'badge-danger',
+    };
+
+    const activityColors: Record<string, string> = {
+        note: 'bg-primary-400',
+        status_change: 'bg-accent-400',
+        follow_up: 'bg-yellow-400',
+        email: 'bg-green-400',
+        conversion: 'bg-green-400',
+        merge: 'bg-blue-400',
     };
 
     const serviceLabels: Record<string, string> = {
@@ -64,14 +405,60 @@ export default function Inquiries() {
 
     return (
         <div className="space-y-6">
-            <div>
-                <h1 className="text-2xl font-bold text-white">Website Inquiries</h1>
-                <p className="text-dark-400">Manage contact form submissions from stachbit.in</p>
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold text-white">Website Inquiries</h1>
+                    <p className="text-dark-400">Manage contact form submissions from stachbit.in</p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => {
+                            setStatusFilter(e.target.value as InquiryStatus | '');
+                            setSelectedInquiry(null);
+                        }}
+                        className="select w-44"
+                    >
+                        <option value="">All (excluding spam)</option>
+                        {INQUIRY_STATUSES.map((status) => (
+                            <option key={status} value={status}>{status.replace('_', ' ')}</option>
+                        ))}
+                        <option value="spam">Spam</option>
+                    </select>
+                    <div className="flex gap-1 bg-dark-800 rounded-lg p-1">
+                        <button
+                            onClick={() => setView('list')}
+                            className={`p-2 rounded-md ${view === 'list' ? 'bg-dark-600 text-white' : 'text-dark-400 hover:text-white'}`}
+                            title="List view"
+                        >
+                            <List className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => setView('board')}
+                            className={`p-2 rounded-md ${view === 'board' ? 'bg-dark-600 text-white' : 'text-dark-400 hover:text-white'}`}
+                            title="Board view"
+                        >
+                            <LayoutGrid className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
             </div>
 
+            {notification && (
+                <div
+                    className={`flex items-center gap-2 p-4 rounded-xl ${notification.type === 'success'
+                        ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+                        : 'bg-red-500/20 text-red-400 border border-red-500/30'
+                        }`}
+                >
+                    {notification.type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertTriangle className="w-5 h-5" />}
+                    {notification.message}
+                </div>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* Inquiries List */}
-                <div className="lg:col-span-2 card overflow-hidden">
+                <div className={`lg:col-span-2 ${view === 'list' ? 'card overflow-hidden' : ''}`}>
                     {loading ? (
                         <div className="p-8 text-center">
                             <div className="spinner text-primary-400 mx-auto mb-4" />
@@ -83,6 +470,59 @@ export default function Inquiries() {
                             <h3 className="text-xl font-semibold text-white mb-2">No inquiries yet</h3>
                             <p className="text-dark-400">Contact form submissions will appear here</p>
                         </div>
+                    ) : view === 'board' ? (
+                        <div className="grid grid-cols-2 xl:grid-cols-4 gap-4">
+                            {(statusFilter === 'spam' ? ['spam' as const] : INQUIRY_STATUSES).map((status) => {
+                                const column = inquiries.filter((i) => i.status === status);
+                                return (
+                                    <div
+                                        key={status}
+                                        onDragOver={(e) => {
+                                            e.preventDefault();
+                                            setDropTarget(status);
+                                        }}
+                                        onDragLeave={() => setDropTarget(null)}
+                                        onDrop={() => handleDrop(status)}
+                                        className={`card p-3 min-h-[300px] transition-colors ${dropTarget === status ? 'border-primary-500 bg-primary-500/5' : ''}`}
+                                    >
+                                        <div className="flex items-center justify-between mb-3">
+                                            <span className={`badge ${statusColors[status]}`}>{status.replace('_', ' ')}</span>
+                                            <span className="text-dark-500 text-sm">{column.length}</span>
+                                        </div>
+                                        <div className="space-y-2">
+                                            {column.map((inquiry) => (
+                                                <div
+                                                    key={inquiry.id}
+                                                    draggable
+                                                    onDragStart={() => setDraggedId(inquiry.id)}
+                                                    onDragEnd={() => {
+                                                        setDraggedId(null);
+                                                        setDropTarget(null);
+                                                    }}
+                                                    onClick={() => selectInquiry(inquiry)}
+                                                    className={`p-3 rounded-lg bg-dark-800/70 border cursor-grab active:cursor-grabbing transition-all ${selectedInquiry?.id === inquiry.id ? 'border-primary-500' : 'border-dark-700 hover:border-dark-500'
+                                                        } ${draggedId === inquiry.id ? 'opacity-50' : ''}`}
+                                                >
+                                                    <p className="text-white text-sm font-medium truncate">{inquiry.name}</p>
+                                                    <p className="text-dark-500 text-xs truncate">
+                                                        {inquiry.service_interest ? serviceLabels[inquiry.service_interest] : 'General'}
+                                                    </p>
+                                                    <div className="flex items-center justify-between mt-2 text-xs">
+                                                        <span className="text-dark-500">{formatRelativeTime(inquiry.created_at)}</span>
+                                                        {inquiry.follow_up_at && inquiry.status !== 'completed' && (
+                                                            <span className={`flex items-center gap-1 ${isFollowUpDue(inquiry) ? 'text-red-400' : 'text-dark-400'}`}>
+                                                                <Bell className="w-3 h-3" />
+                                                                {formatDate(inquiry.follow_up_at, { month: 'short', day: 'numeric' })}
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
                     ) : (
                         <div className="overflow-x-auto">
                             <table className="table">
@@ -100,10 +540,7 @@ export default function Inquiries() {
                                         <tr
                                             key={inquiry.id}
                                             className={`cursor-pointer ${selectedInquiry?.id === inquiry.id ? 'bg-dark-800/50' : ''}`}
-                                            onClick={() => {
-                                                setSelectedInquiry(inquiry);
-                                                setNotes(inquiry.admin_notes || '');
-                                            }}
+                                            onClick={() => selectInquiry(inquiry)}
                                         >
                                             <td>
                                                 <div>
@@ -120,16 +557,27 @@ export default function Inquiries() {
                                                 <span className={`badge ${statusColors[inquiry.status]}`}>
                                                     {inquiry.status.replace('_', ' ')}
                                                 </span>
+                                                {inquiry.status !== 'spam' && (inquiry.spam_score || 0) >= INQUIRY_SPAM_THRESHOLD && (
+                                                    <span className="flex items-center gap-1 text-red-400 text-xs mt-1">
+                                                        <ShieldAlert className="w-3 h-3" />
+                                                        Likely spam
+                                                    </span>
+                                                )}
                                             </td>
                                             <td className="text-dark-400 text-sm">
                                                 {formatRelativeTime(inquiry.created_at)}
+                                                {isFollowUpDue(inquiry) && (
+                                                    <span className="flex items-center gap-1 text-red-400 text-xs mt-1">
+                                                        <Bell className="w-3 h-3" />
+                                                        Follow-up due
+                                                    </span>
+                                                )}
                                             </td>
                                             <td>
                                                 <button
                                                     onClick={(e) => {
                                                         e.stopPropagation();
-                                                        setSelectedInquiry(inquiry);
-                                                        setNotes(inquiry.admin_notes || '');
+                                                        selectInquiry(inquiry);
                                                     }}
                                                     className="p-2 hover:bg-dark-700 rounded-lg"
                                                 >
@@ -177,8 +625,40 @@ export default function Inquiries() {
                                         <span className="text-white">{selectedInquiry.company}</span>
                                     </div>
                                 )}
+                                <div className="flex gap-2">
+                                    <button onClick={handleOpenCompose} className="btn-primary btn-sm flex-1">
+                                        <Send className="w-4 h-4" />
+                                        Reply by Email
+                                    </button>
+                                    {!selectedInquiry.converted_user_id && (
+                                        <button onClick={handleOpenConvert} className="btn-secondary btn-sm flex-1">
+                                            <UserPlus className="w-4 h-4" />
+                                            Convert
+                                        </button>
+                                    )}
+                                </div>
                             </div>
 
+                            {/* Conversion Links */}
+                            {selectedInquiry.converted_user_id && (
+                                <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-3 space-y-2">
+                                    <p className="text-green-400 text-sm font-medium flex items-center gap-2">
+                                        <CheckCircle className="w-4 h-4" />
+                                        Converted {selectedInquiry.converted_at && formatDate(selectedInquiry.converted_at)}
+                                    </p>
+                                    <Link to={`/users/${selectedInquiry.converted_user_id}`} className="flex items-center gap-2 text-primary-400 text-sm hover:underline">
+                                        <UserPlus className="w-4 h-4" />
+                                        View customer account
+                                    </Link>
+                                    {selectedInquiry.portfolio_project_id && (
+                                        <Link to="/portfolio" className="flex items-center gap-2 text-primary-400 text-sm hover:underline">
+                                            <FolderKanban className="w-4 h-4" />
+                                            View portfolio draft
+                                        </Link>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Service & Budget */}
                             <div className="grid grid-cols-2 gap-4">
                                 <div className="bg-dark-800/50 rounded-lg p-3">
@@ -203,11 +683,63 @@ export default function Inquiries() {
                                 </p>
                             </div>
 
+                            {/* Spam Check */}
+                            {(selectedInquiry.status === 'spam' || (selectedInquiry.spam_reasons?.length || 0) > 0) && (
+                                <div className={`rounded-lg p-3 border ${selectedInquiry.status === 'spam' ? 'bg-red-500/10 border-red-500/30' : 'bg-dark-800/50 border-dark-700'}`}>
+                                    <div className="flex items-center justify-between mb-2">
+                                        <p className={`text-sm font-medium flex items-center gap-2 ${selectedInquiry.status === 'spam' ? 'text-red-400' : 'text-dark-300'}`}>
+                                            <ShieldAlert className="w-4 h-4" />
+                                            Spam score {selectedInquiry.spam_score ?? 0}
+                                        </p>
+                                        {selectedInquiry.status === 'spam' ? (
+                                            <button onClick={() => handleUpdateStatus(selectedInquiry.id, 'new')} className="btn-ghost btn-sm">
+                                                Not spam
+                                            </button>
+                                        ) : (
+                                            <button onClick={() => handleUpdateStatus(selectedInquiry.id, 'spam')} className="btn-ghost btn-sm">
+                                                Mark as spam
+                                            </button>
+                                        )}
+                                    </div>
+                                    <ul className="text-dark-400 text-xs space-y-1 list-disc list-inside">
+                                        {selectedInquiry.spam_reasons?.map((reason) => <li key={reason}>{reason}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+
+                            {/* Possible Duplicates */}
+                            {duplicates.length > 0 && (
+                                <div>
+                                    <p className="text-dark-400 text-sm mb-2 flex items-center gap-2">
+                                        <GitMerge className="w-4 h-4" /> Other submissions from this contact
+                                    </p>
+                                    <div className="space-y-2">
+                                        {duplicates.map((duplicate) => (
+                                            <div key={duplicate.id} className="flex items-center gap-3 bg-dark-800/50 rounded-lg p-3">
+                                                <div className="flex-1 min-w-0">
+                                                    <p className="text-dark-300 text-sm truncate">{duplicate.message}</p>
+                                                    <p className="text-dark-500 text-xs">
+                                                        {formatRelativeTime(duplicate.created_at)} · {duplicate.status.replace('_', ' ')}
+                                                    </p>
+                                                </div>
+                                                <button
+                                                    onClick={() => handleMerge(duplicate)}
+                                                    disabled={merging === duplicate.id}
+                                                    className="btn-secondary btn-sm"
+                                                >
+                                                    Merge
+                                                </button>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Status Update */}
                             <div>
                                 <p className="text-dark-400 text-sm mb-2">Update Status</p>
                                 <div className="grid grid-cols-2 gap-2">
-                                    {['new', 'contacted', 'in_progress', 'completed'].map((status) => (
+                                    {INQUIRY_STATUSES.map((status) => (
                                         <button
                                             key={status}
                                             onClick={() => handleUpdateStatus(selectedInquiry.id, status)}
@@ -222,19 +754,82 @@ export default function Inquiries() {
                                 </div>
                             </div>
 
-                            {/* Admin Notes */}
+                            {/* Follow-up Reminder */}
+                            <div>
+                                <p className="text-dark-400 text-sm mb-2 flex items-center gap-2">
+                                    <Bell className="w-4 h-4" /> Follow-up Reminder
+                                    {isFollowUpDue(selectedInquiry) && <span className="badge badge-danger text-xs">Due</span>}
+                                </p>
+                                <div className="flex gap-2">
+                                    <input
+                                        type="date"
+                                        value={followUpDate}
+                                        onChange={(e) => setFollowUpDate(e.target.value)}
+                                        className="input flex-1"
+                                    />
+                                    <button
+                                        onClick={handleSaveFollowUp}
+                                        disabled={!followUpDate}
+                                        className="btn-secondary btn-sm"
+                                    >
+                                        Set
+                                    </button>
+                                    {selectedInquiry.follow_up_at && (
+                                        <button onClick={handleClearFollowUp} className="btn-ghost btn-sm">
+                                            Clear
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+
+                            {/* Activity History */}
                             <div>
-                                <p className="text-dark-400 text-sm mb-2">Admin Notes</p>
+                                <p className="text-dark-400 text-sm mb-2 flex items-center gap-2">
+                                    <History className="w-4 h-4" /> Activity
+                                </p>
                                 <textarea
-                                    value={notes}
-                                    onChange={(e) => setNotes(e.target.value)}
+                                    value={newNote}
+                                    onChange={(e) => setNewNote(e.target.value)}
                                     className="input resize-none"
-                                    rows={3}
-                                    placeholder="Add internal notes..."
+                                    rows={2}
+                                    placeholder="Add a note..."
                                 />
-                                <button onClick={handleSaveNotes} className="btn-secondary btn-sm mt-2 w-full">
-                                    Save Notes
+                                <button
+                                    onClick={handleAddNote}
+                                    disabled={!newNote.trim() || savingNote}
+                                    className="btn-secondary btn-sm mt-2 w-full"
+                                >
+                                    {savingNote ? 'Saving...' : 'Add Note'}
                                 </button>
+
+                                <div className="mt-4 space-y-3 max-h-72 overflow-y-auto">
+                                    {activities.map((activity) => (
+                                        <div key={activity.id} className="flex gap-3">
+                                            <span className={`w-2 h-2 rounded-full mt-1.5 flex-shrink-0 ${activityColors[activity.type]}`} />
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-dark-300 text-sm whitespace-pre-wrap">{activity.message}</p>
+                                                <p className="text-dark-500 text-xs">
+                                                    {activity.user_profiles?.full_name || activity.user_profiles?.email || 'Admin'}
+                                                    {' · '}
+                                                    {formatRelativeTime(activity.created_at)}
+                                                </p>
+                                            </div>
+                                        </div>
+                                    ))}
+                                    {/* Notes saved before the activity history existed */}
+                                    {selectedInquiry.admin_notes && (
+                                        <div className="flex gap-3">
+                                            <span className="w-2 h-2 rounded-full mt-1.5 flex-shrink-0 bg-dark-500" />
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-dark-300 text-sm whitespace-pre-wrap">{selectedInquiry.admin_notes}</p>
+                                                <p className="text-dark-500 text-xs">Earlier notes</p>
+                                            </div>
+                                        </div>
+                                    )}
+                                    {activities.length === 0 && !selectedInquiry.admin_notes && (
+                                        <p className="text-dark-500 text-sm text-center py-2">No activity yet</p>
+                                    )}
+                                </div>
                             </div>
 
                             <p className="text-dark-500 text-xs text-center">
@@ -249,6 +844,187 @@ export default function Inquiries() {
                     )}
                 </div>
             </div>
+
+            {/* Convert Modal */}
+            {showConvert && selectedInquiry && (
+                <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 overflow-y-auto">
+                    <div className="glass-card p-6 w-full max-w-lg my-8">
+                        <div className="flex items-center justify-between mb-6">
+                            <h2 className="text-xl font-bold text-white">Convert {selectedInquiry.name}</h2>
+                            <button onClick={() => setShowConvert(false)} className="p-1 hover:bg-dark-700 rounded">
+                                <X className="w-5 h-5 text-dark-400" />
+                            </button>
+                        </div>
+                        <form onSubmit={handleConvert} className="space-y-4">
+                            <div className="bg-dark-800/50 rounded-lg p-3 text-sm">
+                                {existingUser ? (
+                                    <p className="text-dark-300">
+                                        <span className="text-white font-medium">{existingUser.email}</span> already has an account
+                                        ({existingUser.subscription_tier.replace('_', ' ')}). The inquiry will be linked to it.
+                                    </p>
+                                ) : (
+                                    <p className="text-dark-300">
+                                        An invite will be sent to <span className="text-white font-medium">{selectedInquiry.email}</span> to
+                                        set up their account.
+                                    </p>
+                                )}
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="label">Subscription</label>
+                                    <select
+                                        value={convertForm.plan_id}
+                                        onChange={(e) => setConvertForm({ ...convertForm, plan_id: e.target.value })}
+                                        className="select"
+                                    >
+                                        <option value="">No plan</option>
+                                        {plans.map((plan) => (
+                                            <option key={plan.id} value={plan.id}>{plan.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="label">Ends</label>
+                                    <input
+                                        type="date"
+                                        value={convertForm.end_date}
+                                        onChange={(e) => setConvertForm({ ...convertForm, end_date: e.target.value })}
+                                        disabled={!convertForm.plan_id}
+                                        className="input"
+                                    />
+                                </div>
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-dark-300 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={convertForm.createProject}
+                                    onChange={(e) => setConvertForm({ ...convertForm, createProject: e.target.checked })}
+                                    className="w-4 h-4 rounded"
+                                />
+                                <FolderKanban className="w-4 h-4" />
+                                Draft a portfolio project
+                            </label>
+                            {convertForm.createProject && (
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="label">Project Title</label>
+                                        <input
+                                            type="text"
+                                            value={convertForm.project_title}
+                                            onChange={(e) => setConvertForm({ ...convertForm, project_title: e.target.value })}
+                                            className="input"
+                                            required
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="label">Service Type</label>
+                                        <select
+                                            value={convertForm.service_type}
+                                            onChange={(e) => setConvertForm({ ...convertForm, service_type: e.target.value })}
+                                            className="select"
+                                        >
+                                            {Object.entries(serviceLabels).map(([value, label]) => (
+                                                <option key={value} value={value}>{label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+                            )}
+                            <div className="flex gap-3 pt-2">
+                                <button type="button" onClick={() => setShowConvert(false)} className="btn-secondary flex-1">
+                                    Cancel
+                                </button>
+                                <button type="submit" disabled={converting} className="btn-primary flex-1">
+                                    {converting ? <div className="spinner" /> : <UserPlus className="w-4 h-4" />}
+                                    Convert
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* Compose Reply Modal */}
+            {showCompose && selectedInquiry && (
+                <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 overflow-y-auto">
+                    <div className="glass-card p-6 w-full max-w-2xl my-8">
+                        <div className="flex items-center justify-between mb-6">
+                            <div>
+                                <h2 className="text-xl font-bold text-white">Reply to {selectedInquiry.name}</h2>
+                                <p className="text-dark-400 text-sm">{selectedInquiry.email}</p>
+                            </div>
+                            <button onClick={() => setShowCompose(false)} className="p-1 hover:bg-dark-700 rounded">
+                                <X className="w-5 h-5 text-dark-400" />
+                            </button>
+                        </div>
+                        <div className="space-y-4">
+                            <div>
+                                <label className="label">Template</label>
+                                <select
+                                    value={replyForm.templateId}
+                                    onChange={(e) => handleSelectTemplate(e.target.value)}
+                                    className="select"
+                                >
+                                    <option value="">Blank message</option>
+                                    {templates.map((template) => (
+                                        <option key={template.id} value={template.id}>{template.name}</option>
+                                    ))}
+                                </select>
+                                <p className="text-dark-500 text-xs mt-1">
+                                    Fills {INQUIRY_TEMPLATE_VARIABLES.map((variable) => `{{${variable}}}`).join(', ')} from this inquiry
+                                </p>
+                            </div>
+                            <div>
+                                <label className="label">Subject</label>
+                                <input
+                                    type="text"
+                                    value={replyForm.subject}
+                                    onChange={(e) => setReplyForm({ ...replyForm, subject: e.target.value })}
+                                    className="input"
+                                />
+                            </div>
+                            <div>
+                                <div className="flex items-center justify-between mb-1">
+                                    <label className="label mb-0">Message (HTML)</label>
+                                    <button
+                                        onClick={() => setShowReplyPreview(!showReplyPreview)}
+                                        className="btn-ghost btn-sm"
+                                    >
+                                        <Eye className="w-4 h-4" />
+                                        {showReplyPreview ? 'Edit' : 'Preview'}
+                                    </button>
+                                </div>
+                                {showReplyPreview ? (
+                                    <div className="bg-white rounded-lg p-4 max-h-96 overflow-y-auto">
+                                        <div dangerouslySetInnerHTML={{ __html: replyForm.body_html }} />
+                                    </div>
+                                ) : (
+                                    <textarea
+                                        value={replyForm.body_html}
+                                        onChange={(e) => setReplyForm({ ...replyForm, body_html: e.target.value })}
+                                        className="input font-mono text-sm resize-none"
+                                        rows={10}
+                                        placeholder="<p>Hi there,</p>"
+                                    />
+                                )}
+                            </div>
+                            <div className="flex gap-3 pt-2">
+                                <button onClick={() => setShowCompose(false)} className="btn-secondary flex-1">
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleSendReply}
+                                    disabled={sendingReply || !replyForm.subject.trim() || !replyForm.body_html.trim()}
+                                    className="btn-primary flex-1"
+                                >
+                                    {sendingReply ? <div className="spinner" /> : <Send className="w-4 h-4" />}
+                                    Send Reply
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
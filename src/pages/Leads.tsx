@@ -0,0 +1,579 @@
+import { useState, useEffect } from 'react';
+import {
+    Target,
+    Search,
+    X,
+    Globe,
+    Mail,
+    Phone,
+    MapPin,
+    Star,
+    ShieldCheck,
+    ShieldOff,
+    Smartphone,
+    Gauge,
+    Clock,
+    Facebook,
+    Instagram,
+    Linkedin,
+    MessageCircle,
+    ExternalLink,
+    ChevronLeft,
+    ChevronRight,
+    History,
+} from 'lucide-react';
+import { getLeads, getLeadSearches, type UserSummary } from '../lib/supabase';
+import { formatDate, formatRelativeTime, getStatusBadgeClass } from '../lib/utils';
+import type { Lead, LeadSearch, LeadStatus, WebsiteScore } from '../lib/database.types';
+
+type LeadRow = Lead & { user_profiles: UserSummary };
+type SearchRow = LeadSearch & { user_profiles: UserSummary };
+
+const LEADS_PER_PAGE = 20;
+const SEARCHES_PER_PAGE = 20;
+
+const LEAD_STATUSES: LeadStatus[] = ['new', 'contacted', 'responded', 'converted', 'rejected'];
+const WEBSITE_SCORES: WebsiteScore[] = ['good', 'average', 'poor', 'no_website'];
+
+const websiteScoreColors: Record<WebsiteScore, string> = {
+    good: 'badge-success',
+    average: 'badge-warning',
+    poor: 'badge-danger',
+    no_website: 'bg-dark-700 text-dark-300 border border-dark-600',
+};
+
+export default function Leads() {
+    const [tab, setTab] = useState<'leads' | 'searches'>('leads');
+
+    // Leads tab
+    const [leads, setLeads] = useState<LeadRow[]>([]);
+    const [leadsLoading, setLeadsLoading] = useState(true);
+    const [leadsPage, setLeadsPage] = useState(1);
+    const [leadsCount, setLeadsCount] = useState(0);
+    const [searchInput, setSearchInput] = useState('');
+    const [searchQuery, setSearchQuery] = useState('');
+    const [statusFilter, setStatusFilter] = useState<LeadStatus | ''>('');
+    const [scoreFilter, setScoreFilter] = useState<WebsiteScore | ''>('');
+    const [selectedLead, setSelectedLead] = useState<LeadRow | null>(null);
+
+    // Searches tab
+    const [searches, setSearches] = useState<SearchRow[]>([]);
+    const [searchesLoading, setSearchesLoading] = useState(true);
+    const [searchesPage, setSearchesPage] = useState(1);
+    const [searchesCount, setSearchesCount] = useState(0);
+    const [searchesQuery, setSearchesQuery] = useState('');
+    const [selectedSearch, setSelectedSearch] = useState<SearchRow | null>(null);
+    const [searchLeads, setSearchLeads] = useState<LeadRow[]>([]);
+    const [searchLeadsLoading, setSearchLeadsLoading] = useState(false);
+
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setSearchQuery(searchInput.trim());
+            setLeadsPage(1);
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [searchInput]);
+
+    useEffect(() => {
+        loadLeads();
+    }, [leadsPage, searchQuery, statusFilter, scoreFilter]);
+
+    useEffect(() => {
+        if (tab === 'searches') loadSearches();
+    }, [tab, searchesPage]);
+
+    async function loadLeads() {
+        setLeadsLoading(true);
+        const { data, count } = await getLeads({
+            search: searchQuery || undefined,
+            status: statusFilter || undefined,
+            websiteScore: scoreFilter || undefined,
+            limit: LEADS_PER_PAGE,
+            offset: (leadsPage - 1) * LEADS_PER_PAGE,
+        });
+        if (data) setLeads(data);
+        if (count !== null) setLeadsCount(count);
+        setLeadsLoading(false);
+    }
+
+    async function loadSearches() {
+        setSearchesLoading(true);
+        const { data, count } = await getLeadSearches({
+            search: searchesQuery || undefined,
+            limit: SEARCHES_PER_PAGE,
+            offset: (searchesPage - 1) * SEARCHES_PER_PAGE,
+        });
+        if (data) setSearches(data);
+        if (count !== null) setSearchesCount(count);
+        setSearchesLoading(false);
+    }
+
+    const handleSelectSearch = async (search: SearchRow) => {
+        setSelectedSearch(search);
+        setSearchLeadsLoading(true);
+        const { data } = await getLeads({ searchId: search.id, limit: 200 });
+        setSearchLeads(data || []);
+        setSearchLeadsLoading(false);
+    };
+
+    const handleSearchesSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (searchesPage === 1) loadSearches();
+        else setSearchesPage(1);
+    };
+
+    const leadsTotalPages = Math.ceil(leadsCount / LEADS_PER_PAGE);
+    const searchesTotalPages = Math.ceil(searchesCount / SEARCHES_PER_PAGE);
+
+    const formatLocation = (item: { city: string | null; state: string | null; country: string | null }) =>
+        [item.city, item.state, item.country].filter(Boolean).join(', ') || '—';
+
+    const formatBool = (value: boolean | null) => (value === null ? 'Unknown' : value ? 'Yes' : 'No');
+
+    const renderPagination = (page: number, totalPages: number, count: number, setPage: (update: (p: number) => number) => void) =>
+        totalPages > 1 && (
+            <div className="p-4 border-t border-dark-700 flex items-center justify-between">
+                <p className="text-dark-400 text-sm">
+                    Page {page} of {totalPages} ({count} total)
+                </p>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => setPage((p) => Math.max(1, p - 1))}
+                        disabled={page === 1}
+                        className="btn-ghost btn-sm"
+                    >
+                        <ChevronLeft className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                        disabled={page === totalPages}
+                        className="btn-ghost btn-sm"
+                    >
+                        <ChevronRight className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+        );
+
+    const renderLeadRows = (rows: LeadRow[], showOwner: boolean) => (
+        <table className="table">
+            <thead>
+                <tr>
+                    <th>Business</th>
+                    {showOwner && <th>Customer</th>}
+                    <th>Location</th>
+                    <th>Website</th>
+                    <th>Rating</th>
+                    <th>Status</th>
+                    <th>Saved</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map((lead) => (
+                    <tr key={lead.id} className="cursor-pointer" onClick={() => setSelectedLead(lead)}>
+                        <td>
+                            <p className="text-white font-medium">{lead.business_name}</p>
+                            <p className="text-dark-500 text-sm">{lead.business_type || '—'}</p>
+                        </td>
+                        {showOwner && (
+                            <td>
+                                <p className="text-white text-sm">{lead.user_profiles?.full_name || 'Unknown'}</p>
+                                <p className="text-dark-500 text-xs">{lead.user_profiles?.email || lead.user_id}</p>
+                            </td>
+                        )}
+                        <td className="text-dark-400 text-sm">{formatLocation(lead)}</td>
+                        <td>
+                            <span className={`badge ${websiteScoreColors[lead.website_score]}`}>
+                                {lead.website_score.replace('_', ' ')}
+                            </span>
+                        </td>
+                        <td className="text-dark-400 text-sm">
+                            {lead.google_rating !== null ? (
+                                <span className="flex items-center gap-1">
+                                    <Star className="w-3 h-3 text-yellow-400" />
+                                    {lead.google_rating} ({lead.review_count})
+                                </span>
+                            ) : (
+                                '—'
+                            )}
+                        </td>
+                        <td>
+                            <span className={`badge ${getStatusBadgeClass(lead.status)}`}>{lead.status}</span>
+                        </td>
+                        <td className="text-dark-400 text-sm">{formatRelativeTime(lead.created_at)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+
+    const detailRow = (label: string, value: React.ReactNode) => (
+        <div className="flex justify-between gap-4 py-2 border-b border-dark-700/50 text-sm">
+            <span className="text-dark-400">{label}</span>
+            <span className="text-white text-right break-all">{value ?? '—'}</span>
+        </div>
+    );
+
+    const externalLink = (url: string | null, label: string, Icon: typeof Globe) =>
+        url && (
+            <a
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-2 text-primary-400 hover:underline text-sm"
+            >
+                <Icon className="w-4 h-4" />
+                {label}
+                <ExternalLink className="w-3 h-3" />
+            </a>
+        );
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-2xl font-bold text-white">Leads Explorer</h1>
+                <p className="text-dark-400">Inspect leads and searches across all customers</p>
+            </div>
+
+            {/* Tabs */}
+            <div className="flex gap-2">
+                <button
+                    onClick={() => setTab('leads')}
+                    className={tab === 'leads' ? 'btn-primary btn-sm' : 'btn-secondary btn-sm'}
+                >
+                    <Target className="w-4 h-4" />
+                    Leads
+                </button>
+                <button
+                    onClick={() => setTab('searches')}
+                    className={tab === 'searches' ? 'btn-primary btn-sm' : 'btn-secondary btn-sm'}
+                >
+                    <History className="w-4 h-4" />
+                    Searches
+                </button>
+            </div>
+
+            {tab === 'leads' ? (
+                <>
+                    {/* Filters */}
+                    <div className="card p-4 grid grid-cols-1 md:grid-cols-4 gap-3">
+                        <div className="relative md:col-span-2">
+                            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-dark-400" />
+                            <input
+                                type="text"
+                                value={searchInput}
+                                onChange={(e) => setSearchInput(e.target.value)}
+                                placeholder="Search business, email, phone, city..."
+                                className="input pl-12"
+                            />
+                        </div>
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => {
+                                setStatusFilter(e.target.value as LeadStatus | '');
+                                setLeadsPage(1);
+                            }}
+                            className="select"
+                        >
+                            <option value="">All statuses</option>
+                            {LEAD_STATUSES.map((status) => (
+                                <option key={status} value={status}>{status}</option>
+                            ))}
+                        </select>
+                        <select
+                            value={scoreFilter}
+                            onChange={(e) => {
+                                setScoreFilter(e.target.value as WebsiteScore | '');
+                                setLeadsPage(1);
+                            }}
+                            className="select"
+                        >
+                            <option value="">All website scores</option>
+                            {WEBSITE_SCORES.map((score) => (
+                                <option key={score} value={score}>{score.replace('_', ' ')}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Leads Table */}
+                    <div className="card overflow-hidden">
+                        {leadsLoading ? (
+                            <div className="p-8 text-center">
+                                <div className="spinner text-primary-400 mx-auto mb-4" />
+                                <p className="text-dark-400">Loading leads...</p>
+                            </div>
+                        ) : leads.length === 0 ? (
+                            <div className="p-12 text-center">
+                                <Target className="w-16 h-16 text-dark-600 mx-auto mb-4" />
+                                <h3 className="text-xl font-semibold text-white mb-2">No leads found</h3>
+                                <p className="text-dark-400">Try a different search or filter</p>
+                            </div>
+                        ) : (
+                            <div className="overflow-x-auto">{renderLeadRows(leads, true)}</div>
+                        )}
+                        {renderPagination(leadsPage, leadsTotalPages, leadsCount, setLeadsPage)}
+                    </div>
+                </>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    {/* Searches List */}
+                    <div className="lg:col-span-1 card overflow-hidden">
+                        <form onSubmit={handleSearchesSubmit} className="p-4 border-b border-dark-700">
+                            <div className="relative">
+                                <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-dark-400" />
+                                <input
+                                    type="text"
+                                    value={searchesQuery}
+                                    onChange={(e) => setSearchesQuery(e.target.value)}
+                                    placeholder="Business type, city... (Enter)"
+                                    className="input pl-12"
+                                />
+                            </div>
+                        </form>
+                        {searchesLoading ? (
+                            <div className="p-8 text-center">
+                                <div className="spinner text-primary-400 mx-auto" />
+                            </div>
+                        ) : searches.length === 0 ? (
+                            <div className="p-8 text-center">
+                                <History className="w-12 h-12 text-dark-600 mx-auto mb-2" />
+                                <p className="text-dark-400">No searches found</p>
+                            </div>
+                        ) : (
+                            <div className="divide-y divide-dark-700 max-h-[600px] overflow-y-auto">
+                                {searches.map((search) => (
+                                    <button
+                                        key={search.id}
+                                        onClick={() => handleSelectSearch(search)}
+                                        className={`w-full p-4 text-left hover:bg-dark-800/50 transition-colors ${selectedSearch?.id === search.id ? 'bg-dark-800/50' : ''}`}
+                                    >
+                                        <div className="flex items-start justify-between mb-1">
+                                            <h3 className="font-medium text-white truncate flex-1">
+                                                {search.search_name || search.business_type}
+                                            </h3>
+                                            <span className={`badge text-xs ${getStatusBadgeClass(search.status)}`}>
+                                                {search.status}
+                                            </span>
+                                        </div>
+                                        <p className="text-dark-400 text-sm truncate">
+                                            {search.user_profiles?.email || search.user_id}
+                                        </p>
+                                        <p className="text-dark-500 text-xs">
+                                            {search.results_count} results · {formatRelativeTime(search.created_at)}
+                                        </p>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        {renderPagination(searchesPage, searchesTotalPages, searchesCount, setSearchesPage)}
+                    </div>
+
+                    {/* Search Detail */}
+                    <div className="lg:col-span-2 card overflow-hidden">
+                        {selectedSearch ? (
+                            <>
+                                <div className="p-4 border-b border-dark-700 space-y-3">
+                                    <div>
+                                        <h2 className="font-semibold text-white">
+                                            {selectedSearch.search_name || selectedSearch.business_type}
+                                        </h2>
+                                        <p className="text-dark-400 text-sm">
+                                            By {selectedSearch.user_profiles?.full_name || 'Unknown'} ({selectedSearch.user_profiles?.email || selectedSearch.user_id}) on {formatDate(selectedSearch.created_at)}
+                                        </p>
+                                    </div>
+                                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                                        <div className="bg-dark-800/50 rounded-lg p-3">
+                                            <p className="text-dark-500 text-xs">Business Type</p>
+                                            <p className="text-white">{selectedSearch.business_type}</p>
+                                        </div>
+                                        <div className="bg-dark-800/50 rounded-lg p-3">
+                                            <p className="text-dark-500 text-xs">Location</p>
+                                            <p className="text-white">
+                                                {[selectedSearch.area, selectedSearch.city, selectedSearch.state, selectedSearch.country].filter(Boolean).join(', ')}
+                                            </p>
+                                        </div>
+                                        <div className="bg-dark-800/50 rounded-lg p-3">
+                                            <p className="text-dark-500 text-xs">Radius</p>
+                                            <p className="text-white">{selectedSearch.radius_km} km</p>
+                                        </div>
+                                        <div className="bg-dark-800/50 rounded-lg p-3">
+                                            <p className="text-dark-500 text-xs">Results Reported</p>
+                                            <p className="text-white">{selectedSearch.results_count}</p>
+                                        </div>
+                                    </div>
+                                    {selectedSearch.client_need && (
+                                        <p className="text-dark-300 text-sm">
+                                            <span className="text-dark-500">Client need:</span> {selectedSearch.client_need}
+                                        </p>
+                                    )}
+                                    {Object.keys(selectedSearch.search_query || {}).length > 0 && (
+                                        <pre className="text-xs bg-dark-900 rounded-lg p-3 text-dark-300 overflow-x-auto">
+                                            {JSON.stringify(selectedSearch.search_query, null, 2)}
+                                        </pre>
+                                    )}
+                                </div>
+                                {searchLeadsLoading ? (
+                                    <div className="p-8 text-center">
+                                        <div className="spinner text-primary-400 mx-auto" />
+                                    </div>
+                                ) : searchLeads.length === 0 ? (
+                                    <div className="p-8 text-center text-dark-400">No leads saved from this search</div>
+                                ) : (
+                                    <div className="overflow-x-auto">{renderLeadRows(searchLeads, false)}</div>
+                                )}
+                            </>
+                        ) : (
+                            <div className="flex items-center justify-center min-h-[400px]">
+                                <div className="text-center">
+                                    <History className="w-16 h-16 text-dark-600 mx-auto mb-4" />
+                                    <p className="text-dark-400">Select a search to see its leads</p>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            {/* Lead Detail Drawer */}
+            {selectedLead && (
+                <div className="fixed inset-0 bg-black/70 z-50 flex justify-end" onClick={() => setSelectedLead(null)}>
+                    <div
+                        className="glass-card rounded-none rounded-l-2xl w-full max-w-xl h-full overflow-y-auto p-6 space-y-6"
+                        onClick={(e) => e.stopPropagation()}
+                    >
+                        <div className="flex items-start justify-between">
+                            <div>
+                                <h2 className="text-xl font-bold text-white">{selectedLead.business_name}</h2>
+                                <p className="text-dark-400 text-sm">
+                                    {[selectedLead.business_type, selectedLead.business_subcategory].filter(Boolean).join(' · ') || 'Uncategorised'}
+                                </p>
+                                <div className="flex gap-2 mt-2">
+                                    <span className={`badge ${getStatusBadgeClass(selectedLead.status)}`}>{selectedLead.status}</span>
+                                    <span className={`badge ${websiteScoreColors[selectedLead.website_score]}`}>
+                                        {selectedLead.website_score.replace('_', ' ')}
+                                    </span>
+                                </div>
+                            </div>
+                            <button onClick={() => setSelectedLead(null)} className="p-1 hover:bg-dark-700 rounded">
+                                <X className="w-5 h-5 text-dark-400" />
+                            </button>
+                        </div>
+
+                        {selectedLead.description && (
+                            <p className="text-dark-300 text-sm">{selectedLead.description}</p>
+                        )}
+
+                        {/* Contact */}
+                        <div className="space-y-2">
+                            <h3 className="text-white font-semibold">Contact</h3>
+                            {selectedLead.email && (
+                                <div className="flex items-center gap-2 text-sm text-dark-300">
+                                    <Mail className="w-4 h-4 text-dark-400" /> {selectedLead.email}
+                                </div>
+                            )}
+                            {selectedLead.phone && (
+                                <div className="flex items-center gap-2 text-sm text-dark-300">
+                                    <Phone className="w-4 h-4 text-dark-400" /> {selectedLead.phone}
+                                    {selectedLead.alternate_phone && ` / ${selectedLead.alternate_phone}`}
+                                </div>
+                            )}
+                            {selectedLead.whatsapp_number && (
+                                <div className="flex items-center gap-2 text-sm text-dark-300">
+                                    <MessageCircle className="w-4 h-4 text-dark-400" /> {selectedLead.whatsapp_number}
+                                </div>
+                            )}
+                            {(selectedLead.address || selectedLead.city) && (
+                                <div className="flex items-center gap-2 text-sm text-dark-300">
+                                    <MapPin className="w-4 h-4 text-dark-400" />
+                                    {[selectedLead.address, formatLocation(selectedLead), selectedLead.postal_code].filter(Boolean).join(', ')}
+                                </div>
+                            )}
+                            {detailRow('Owner', selectedLead.owner_name)}
+                        </div>
+
+                        {/* Online Presence */}
+                        <div className="space-y-2">
+                            <h3 className="text-white font-semibold">Online Presence</h3>
+                            {externalLink(selectedLead.website_url, 'Website', Globe)}
+                            {externalLink(selectedLead.google_maps_url, 'Google Maps', MapPin)}
+                            {externalLink(selectedLead.facebook_url, 'Facebook', Facebook)}
+                            {externalLink(selectedLead.instagram_url, 'Instagram', Instagram)}
+                            {externalLink(selectedLead.linkedin_url, 'LinkedIn', Linkedin)}
+                        </div>
+
+                        {/* Website Analysis */}
+                        <div>
+                            <h3 className="text-white font-semibold mb-2">Website Analysis</h3>
+                            <div className="grid grid-cols-3 gap-3 mb-3">
+                                <div className="bg-dark-800/50 rounded-lg p-3 text-center">
+                                    {selectedLead.has_ssl ? (
+                                        <ShieldCheck className="w-5 h-5 text-green-400 mx-auto mb-1" />
+                                    ) : (
+                                        <ShieldOff className="w-5 h-5 text-red-400 mx-auto mb-1" />
+                                    )}
+                                    <p className="text-dark-400 text-xs">SSL: {formatBool(selectedLead.has_ssl)}</p>
+                                </div>
+                                <div className="bg-dark-800/50 rounded-lg p-3 text-center">
+                                    <Smartphone className="w-5 h-5 text-primary-400 mx-auto mb-1" />
+                                    <p className="text-dark-400 text-xs">Mobile: {formatBool(selectedLead.is_mobile_responsive)}</p>
+                                </div>
+                                <div className="bg-dark-800/50 rounded-lg p-3 text-center">
+                                    <Gauge className="w-5 h-5 text-accent-400 mx-auto mb-1" />
+                                    <p className="text-dark-400 text-xs">Speed: {selectedLead.page_speed_score ?? '—'}</p>
+                                </div>
+                            </div>
+                            {detailRow('Has website', formatBool(selectedLead.has_website))}
+                            {detailRow('Design age score', selectedLead.design_age_score)}
+                            {detailRow('Last analyzed', selectedLead.last_analyzed_at ? formatDate(selectedLead.last_analyzed_at) : null)}
+                            {selectedLead.analysis_notes && (
+                                <p className="text-dark-300 text-sm mt-2">{selectedLead.analysis_notes}</p>
+                            )}
+                        </div>
+
+                        {/* Business Details */}
+                        <div>
+                            <h3 className="text-white font-semibold mb-2">Business Details</h3>
+                            {detailRow('Google rating', selectedLead.google_rating !== null ? `${selectedLead.google_rating} (${selectedLead.review_count} reviews)` : null)}
+                            {detailRow('Employees', selectedLead.employee_count)}
+                            {detailRow('Established', selectedLead.year_established)}
+                            {detailRow('Coordinates', selectedLead.latitude !== null && selectedLead.longitude !== null ? `${selectedLead.latitude}, ${selectedLead.longitude}` : null)}
+                            {selectedLead.business_hours && Object.keys(selectedLead.business_hours).length > 0 && (
+                                <div className="mt-3">
+                                    <p className="text-dark-400 text-sm mb-1 flex items-center gap-2">
+                                        <Clock className="w-4 h-4" /> Business Hours
+                                    </p>
+                                    {Object.entries(selectedLead.business_hours).map(([day, hours]) => (
+                                        <div key={day} className="flex justify-between text-sm">
+                                            <span className="text-dark-400 capitalize">{day}</span>
+                                            <span className="text-white">{hours}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Record */}
+                        <div>
+                            <h3 className="text-white font-semibold mb-2">Record</h3>
+                            {detailRow('Customer', selectedLead.user_profiles?.email || selectedLead.user_id)}
+                            {detailRow('Search ID', selectedLead.search_id)}
+                            {detailRow('Source', `${selectedLead.source}${selectedLead.source_id ? ` (${selectedLead.source_id})` : ''}`)}
+                            {detailRow('Tags', selectedLead.tags?.length ? selectedLead.tags.join(', ') : null)}
+                            {detailRow('Created', formatDate(selectedLead.created_at))}
+                            {detailRow('Updated', formatDate(selectedLead.updated_at))}
+                            {selectedLead.notes && <p className="text-dark-300 text-sm mt-2">{selectedLead.notes}</p>}
+                            {selectedLead.raw_data && (
+                                <details className="mt-3">
+                                    <summary className="text-dark-400 text-sm cursor-pointer">Raw data</summary>
+                                    <pre className="text-xs bg-dark-900 rounded-lg p-3 mt-2 text-dark-300 overflow-x-auto">
+                                        {JSON.stringify(selectedLead.raw_data, null, 2)}
+                                    </pre>
+                                </details>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,34 +1,90 @@
 import { useState, useEffect } from 'react';
-import { FileText, Search, RefreshCw, Clock, User, Activity } from 'lucide-react';
-import { getActivityLogs } from '../lib/supabase';
-import { formatRelativeTime } from '../lib/utils';
-
-interface Log {
-    id: string;
-    user_id: string;
-    action: string;
-    details: Record<string, unknown> | null;
-    ip_address: string | null;
-    user_agent: string | null;
-    created_at: string;
-    user_profiles?: { full_name: string; email: string };
-}
+import { FileText, Search, RefreshCw, Clock, User, Activity, ShieldCheck, Download, X, Eye, CheckCircle, AlertCircle } from 'lucide-react';
+import { getActivityLogs, subscribeToInserts, ADMIN_ACTION_PREFIX, type ActivityLog } from '../lib/supabase';
+import { downloadCSV, formatDate, formatRelativeTime } from '../lib/utils';
+
+const LOGS_PER_PAGE = 20;
+// Upper bound for a single export; narrow the filters to export more specific ranges
+const LOG_EXPORT_LIMIT = 5000;
+// PostgREST caps every response at 1000 rows, so the export is read in pages of this size
+const LOG_EXPORT_PAGE_SIZE = 1000;
+
+const LOG_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+};
+
+const EMPTY_FILTERS = { action: '', user: '', ip: '', from: '', to: '' };
 
 export default function Logs() {
-    const [logs, setLogs] = useState<Log[]>([]);
+    const [logs, setLogs] = useState<ActivityLog[]>([]);
     const [loading, setLoading] = useState(true);
-    const [searchQuery, setSearchQuery] = useState('');
+    const [filterInputs, setFilterInputs] = useState(EMPTY_FILTERS);
+    const [filters, setFilters] = useState(EMPTY_FILTERS);
+    const [adminOnly, setAdminOnly] = useState(false);
     const [currentPage, setCurrentPage] = useState(1);
     const [totalCount, setTotalCount] = useState(0);
-    const LOGS_PER_PAGE = 20;
+    const [selectedLog, setSelectedLog] = useState<ActivityLog | null>(null);
+    const [exporting, setExporting] = useState(false);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    // Text filters are debounced; the date pickers apply as soon as they change
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            setFilters({
+                ...filterInputs,
+                action: filterInputs.action.trim(),
+                user: filterInputs.user.trim(),
+                ip: filterInputs.ip.trim(),
+            });
+            setCurrentPage(1);
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [filterInputs]);
 
     useEffect(() => {
         loadLogs();
-    }, [currentPage]);
+    }, [currentPage, adminOnly, filters]);
+
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 4000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
+    // New events stream in only on the unfiltered first page, where they belong at the top
+    const isLive = currentPage === 1 && !adminOnly && !Object.values(filters).some(Boolean);
+
+    useEffect(() => {
+        if (!isLive) return;
+        return subscribeToInserts<ActivityLog>(
+            'activity_logs',
+            (log) => {
+                setLogs((prev) => (prev.some((l) => l.id === log.id) ? prev : [log, ...prev].slice(0, LOGS_PER_PAGE)));
+                setTotalCount((count) => count + 1);
+            },
+            { select: '*, user_profiles(full_name, email)' }
+        );
+    }, [isLive]);
+
+    const queryOptions = () => ({
+        adminOnly,
+        action: filters.action || undefined,
+        user: filters.user || undefined,
+        ipAddress: filters.ip || undefined,
+        from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+        to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+    });
 
     async function loadLogs() {
         setLoading(true);
         const { data, count } = await getActivityLogs({
+            ...queryOptions(),
             limit: LOGS_PER_PAGE,
             offset: (currentPage - 1) * LOGS_PER_PAGE,
         });
@@ -37,16 +93,65 @@ export default function Logs() {
         setLoading(false);
     }
 
-    const filteredLogs = logs.filter(
-        (log) =>
-            log.action.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            log.user_profiles?.email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            log.user_profiles?.full_name?.toLowerCase().includes(searchQuery.toLowerCase())
-    );
+    const handleExport = async () => {
+        setExporting(true);
+        const options = queryOptions();
+        // Pinning the end of the range stops new events from shifting rows between pages
+        const to = options.to || new Date().toISOString();
+        const rows: ActivityLog[] = [];
+        let total: number | null = null;
+
+        while (rows.length < LOG_EXPORT_LIMIT) {
+            const { data, error, count } = await getActivityLogs({
+                ...options,
+                to,
+                limit: Math.min(LOG_EXPORT_PAGE_SIZE, LOG_EXPORT_LIMIT - rows.length),
+                offset: rows.length,
+            });
+            if (error || !data) {
+                setNotification({ type: 'error', message: 'Failed to export logs' });
+                setExporting(false);
+                return;
+            }
+            rows.push(...data);
+            total = count;
+            if (data.length < LOG_EXPORT_PAGE_SIZE) break;
+        }
+
+        if (rows.length > 0) {
+            downloadCSV(
+                rows.map((log) => ({
+                    created_at: log.created_at,
+                    user_name: log.user_profiles?.full_name || '',
+                    user_email: log.user_profiles?.email || '',
+                    user_id: log.user_id,
+                    action: log.action,
+                    ip_address: log.ip_address,
+                    user_agent: log.user_agent,
+                    details: log.details ? JSON.stringify(log.details) : '',
+                })),
+                `activity-logs-${new Date().toISOString().slice(0, 10)}`
+            );
+        }
+        setNotification(
+            total !== null && total > rows.length
+                ? { type: 'error', message: `Exported the newest ${rows.length.toLocaleString()} of ${total.toLocaleString()} events; narrow the filters to export the rest` }
+                : { type: 'success', message: `Exported ${rows.length.toLocaleString()} events` }
+        );
+        setExporting(false);
+    };
+
+    const hasFilters = Object.values(filterInputs).some(Boolean) || adminOnly;
+
+    const clearFilters = () => {
+        setFilterInputs(EMPTY_FILTERS);
+        setAdminOnly(false);
+    };
 
     const totalPages = Math.ceil(totalCount / LOGS_PER_PAGE);
 
     const actionColors: Record<string, string> = {
+        [ADMIN_ACTION_PREFIX]: 'text-red-400 bg-red-500/20',
         login: 'text-green-400 bg-green-500/20',
         logout: 'text-gray-400 bg-gray-500/20',
         signup: 'text-blue-400 bg-blue-500/20',
@@ -82,24 +187,91 @@ export default function Logs() {
                     <h1 className="text-2xl font-bold text-white">System Logs</h1>
                     <p className="text-dark-400">Activity and audit trail</p>
                 </div>
-                <button onClick={loadLogs} className="btn-secondary self-start">
-                    <RefreshCw className="w-4 h-4" />
-                    Refresh
-                </button>
+                <div className="flex gap-2 self-start">
+                    <button onClick={handleExport} disabled={exporting || totalCount === 0} className="btn-secondary">
+                        {exporting ? <div className="spinner" /> : <Download className="w-4 h-4" />}
+                        Export CSV
+                    </button>
+                    <button onClick={loadLogs} className="btn-secondary">
+                        <RefreshCw className="w-4 h-4" />
+                        Refresh
+                    </button>
+                </div>
             </div>
 
-            {/* Search */}
-            <div className="card p-4">
-                <div className="relative">
-                    <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-dark-400" />
+            {notification && (
+                <div className={`flex items-center gap-3 px-4 py-3 rounded-xl ${notification.type === 'success'
+                    ? 'bg-green-500/20 border border-green-500/50 text-green-400'
+                    : 'bg-red-500/20 border border-red-500/50 text-red-400'
+                    }`}>
+                    {notification.type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+                    {notification.message}
+                </div>
+            )}
+
+            {/* Filters */}
+            <div className="card p-4 space-y-4">
+                <div className="flex flex-col md:flex-row gap-4">
+                    <div className="relative flex-1">
+                        <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-dark-400" />
+                        <input
+                            type="text"
+                            value={filterInputs.user}
+                            onChange={(e) => setFilterInputs({ ...filterInputs, user: e.target.value })}
+                            placeholder="User name or email..."
+                            className="input pl-12"
+                        />
+                    </div>
+                    <button
+                        onClick={() => {
+                            setAdminOnly(!adminOnly);
+                            setCurrentPage(1);
+                        }}
+                        className={`px-4 py-2 rounded-xl border flex items-center gap-2 text-sm transition-all ${adminOnly
+                            ? 'bg-red-500/20 border-red-500/50 text-red-400'
+                            : 'border-dark-600 text-dark-300 hover:bg-dark-700'
+                            }`}
+                    >
+                        <ShieldCheck className="w-4 h-4" />
+                        Admin actions only
+                    </button>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                     <input
                         type="text"
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        placeholder="Search by action or user..."
-                        className="input pl-12"
+                        value={filterInputs.action}
+                        onChange={(e) => setFilterInputs({ ...filterInputs, action: e.target.value })}
+                        placeholder="Action (e.g. login)"
+                        className="input"
+                    />
+                    <input
+                        type="text"
+                        value={filterInputs.ip}
+                        onChange={(e) => setFilterInputs({ ...filterInputs, ip: e.target.value })}
+                        placeholder="IP address"
+                        className="input font-mono"
+                    />
+                    <input
+                        type="date"
+                        value={filterInputs.from}
+                        onChange={(e) => setFilterInputs({ ...filterInputs, from: e.target.value })}
+                        className="input"
+                        title="From date"
+                    />
+                    <input
+                        type="date"
+                        value={filterInputs.to}
+                        onChange={(e) => setFilterInputs({ ...filterInputs, to: e.target.value })}
+                        className="input"
+                        title="To date"
                     />
                 </div>
+                {hasFilters && (
+                    <button onClick={clearFilters} className="btn-ghost btn-sm">
+                        <X className="w-4 h-4" />
+                        Clear filters
+                    </button>
+                )}
             </div>
 
             {/* Logs Table */}
@@ -109,11 +281,13 @@ export default function Logs() {
                         <div className="spinner text-primary-400 mx-auto mb-4" />
                         <p className="text-dark-400">Loading logs...</p>
                     </div>
-                ) : filteredLogs.length === 0 ? (
+                ) : logs.length === 0 ? (
                     <div className="p-12 text-center">
                         <FileText className="w-16 h-16 text-dark-600 mx-auto mb-4" />
                         <h3 className="text-xl font-semibold text-white mb-2">No logs found</h3>
-                        <p className="text-dark-400">Activity logs will appear here</p>
+                        <p className="text-dark-400">
+                            {hasFilters ? 'No logs match the current filters' : 'Activity logs will appear here'}
+                        </p>
                     </div>
                 ) : (
                     <div className="overflow-x-auto">
@@ -128,12 +302,14 @@ export default function Logs() {
                                 </tr>
                             </thead>
                             <tbody>
-                                {filteredLogs.map((log) => (
+                                {logs.map((log) => (
                                     <tr key={log.id}>
                                         <td>
                                             <div className="flex items-center gap-2 text-dark-400 text-sm">
                                                 <Clock className="w-4 h-4" />
+                                                <span title={formatDate(log.created_at, LOG_TIME_FORMAT)}>
                                                 {formatRelativeTime(log.created_at)}
+                                            </span>
                                             </div>
                                         </td>
                                         <td>
@@ -143,10 +319,10 @@ export default function Logs() {
                                                 </div>
                                                 <div>
                                                     <p className="text-white text-sm">
-                                                        {log.user_profiles?.full_name || 'Unknown'}
+                                                        {log.user_profiles?.full_name || (log.user_id ? 'Unknown' : 'System')}
                                                     </p>
                                                     <p className="text-dark-500 text-xs">
-                                                        {log.user_profiles?.email || log.user_id}
+                                                        {log.user_profiles?.email || log.user_id || 'Scheduled job'}
                                                     </p>
                                                 </div>
                                             </div>
@@ -161,9 +337,16 @@ export default function Logs() {
                                         </td>
                                         <td className="text-dark-400 text-sm max-w-xs truncate">
                                             {log.details ? (
-                                                <code className="text-xs bg-dark-800 px-2 py-1 rounded">
-                                                    {JSON.stringify(log.details).slice(0, 50)}...
-                                                </code>
+                                                <button
+                                                    onClick={() => setSelectedLog(log)}
+                                                    className="flex items-center gap-2 max-w-full hover:text-white"
+                                                    title="View details"
+                                                >
+                                                    <Eye className="w-4 h-4 flex-shrink-0" />
+                                                    <code className="text-xs bg-dark-800 px-2 py-1 rounded truncate">
+                                                        {JSON.stringify(log.details).slice(0, 50)}...
+                                                    </code>
+                                                </button>
                                             ) : (
                                                 <span className="text-dark-500">—</span>
                                             )}
@@ -203,6 +386,39 @@ export default function Logs() {
                     </div>
                 )}
             </div>
+
+            {/* Details Modal */}
+            {selectedLog && (
+                <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+                    <div className="glass-card p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                        <div className="flex items-center justify-between mb-4">
+                            <div>
+                                <h2 className="text-xl font-bold text-white">{formatAction(selectedLog.action)}</h2>
+                                <p className="text-dark-400 text-sm">
+                                    {selectedLog.user_profiles?.email || selectedLog.user_id || 'Scheduled job'} ·{' '}
+                                    {formatDate(selectedLog.created_at, LOG_TIME_FORMAT)}
+                                </p>
+                            </div>
+                            <button onClick={() => setSelectedLog(null)} className="p-1 hover:bg-dark-700 rounded">
+                                <X className="w-5 h-5 text-dark-400" />
+                            </button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-3 mb-4 text-sm">
+                            <div className="p-3 bg-dark-800/50 rounded-lg">
+                                <p className="text-dark-500 text-xs mb-1">IP Address</p>
+                                <p className="text-white font-mono">{selectedLog.ip_address || '—'}</p>
+                            </div>
+                            <div className="p-3 bg-dark-800/50 rounded-lg">
+                                <p className="text-dark-500 text-xs mb-1">User Agent</p>
+                                <p className="text-white text-xs break-all">{selectedLog.user_agent || '—'}</p>
+                            </div>
+                        </div>
+                        <pre className="text-xs text-dark-200 bg-dark-900 border border-dark-700 rounded-lg p-4 overflow-x-auto whitespace-pre-wrap break-words">
+                            {JSON.stringify(selectedLog.details, null, 2)}
+                        </pre>
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
@@ -1,58 +1,245 @@
-import { useState, useEffect } from 'react';
-import { Ticket, Plus, Trash2, X, Copy, Check } from 'lucide-react';
-import { getCoupons, createCoupon, updateCoupon, deleteCoupon } from '../lib/supabase';
-import { formatDate, copyToClipboard } from '../lib/utils';
-
-interface Coupon {
-    id: string;
-    code: string;
-    discount_type: 'percentage' | 'fixed';
-    discount_value: number;
-    max_uses: number | null;
-    current_uses: number;
-    valid_from: string | null;
-    valid_until: string | null;
-    is_active: boolean;
-    created_at: string;
-}
+import { useState, useEffect, useMemo } from 'react';
+import {
+    Ticket,
+    Plus,
+    Trash2,
+    X,
+    Copy,
+    Check,
+    Edit,
+    CheckCircle,
+    AlertTriangle,
+    History,
+    BarChart3,
+    Layers,
+    FlaskConical,
+} from 'lucide-react';
+import {
+    getCoupons,
+    createCoupon,
+    updateCoupon,
+    deleteCoupon,
+    getAllSubscriptionPlans,
+    getUserSummaries,
+    getCouponBatches,
+    createCouponBatch,
+    generateCouponCode,
+    COUPON_BATCH_MAX_QUANTITY,
+    DEFAULT_COUPON_PATTERN,
+    type Coupon,
+    type CouponBatch,
+    type CouponBillingCycle,
+} from '../lib/supabase';
+import { formatDate, formatDiscount, copyToClipboard } from '../lib/utils';
+import type { SubscriptionPlan, SubscriptionTier } from '../lib/database.types';
+import CouponReportPanel from '../components/coupons/CouponReportPanel';
+import CouponRedemptionsModal from '../components/coupons/CouponRedemptionsModal';
+import CouponBatchesPanel from '../components/coupons/CouponBatchesPanel';
+import CouponTesterPanel from '../components/coupons/CouponTesterPanel';
+
+const TIERS: SubscriptionTier[] = ['free_trial', 'basic', 'pro', 'ultra_pro'];
+
+const EMPTY_FORM = {
+    code: '',
+    discount_type: 'percentage' as 'percentage' | 'fixed',
+    discount_value: 10,
+    max_uses: '',
+    valid_until: '',
+    plan_ids: [] as string[],
+    tiers: [] as SubscriptionTier[],
+    user_emails: '',
+    email_domains: '',
+    first_purchase_only: false,
+    billing_cycle: '' as CouponBillingCycle | '',
+    max_uses_per_user: '',
+    batch_name: '',
+    quantity: '100',
+    prefix: '',
+    pattern: DEFAULT_COUPON_PATTERN,
+};
+
+// Splits a comma or newline separated field into trimmed, lower-cased entries
+const parseList = (value: string) =>
+    value.split(/[\s,]+/).map((item) => item.trim().toLowerCase().replace(/^@/, '')).filter(Boolean);
+
+const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter((i) => i !== item) : [...list, item]);
 
 export default function ManageCoupons() {
     const [coupons, setCoupons] = useState<Coupon[]>([]);
+    const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+    const [userEmails, setUserEmails] = useState<Record<string, string>>({});
     const [loading, setLoading] = useState(true);
     const [showForm, setShowForm] = useState(false);
+    const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+    const [saving, setSaving] = useState(false);
     const [copiedCode, setCopiedCode] = useState<string | null>(null);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+    const [tab, setTab] = useState<'coupons' | 'batches' | 'report' | 'tester'>('coupons');
+    const [formMode, setFormMode] = useState<'single' | 'batch'>('single');
+    const [batches, setBatches] = useState<CouponBatch[]>([]);
+    const [batchesLoading, setBatchesLoading] = useState(false);
+    const [redemptionCoupon, setRedemptionCoupon] = useState<Coupon | null>(null);
 
-    const [formData, setFormData] = useState({
-        code: '',
-        discount_type: 'percentage' as 'percentage' | 'fixed',
-        discount_value: 10,
-        max_uses: '',
-        valid_until: '',
-    });
+    const [formData, setFormData] = useState(EMPTY_FORM);
 
     useEffect(() => {
         loadCoupons();
+        getAllSubscriptionPlans().then(({ data }) => {
+            if (data) setPlans(data);
+        });
     }, []);
 
+    useEffect(() => {
+        if (tab === 'batches' || tab === 'report') loadBatches();
+    }, [tab]);
+
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 4000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
     async function loadCoupons() {
         setLoading(true);
-        const { data } = await getCoupons();
-        if (data) setCoupons(data);
+        const { data } = await getCoupons({ standalone: true });
+        if (data) {
+            setCoupons(data);
+            const userIds = [...new Set((data as Coupon[]).flatMap((coupon) => coupon.allowed_user_ids || []))];
+            if (userIds.length > 0) {
+                const { data: users } = await getUserSummaries({ ids: userIds });
+                setUserEmails(Object.fromEntries((users || []).map((user) => [user.id, user.email])));
+            }
+        }
         setLoading(false);
     }
 
+    async function loadBatches() {
+        setBatchesLoading(true);
+        const { data } = await getCouponBatches();
+        setBatches(data || []);
+        setBatchesLoading(false);
+    }
+
+    const openCreate = (mode: 'single' | 'batch') => {
+        setEditingCoupon(null);
+        setFormMode(mode);
+        // Batch codes are meant to be handed out one per person
+        setFormData(mode === 'batch' ? { ...EMPTY_FORM, max_uses: '1' } : EMPTY_FORM);
+        setShowForm(true);
+    };
+
+    const sampleCodes = useMemo(
+        () => (formMode === 'batch' ? [1, 2, 3].map(() => generateCouponCode(formData.prefix, formData.pattern)) : []),
+        [formMode, formData.prefix, formData.pattern]
+    );
+
+    const openEdit = (coupon: Coupon) => {
+        setEditingCoupon(coupon);
+        setFormMode('single');
+        setFormData({
+            ...EMPTY_FORM,
+            code: coupon.code,
+            discount_type: coupon.discount_type,
+            discount_value: coupon.discount_value,
+            max_uses: coupon.max_uses ? String(coupon.max_uses) : '',
+            valid_until: coupon.valid_until ? coupon.valid_until.slice(0, 10) : '',
+            plan_ids: coupon.allowed_plan_ids || [],
+            tiers: coupon.allowed_tiers || [],
+            user_emails: (coupon.allowed_user_ids || []).map((id) => userEmails[id] || id).join(', '),
+            email_domains: (coupon.allowed_email_domains || []).join(', '),
+            first_purchase_only: coupon.first_purchase_only || false,
+            billing_cycle: coupon.billing_cycle || '',
+            max_uses_per_user: coupon.max_uses_per_user ? String(coupon.max_uses_per_user) : '',
+        });
+        setShowForm(true);
+    };
+
+    const closeForm = () => {
+        setShowForm(false);
+        setEditingCoupon(null);
+        setFormData(EMPTY_FORM);
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        await createCoupon({
-            code: formData.code.toUpperCase(),
+        setSaving(true);
+
+        // Users are entered by email but stored by id
+        const emails = parseList(formData.user_emails);
+        let allowedUserIds: string[] | null = null;
+        if (emails.length > 0) {
+            const { data: users } = await getUserSummaries({ emails });
+            const found = new Set((users || []).map((user) => user.email.toLowerCase()));
+            const missing = emails.filter((email) => !found.has(email));
+            if (missing.length > 0) {
+                setNotification({ type: 'error', message: `No user found for ${missing.join(', ')}` });
+                setSaving(false);
+                return;
+            }
+            allowedUserIds = (users || []).map((user) => user.id);
+        }
+
+        const domains = parseList(formData.email_domains);
+        const rules = {
             discount_type: formData.discount_type,
             discount_value: formData.discount_value,
+            allowed_plan_ids: formData.plan_ids.length > 0 ? formData.plan_ids : null,
+            allowed_tiers: formData.tiers.length > 0 ? formData.tiers : null,
+            allowed_user_ids: allowedUserIds,
+            allowed_email_domains: domains.length > 0 ? domains : null,
+            first_purchase_only: formData.first_purchase_only,
+            billing_cycle: formData.billing_cycle || null,
+            max_uses_per_user: formData.max_uses_per_user ? parseInt(formData.max_uses_per_user) : null,
+        };
+
+        const newCouponRules = {
+            ...rules,
             max_uses: formData.max_uses ? parseInt(formData.max_uses) : undefined,
             valid_until: formData.valid_until || undefined,
             is_active: true,
-        });
-        setFormData({ code: '', discount_type: 'percentage', discount_value: 10, max_uses: '', valid_until: '' });
-        setShowForm(false);
+        };
+
+        if (formMode === 'batch') {
+            const quantity = Number(formData.quantity);
+            if (!Number.isInteger(quantity) || quantity < 1 || quantity > COUPON_BATCH_MAX_QUANTITY) {
+                setNotification({ type: 'error', message: `Quantity must be between 1 and ${COUPON_BATCH_MAX_QUANTITY}` });
+                setSaving(false);
+                return;
+            }
+            const { error } = await createCouponBatch(
+                { name: formData.batch_name, prefix: formData.prefix, pattern: formData.pattern, quantity },
+                newCouponRules
+            );
+            setSaving(false);
+            if (error) {
+                setNotification({ type: 'error', message: error.message });
+                return;
+            }
+            setNotification({ type: 'success', message: `Generated ${quantity} codes for ${formData.batch_name}` });
+            closeForm();
+            setTab('batches');
+            await loadBatches();
+            return;
+        }
+
+        const code = formData.code.toUpperCase();
+        const { error } = editingCoupon
+            ? await updateCoupon(editingCoupon.id, {
+                ...rules,
+                code,
+                max_uses: formData.max_uses ? parseInt(formData.max_uses) : null,
+                valid_until: formData.valid_until || null,
+            })
+            : await createCoupon({ ...newCouponRules, code });
+        setSaving(false);
+
+        if (error) {
+            setNotification({ type: 'error', message: error.message });
+            return;
+        }
+        setNotification({ type: 'success', message: editingCoupon ? 'Coupon updated' : 'Coupon created' });
+        closeForm();
         await loadCoupons();
     };
 
@@ -74,6 +261,28 @@ export default function ManageCoupons() {
         setTimeout(() => setCopiedCode(null), 2000);
     };
 
+    const describeRestrictions = (coupon: Coupon) => {
+        const rules: string[] = [];
+        if (coupon.allowed_plan_ids?.length) {
+            rules.push(coupon.allowed_plan_ids.map((id) => plans.find((plan) => plan.id === id)?.name || 'Unknown plan').join(', '));
+        }
+        if (coupon.allowed_tiers?.length) {
+            rules.push(coupon.allowed_tiers.map((tier) => tier.replace('_', ' ')).join(', '));
+        }
+        if (coupon.allowed_user_ids?.length) {
+            rules.push(coupon.allowed_user_ids.length === 1
+                ? userEmails[coupon.allowed_user_ids[0]] || '1 user'
+                : `${coupon.allowed_user_ids.length} users`);
+        }
+        if (coupon.allowed_email_domains?.length) {
+            rules.push(coupon.allowed_email_domains.map((domain) => `@${domain}`).join(', '));
+        }
+        if (coupon.first_purchase_only) rules.push('First purchase');
+        if (coupon.billing_cycle) rules.push(`${coupon.billing_cycle === 'monthly' ? 'Monthly' : 'Yearly'} only`);
+        if (coupon.max_uses_per_user) rules.push(`${coupon.max_uses_per_user} per user`);
+        return rules;
+    };
+
     return (
         <div className="space-y-6">
             <div className="flex items-center justify-between">
@@ -81,34 +290,146 @@ export default function ManageCoupons() {
                     <h1 className="text-2xl font-bold text-white">Manage Coupons</h1>
                     <p className="text-dark-400">Create and manage discount codes</p>
                 </div>
-                <button onClick={() => setShowForm(true)} className="btn-primary">
-                    <Plus className="w-5 h-5" />
-                    Create Coupon
+                <div className="flex gap-2">
+                    <button onClick={() => openCreate('batch')} className="btn-secondary">
+                        <Layers className="w-5 h-5" />
+                        Generate Batch
+                    </button>
+                    <button onClick={() => openCreate('single')} className="btn-primary">
+                        <Plus className="w-5 h-5" />
+                        Create Coupon
+                    </button>
+                </div>
+            </div>
+
+            {notification && (
+                <div
+                    className={`flex items-center gap-2 p-4 rounded-xl ${notification.type === 'success'
+                        ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+                        : 'bg-red-500/20 text-red-400 border border-red-500/30'
+                        }`}
+                >
+                    {notification.type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertTriangle className="w-5 h-5" />}
+                    {notification.message}
+                </div>
+            )}
+
+            {/* Tabs */}
+            <div className="flex gap-2">
+                <button
+                    onClick={() => setTab('coupons')}
+                    className={tab === 'coupons' ? 'btn-primary btn-sm' : 'btn-secondary btn-sm'}
+                >
+                    <Ticket className="w-4 h-4" />
+                    Coupons
+                </button>
+                <button
+                    onClick={() => setTab('batches')}
+                    className={tab === 'batches' ? 'btn-primary btn-sm' : 'btn-secondary btn-sm'}
+                >
+                    <Layers className="w-4 h-4" />
+                    Batches
+                </button>
+                <button
+                    onClick={() => setTab('report')}
+                    className={tab === 'report' ? 'btn-primary btn-sm' : 'btn-secondary btn-sm'}
+                >
+                    <BarChart3 className="w-4 h-4" />
+                    Report
+                </button>
+                <button
+                    onClick={() => setTab('tester')}
+                    className={tab === 'tester' ? 'btn-primary btn-sm' : 'btn-secondary btn-sm'}
+                >
+                    <FlaskConical className="w-4 h-4" />
+                    Tester
                 </button>
             </div>
 
             {/* Coupon Form Modal */}
             {showForm && (
-                <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
-                    <div className="glass-card p-6 w-full max-w-md">
+                <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 overflow-y-auto">
+                    <div className="glass-card p-6 w-full max-w-2xl my-8">
                         <div className="flex items-center justify-between mb-6">
-                            <h2 className="text-xl font-bold text-white">Create Coupon</h2>
-                            <button onClick={() => setShowForm(false)} className="p-1 hover:bg-dark-700 rounded">
+                            <h2 className="text-xl font-bold text-white">
+                                {editingCoupon ? 'Edit Coupon' : formMode === 'batch' ? 'Generate Coupon Batch' : 'Create Coupon'}
+                            </h2>
+                            <button onClick={closeForm} className="p-1 hover:bg-dark-700 rounded">
                                 <X className="w-5 h-5 text-dark-400" />
                             </button>
                         </div>
                         <form onSubmit={handleSubmit} className="space-y-4">
-                            <div>
-                                <label className="label">Coupon Code</label>
-                                <input
-                                    type="text"
-                                    value={formData.code}
-                                    onChange={(e) => setFormData({ ...formData, code: e.target.value })}
-                                    className="input uppercase"
-                                    placeholder="SAVE20"
-                                    required
-                                />
-                            </div>
+                            {formMode === 'batch' ? (
+                                <>
+                                    <div className="grid grid-cols-3 gap-4">
+                                        <div className="col-span-2">
+                                            <label className="label">Batch Name</label>
+                                            <input
+                                                type="text"
+                                                value={formData.batch_name}
+                                                onChange={(e) => setFormData({ ...formData, batch_name: e.target.value })}
+                                                className="input"
+                                                placeholder="Partner promo - March"
+                                                required
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="label">Quantity</label>
+                                            <input
+                                                type="number"
+                                                value={formData.quantity}
+                                                onChange={(e) => setFormData({ ...formData, quantity: e.target.value })}
+                                                className="input"
+                                                min="1"
+                                                max={COUPON_BATCH_MAX_QUANTITY}
+                                                required
+                                            />
+                                        </div>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="label">Prefix</label>
+                                            <input
+                                                type="text"
+                                                value={formData.prefix}
+                                                onChange={(e) => setFormData({ ...formData, prefix: e.target.value })}
+                                                className="input uppercase"
+                                                placeholder="PARTNER-"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="label">Pattern</label>
+                                            <input
+                                                type="text"
+                                                value={formData.pattern}
+                                                onChange={(e) => setFormData({ ...formData, pattern: e.target.value })}
+                                                className="input uppercase font-mono"
+                                                required
+                                            />
+                                        </div>
+                                    </div>
+                                    <p className="text-dark-500 text-xs">
+                                        In the pattern, X is a random letter or digit, A a letter and 9 a digit. e.g.{' '}
+                                        {sampleCodes.map((sample) => (
+                                            <code key={sample} className="bg-dark-700 px-1.5 py-0.5 rounded text-primary-400 font-mono mr-1">
+                                                {sample}
+                                            </code>
+                                        ))}
+                                    </p>
+                                </>
+                            ) : (
+                                <div>
+                                    <label className="label">Coupon Code</label>
+                                    <input
+                                        type="text"
+                                        value={formData.code}
+                                        onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                                        className="input uppercase"
+                                        placeholder="SAVE20"
+                                        required
+                                    />
+                                </div>
+                            )}
                             <div className="grid grid-cols-2 gap-4">
                                 <div>
                                     <label className="label">Discount Type</label>
@@ -133,9 +454,9 @@ export default function ManageCoupons() {
                                     />
                                 </div>
                             </div>
-                            <div className="grid grid-cols-2 gap-4">
+                            <div className="grid grid-cols-3 gap-4">
                                 <div>
-                                    <label className="label">Max Uses (optional)</label>
+                                    <label className="label">{formMode === 'batch' ? 'Uses per Code' : 'Max Uses (optional)'}</label>
                                     <input
                                         type="number"
                                         value={formData.max_uses}
@@ -144,6 +465,17 @@ export default function ManageCoupons() {
                                         placeholder="Unlimited"
                                     />
                                 </div>
+                                <div>
+                                    <label className="label">Per User (optional)</label>
+                                    <input
+                                        type="number"
+                                        value={formData.max_uses_per_user}
+                                        onChange={(e) => setFormData({ ...formData, max_uses_per_user: e.target.value })}
+                                        className="input"
+                                        min="1"
+                                        placeholder="Unlimited"
+                                    />
+                                </div>
                                 <div>
                                     <label className="label">Valid Until (optional)</label>
                                     <input
@@ -154,12 +486,99 @@ export default function ManageCoupons() {
                                     />
                                 </div>
                             </div>
+
+                            {/* Restrictions */}
+                            <div className="border-t border-dark-700 pt-4 space-y-4">
+                                <p className="text-white font-medium">Restrictions</p>
+                                <div>
+                                    <label className="label">Plans (none selected = any plan)</label>
+                                    <div className="flex flex-wrap gap-2">
+                                        {plans.map((plan) => (
+                                            <button
+                                                key={plan.id}
+                                                type="button"
+                                                onClick={() => setFormData({ ...formData, plan_ids: toggle(formData.plan_ids, plan.id) })}
+                                                className={`px-3 py-1 rounded-lg text-sm border ${formData.plan_ids.includes(plan.id)
+                                                    ? 'bg-primary-500/20 border-primary-500 text-primary-400'
+                                                    : 'border-dark-600 text-dark-300 hover:border-dark-500'
+                                                    }`}
+                                            >
+                                                {plan.name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="label">Tiers (none selected = any tier)</label>
+                                    <div className="flex flex-wrap gap-2">
+                                        {TIERS.map((tier) => (
+                                            <button
+                                                key={tier}
+                                                type="button"
+                                                onClick={() => setFormData({ ...formData, tiers: toggle(formData.tiers, tier) })}
+                                                className={`px-3 py-1 rounded-lg text-sm border capitalize ${formData.tiers.includes(tier)
+                                                    ? 'bg-primary-500/20 border-primary-500 text-primary-400'
+                                                    : 'border-dark-600 text-dark-300 hover:border-dark-500'
+                                                    }`}
+                                            >
+                                                {tier.replace('_', ' ')}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="label">Specific Users (emails)</label>
+                                        <textarea
+                                            value={formData.user_emails}
+                                            onChange={(e) => setFormData({ ...formData, user_emails: e.target.value })}
+                                            className="input resize-none"
+                                            rows={2}
+                                            placeholder="jane@example.com, ..."
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="label">Email Domains</label>
+                                        <textarea
+                                            value={formData.email_domains}
+                                            onChange={(e) => setFormData({ ...formData, email_domains: e.target.value })}
+                                            className="input resize-none"
+                                            rows={2}
+                                            placeholder="acme.com, ..."
+                                        />
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4 items-end">
+                                    <div>
+                                        <label className="label">Billing Cycle</label>
+                                        <select
+                                            value={formData.billing_cycle}
+                                            onChange={(e) => setFormData({ ...formData, billing_cycle: e.target.value as CouponBillingCycle | '' })}
+                                            className="select"
+                                        >
+                                            <option value="">Monthly or yearly</option>
+                                            <option value="monthly">Monthly only</option>
+                                            <option value="yearly">Yearly only</option>
+                                        </select>
+                                    </div>
+                                    <label className="flex items-center gap-2 text-sm text-dark-300 cursor-pointer pb-3">
+                                        <input
+                                            type="checkbox"
+                                            checked={formData.first_purchase_only}
+                                            onChange={(e) => setFormData({ ...formData, first_purchase_only: e.target.checked })}
+                                            className="w-4 h-4 rounded"
+                                        />
+                                        First purchase only
+                                    </label>
+                                </div>
+                            </div>
+
                             <div className="flex gap-3 pt-4">
-                                <button type="button" onClick={() => setShowForm(false)} className="btn-secondary flex-1">
+                                <button type="button" onClick={closeForm} className="btn-secondary flex-1">
                                     Cancel
                                 </button>
-                                <button type="submit" className="btn-primary flex-1">
-                                    Create Coupon
+                                <button type="submit" disabled={saving} className="btn-primary flex-1">
+                                    {saving ? <div className="spinner" /> : editingCoupon ? 'Save Changes' : formMode === 'batch' ? 'Generate Codes' : 'Create Coupon'}
                                 </button>
                             </div>
                         </form>
@@ -167,88 +586,138 @@ export default function ManageCoupons() {
                 </div>
             )}
 
-            {/* Coupons Table */}
-            <div className="card overflow-hidden">
-                {loading ? (
-                    <div className="p-8 text-center">
-                        <div className="spinner text-primary-400 mx-auto mb-4" />
-                        <p className="text-dark-400">Loading coupons...</p>
-                    </div>
-                ) : coupons.length === 0 ? (
-                    <div className="p-12 text-center">
-                        <Ticket className="w-16 h-16 text-dark-600 mx-auto mb-4" />
-                        <h3 className="text-xl font-semibold text-white mb-2">No coupons yet</h3>
-                        <p className="text-dark-400">Create your first coupon to offer discounts</p>
-                    </div>
-                ) : (
-                    <div className="overflow-x-auto">
-                        <table className="table">
-                            <thead>
-                                <tr>
-                                    <th>Code</th>
-                                    <th>Discount</th>
-                                    <th>Usage</th>
-                                    <th>Valid Until</th>
-                                    <th>Status</th>
-                                    <th className="w-20">Actions</th>
-                                </tr>
-                            </thead>
-                            <tbody>
-                                {coupons.map((coupon) => (
-                                    <tr key={coupon.id}>
-                                        <td>
-                                            <div className="flex items-center gap-2">
-                                                <code className="bg-dark-700 px-2 py-1 rounded text-primary-400 font-mono">
-                                                    {coupon.code}
-                                                </code>
-                                                <button
-                                                    onClick={() => handleCopyCode(coupon.code)}
-                                                    className="p-1 hover:bg-dark-700 rounded"
-                                                >
-                                                    {copiedCode === coupon.code ? (
-                                                        <Check className="w-4 h-4 text-green-400" />
+            {/* Redemption Log Modal */}
+            {redemptionCoupon && (
+                <CouponRedemptionsModal coupon={redemptionCoupon} onClose={() => setRedemptionCoupon(null)} />
+            )}
+
+            {tab === 'tester' ? (
+                <CouponTesterPanel plans={plans} onError={(message) => setNotification({ type: 'error', message })} />
+            ) : tab === 'report' ? (
+                <CouponReportPanel
+                    coupons={coupons}
+                    batches={batches}
+                    onSelectCoupon={setRedemptionCoupon}
+                    onError={(message) => setNotification({ type: 'error', message })}
+                />
+            ) : tab === 'batches' ? (
+                <CouponBatchesPanel
+                    batches={batches}
+                    loading={batchesLoading}
+                    onChange={loadBatches}
+                    onNotify={(type, message) => setNotification({ type, message })}
+                />
+            ) : (
+                <div className="card overflow-hidden">
+                    {loading ? (
+                        <div className="p-8 text-center">
+                            <div className="spinner text-primary-400 mx-auto mb-4" />
+                            <p className="text-dark-400">Loading coupons...</p>
+                        </div>
+                    ) : coupons.length === 0 ? (
+                        <div className="p-12 text-center">
+                            <Ticket className="w-16 h-16 text-dark-600 mx-auto mb-4" />
+                            <h3 className="text-xl font-semibold text-white mb-2">No coupons yet</h3>
+                            <p className="text-dark-400">Create your first coupon to offer discounts</p>
+                        </div>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="table">
+                                <thead>
+                                    <tr>
+                                        <th>Code</th>
+                                        <th>Discount</th>
+                                        <th>Restrictions</th>
+                                        <th>Usage</th>
+                                        <th>Valid Until</th>
+                                        <th>Status</th>
+                                        <th className="w-32">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {coupons.map((coupon) => {
+                                        const rules = describeRestrictions(coupon);
+                                        return (
+                                            <tr key={coupon.id}>
+                                                <td>
+                                                    <div className="flex items-center gap-2">
+                                                        <code className="bg-dark-700 px-2 py-1 rounded text-primary-400 font-mono">
+                                                            {coupon.code}
+                                                        </code>
+                                                        <button
+                                                            onClick={() => handleCopyCode(coupon.code)}
+                                                            className="p-1 hover:bg-dark-700 rounded"
+                                                        >
+                                                            {copiedCode === coupon.code ? (
+                                                                <Check className="w-4 h-4 text-green-400" />
+                                                            ) : (
+                                                                <Copy className="w-4 h-4 text-dark-400" />
+                                                            )}
+                                                        </button>
+                                                    </div>
+                                                </td>
+                                                <td>
+                                                    <span className="badge-accent">{formatDiscount(coupon)}</span>
+                                                </td>
+                                                <td>
+                                                    {rules.length === 0 ? (
+                                                        <span className="text-dark-500 text-sm">Anyone</span>
                                                     ) : (
-                                                        <Copy className="w-4 h-4 text-dark-400" />
+                                                        <div className="flex flex-wrap gap-1 max-w-xs">
+                                                            {rules.map((rule) => (
+                                                                <span key={rule} className="px-2 py-0.5 rounded bg-dark-700 text-dark-300 text-xs">
+                                                                    {rule}
+                                                                </span>
+                                                            ))}
+                                                        </div>
                                                     )}
-                                                </button>
-                                            </div>
-                                        </td>
-                                        <td>
-                                            <span className="badge-accent">
-                                                {coupon.discount_type === 'percentage'
-                                                    ? `${coupon.discount_value}%`
-                                                    : `₹${coupon.discount_value}`}
-                                            </span>
-                                        </td>
-                                        <td className="text-dark-400">
-                                            {coupon.current_uses} / {coupon.max_uses || '∞'}
-                                        </td>
-                                        <td className="text-dark-400 text-sm">
-                                            {coupon.valid_until ? formatDate(coupon.valid_until) : 'No expiry'}
-                                        </td>
-                                        <td>
-                                            <button
-                                                onClick={() => handleToggleActive(coupon)}
-                                                className={`badge ${coupon.is_active ? 'badge-success' : 'badge-danger'}`}
-                                            >
-                                                {coupon.is_active ? 'Active' : 'Inactive'}
-                                            </button>
-                                        </td>
-                                        <td>
-                                            <button
-                                                onClick={() => handleDelete(coupon.id)}
-                                                className="p-2 hover:bg-red-500/20 rounded-lg text-red-400"
-                                            >
-                                                <Trash2 className="w-4 h-4" />
-                                            </button>
-                                        </td>
-                                    </tr>
-                                ))}
-                            </tbody>
-                        </table>
-                    </div>
-                )}
-            </div>
+                                                </td>
+                                                <td className="text-dark-400">
+                                                    {coupon.current_uses} / {coupon.max_uses || '∞'}
+                                                </td>
+                                                <td className="text-dark-400 text-sm">
+                                                    {coupon.valid_until ? formatDate(coupon.valid_until) : 'No expiry'}
+                                                </td>
+                                                <td>
+                                                    <button
+                                                        onClick={() => handleToggleActive(coupon)}
+                                                        className={`badge ${coupon.is_active ? 'badge-success' : 'badge-danger'}`}
+                                                    >
+                                                        {coupon.is_active ? 'Active' : 'Inactive'}
+                                                    </button>
+                                                </td>
+                                                <td>
+                                                    <div className="flex items-center gap-1">
+                                                        <button
+                                                            onClick={() => setRedemptionCoupon(coupon)}
+                                                            className="p-2 hover:bg-dark-700 rounded-lg text-dark-400"
+                                                            title="Redemptions"
+                                                        >
+                                                            <History className="w-4 h-4" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => openEdit(coupon)}
+                                                            className="p-2 hover:bg-dark-700 rounded-lg text-dark-400"
+                                                        >
+                                                            <Edit className="w-4 h-4" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleDelete(coupon.id)}
+                                                            className="p-2 hover:bg-red-500/20 rounded-lg text-red-400"
+                                                        >
+                                                            <Trash2 className="w-4 h-4" />
+                                                        </button>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
     );
 }
@@ -1,52 +1,213 @@
 import { useState, useEffect } from 'react';
-import { Edit, X, Check } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-import { formatCurrency } from '../lib/utils';
-
-interface SubscriptionPlan {
-    id: string;
-    name: string;
-    tier: string;
-    price_monthly: number;
-    price_yearly: number | null;
-    leads_per_month: number;
-    emails_per_month: number;
-    templates_limit: number;
-    can_export_csv: boolean;
-    priority_support: boolean;
-    trial_days: number;
-    features: string[];
-    is_active: boolean;
+import { Edit, X, Check, Plus, Copy, History, AlertCircle, CheckCircle } from 'lucide-react';
+import {
+    getAllSubscriptionPlans,
+    createSubscriptionPlan,
+    updateSubscriptionPlan,
+    getSubscriptionPlanVersions,
+    getPlanSubscriptions,
+    PLAN_VERSION_FIELDS,
+    type SubscriptionPlanVersion,
+    type UserSummary,
+} from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { formatCurrency, formatDate } from '../lib/utils';
+import type { SubscriptionPlan, SubscriptionTier, UserSubscription } from '../lib/database.types';
+
+type PlanSubscription = UserSubscription & { user_profiles: UserSummary };
+
+const TIERS: SubscriptionTier[] = ['free_trial', 'basic', 'pro', 'ultra_pro'];
+
+const emptyForm = {
+    name: '',
+    tier: 'basic' as SubscriptionTier,
+    price_monthly: '0',
+    price_yearly: '',
+    leads_per_month: '0',
+    emails_per_month: '0',
+    templates_limit: '0',
+    trial_days: '0',
+    can_export_csv: false,
+    priority_support: false,
+    features: '',
+    is_active: true,
+};
+
+type PlanForm = typeof emptyForm;
+
+const fieldLabels: Record<(typeof PLAN_VERSION_FIELDS)[number], string> = {
+    name: 'Name',
+    price_monthly: 'Monthly price',
+    price_yearly: 'Yearly price',
+    leads_per_month: 'Leads/month',
+    emails_per_month: 'Emails/month',
+    templates_limit: 'Templates',
+    can_export_csv: 'CSV export',
+    priority_support: 'Priority support',
+    trial_days: 'Trial days',
+    features: 'Features',
+};
+
+function validatePlanForm(form: PlanForm): string[] {
+    const errors: string[] = [];
+    const isWholeNumber = (value: string) => /^\d+$/.test(value.trim());
+
+    if (!form.name.trim()) errors.push('Plan name is required');
+    if (!/^\d+(\.\d{1,2})?$/.test(form.price_monthly.trim())) {
+        errors.push('Monthly price must be a non-negative amount');
+    }
+    if (form.price_yearly.trim()) {
+        if (!/^\d+(\.\d{1,2})?$/.test(form.price_yearly.trim())) {
+            errors.push('Yearly price must be a non-negative amount');
+        } else if (parseFloat(form.price_yearly) > parseFloat(form.price_monthly) * 12) {
+            errors.push('Yearly price should not exceed 12 months of the monthly price');
+        }
+    }
+    if (!isWholeNumber(form.leads_per_month)) errors.push('Leads per month must be a whole number');
+    if (!isWholeNumber(form.emails_per_month)) errors.push('Emails per month must be a whole number');
+    if (!isWholeNumber(form.templates_limit)) errors.push('Templates limit must be a whole number');
+    if (!isWholeNumber(form.trial_days) || parseInt(form.trial_days) > 365) {
+        errors.push('Trial days must be a whole number between 0 and 365');
+    }
+    return errors;
 }
 
 export default function ManageSubscriptions() {
+    const { user } = useAuth();
     const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
     const [loading, setLoading] = useState(true);
-    const [, setEditingPlan] = useState<SubscriptionPlan | null>(null);
+    const [editingPlan, setEditingPlan] = useState<SubscriptionPlan | null>(null);
+    const [showForm, setShowForm] = useState(false);
+    const [formData, setFormData] = useState<PlanForm>(emptyForm);
+    const [formErrors, setFormErrors] = useState<string[]>([]);
+    const [saving, setSaving] = useState(false);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    const [historyPlan, setHistoryPlan] = useState<SubscriptionPlan | null>(null);
+    const [versions, setVersions] = useState<SubscriptionPlanVersion[]>([]);
+    const [subscriptions, setSubscriptions] = useState<PlanSubscription[]>([]);
+    const [historyLoading, setHistoryLoading] = useState(false);
 
     useEffect(() => {
         loadPlans();
     }, []);
 
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 4000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
     async function loadPlans() {
         setLoading(true);
-        const { data } = await supabase
-            .from('subscription_plans')
-            .select('*')
-            .order('price_monthly', { ascending: true });
-
+        const { data } = await getAllSubscriptionPlans();
         if (data) setPlans(data);
         setLoading(false);
     }
 
     const handleToggleActive = async (plan: SubscriptionPlan) => {
-        await supabase
-            .from('subscription_plans')
-            .update({ is_active: !plan.is_active })
-            .eq('id', plan.id);
+        await updateSubscriptionPlan(plan.id, { is_active: !plan.is_active }, user?.id);
+        await loadPlans();
+    };
+
+    const openForm = (plan: SubscriptionPlan | null, duplicate = false) => {
+        setFormData(plan ? {
+            name: duplicate ? `${plan.name} (Copy)` : plan.name,
+            tier: plan.tier,
+            price_monthly: String(plan.price_monthly),
+            price_yearly: plan.price_yearly !== null ? String(plan.price_yearly) : '',
+            leads_per_month: String(plan.leads_per_month),
+            emails_per_month: String(plan.emails_per_month),
+            templates_limit: String(plan.templates_limit),
+            trial_days: String(plan.trial_days),
+            can_export_csv: plan.can_export_csv,
+            priority_support: plan.priority_support,
+            features: (plan.features || []).join('\n'),
+            // Duplicates start inactive so they don't appear on the pricing page before review
+            is_active: duplicate ? false : plan.is_active,
+        } : emptyForm);
+        setEditingPlan(duplicate ? null : plan);
+        setFormErrors([]);
+        setShowForm(true);
+    };
+
+    const closeForm = () => {
+        setShowForm(false);
+        setEditingPlan(null);
+        setFormErrors([]);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const errors = validatePlanForm(formData);
+        setFormErrors(errors);
+        if (errors.length > 0) return;
+
+        const planData = {
+            name: formData.name.trim(),
+            tier: formData.tier,
+            price_monthly: parseFloat(formData.price_monthly),
+            price_yearly: formData.price_yearly.trim() ? parseFloat(formData.price_yearly) : null,
+            leads_per_month: parseInt(formData.leads_per_month),
+            emails_per_month: parseInt(formData.emails_per_month),
+            templates_limit: parseInt(formData.templates_limit),
+            trial_days: parseInt(formData.trial_days),
+            can_export_csv: formData.can_export_csv,
+            priority_support: formData.priority_support,
+            features: formData.features.split('\n').map((f) => f.trim()).filter(Boolean),
+            is_active: formData.is_active,
+        };
+
+        setSaving(true);
+        const { error } = editingPlan
+            ? await updateSubscriptionPlan(editingPlan.id, planData, user?.id)
+            : await createSubscriptionPlan(planData, user?.id);
+        setSaving(false);
+
+        if (error) {
+            setFormErrors([error.message]);
+            return;
+        }
+
+        setNotification({ type: 'success', message: editingPlan ? 'Plan updated' : 'Plan created' });
+        closeForm();
         await loadPlans();
     };
 
+    const openHistory = async (plan: SubscriptionPlan) => {
+        setHistoryPlan(plan);
+        setHistoryLoading(true);
+        const [versionsRes, subscriptionsRes] = await Promise.all([
+            getSubscriptionPlanVersions(plan.id),
+            getPlanSubscriptions(plan.id),
+        ]);
+        setVersions(versionsRes.data || []);
+        setSubscriptions(subscriptionsRes.data || []);
+        setHistoryLoading(false);
+    };
+
+    // A subscription belongs to the version that was in effect when it started
+    const subscriptionsForVersion = (index: number) => {
+        const version = versions[index];
+        const newer = versions[index - 1];
+        const isOldest = index === versions.length - 1;
+        return subscriptions.filter((sub) => {
+            const start = new Date(sub.start_date).getTime();
+            const fromOk = isOldest || start >= new Date(version.effective_from).getTime();
+            const untilOk = !newer || start < new Date(newer.effective_from).getTime();
+            return fromOk && untilOk;
+        });
+    };
+
+    const formatFieldValue = (field: (typeof PLAN_VERSION_FIELDS)[number], value: unknown) => {
+        if (value === null || value === undefined) return '—';
+        if (field === 'price_monthly' || field === 'price_yearly') return formatCurrency(value as number);
+        if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+        if (Array.isArray(value)) return value.join(', ') || '—';
+        return String(value);
+    };
+
     const tierColors: Record<string, string> = {
         free_trial: 'border-gray-500',
         basic: 'border-blue-500',
@@ -54,6 +215,20 @@ export default function ManageSubscriptions() {
         ultra_pro: 'border-yellow-500',
     };
 
+    const numberField = (key: keyof PlanForm, label: string, step = '1') => (
+        <div>
+            <label className="label">{label}</label>
+            <input
+                type="number"
+                min="0"
+                step={step}
+                value={formData[key] as string}
+                onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+                className="input"
+            />
+        </div>
+    );
+
     return (
         <div className="space-y-6">
             <div className="flex items-center justify-between">
@@ -61,8 +236,24 @@ export default function ManageSubscriptions() {
                     <h1 className="text-2xl font-bold text-white">Subscription Plans</h1>
                     <p className="text-dark-400">Manage pricing and plan features</p>
                 </div>
+                <button onClick={() => openForm(null)} className="btn-primary">
+                    <Plus className="w-5 h-5" />
+                    Create Plan
+                </button>
             </div>
 
+            {notification && (
+                <div
+                    className={`flex items-center gap-2 p-4 rounded-xl ${notification.type === 'success'
+                        ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+                        : 'bg-red-500/20 text-red-400 border border-red-500/30'
+                        }`}
+                >
+                    {notification.type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+                    {notification.message}
+                </div>
+            )}
+
             {loading ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                     {[1, 2, 3, 4].map((i) => (
@@ -89,12 +280,29 @@ export default function ManageSubscriptions() {
                                     <h3 className="text-lg font-bold text-white">{plan.name}</h3>
                                     <span className="badge-primary text-xs">{plan.tier.replace('_', ' ')}</span>
                                 </div>
-                                <button
-                                    onClick={() => setEditingPlan(plan)}
-                                    className="p-2 hover:bg-dark-700 rounded-lg"
-                                >
-                                    <Edit className="w-4 h-4 text-dark-400" />
-                                </button>
+                                <div className="flex">
+                                    <button
+                                        onClick={() => openHistory(plan)}
+                                        className="p-2 hover:bg-dark-700 rounded-lg"
+                                        title="History"
+                                    >
+                                        <History className="w-4 h-4 text-dark-400" />
+                                    </button>
+                                    <button
+                                        onClick={() => openForm(plan, true)}
+                                        className="p-2 hover:bg-dark-700 rounded-lg"
+                                        title="Duplicate"
+                                    >
+                                        <Copy className="w-4 h-4 text-dark-400" />
+                                    </button>
+                                    <button
+                                        onClick={() => openForm(plan)}
+                                        className="p-2 hover:bg-dark-700 rounded-lg"
+                                        title="Edit"
+                                    >
+                                        <Edit className="w-4 h-4 text-dark-400" />
+                                    </button>
+                                </div>
                             </div>
 
                             <div className="mb-4">
@@ -122,6 +330,10 @@ export default function ManageSubscriptions() {
                                     <span>Templates</span>
                                     <span className="text-white">{plan.templates_limit}</span>
                                 </div>
+                                <div className="flex justify-between text-dark-400">
+                                    <span>Trial days</span>
+                                    <span className="text-white">{plan.trial_days}</span>
+                                </div>
                                 <div className="flex justify-between text-dark-400">
                                     <span>CSV Export</span>
                                     <span className={plan.can_export_csv ? 'text-green-400' : 'text-red-400'}>
@@ -136,6 +348,17 @@ export default function ManageSubscriptions() {
                                 </div>
                             </div>
 
+                            {plan.features?.length > 0 && (
+                                <ul className="space-y-1 mb-4 text-sm text-dark-300">
+                                    {plan.features.map((feature) => (
+                                        <li key={feature} className="flex items-start gap-2">
+                                            <Check className="w-4 h-4 text-green-400 shrink-0 mt-0.5" />
+                                            {feature}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+
                             <button
                                 onClick={() => handleToggleActive(plan)}
                                 className={`w-full py-2 rounded-lg text-sm font-medium transition-colors ${plan.is_active
@@ -149,6 +372,207 @@ export default function ManageSubscriptions() {
                     ))}
                 </div>
             )}
+
+            {/* Plan Form Modal */}
+            {showForm && (
+                <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 overflow-y-auto">
+                    <div className="glass-card p-6 w-full max-w-2xl my-8">
+                        <div className="flex items-center justify-between mb-6">
+                            <h2 className="text-xl font-bold text-white">
+                                {editingPlan ? `Edit ${editingPlan.name}` : 'Create Plan'}
+                            </h2>
+                            <button onClick={closeForm} className="p-1 hover:bg-dark-700 rounded">
+                                <X className="w-5 h-5 text-dark-400" />
+                            </button>
+                        </div>
+
+                        {formErrors.length > 0 && (
+                            <div className="mb-4 p-4 rounded-xl bg-red-500/20 text-red-400 border border-red-500/30 text-sm space-y-1">
+                                {formErrors.map((error) => (
+                                    <p key={error} className="flex items-center gap-2">
+                                        <AlertCircle className="w-4 h-4 shrink-0" />
+                                        {error}
+                                    </p>
+                                ))}
+                            </div>
+                        )}
+
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="label">Plan Name *</label>
+                                    <input
+                                        type="text"
+                                        value={formData.name}
+                                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                        className="input"
+                                        placeholder="e.g. Pro"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Tier</label>
+                                    <select
+                                        value={formData.tier}
+                                        onChange={(e) => setFormData({ ...formData, tier: e.target.value as SubscriptionTier })}
+                                        className="select"
+                                        disabled={!!editingPlan}
+                                    >
+                                        {TIERS.map((tier) => (
+                                            <option key={tier} value={tier}>{tier.replace('_', ' ')}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                {numberField('price_monthly', 'Monthly Price (₹)', '0.01')}
+                                {numberField('price_yearly', 'Yearly Price (₹, optional)', '0.01')}
+                            </div>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                {numberField('leads_per_month', 'Leads/month')}
+                                {numberField('emails_per_month', 'Emails/month')}
+                                {numberField('templates_limit', 'Templates')}
+                                {numberField('trial_days', 'Trial days')}
+                            </div>
+                            <div className="flex flex-wrap gap-6">
+                                <label className="flex items-center gap-2 text-dark-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={formData.can_export_csv}
+                                        onChange={(e) => setFormData({ ...formData, can_export_csv: e.target.checked })}
+                                        className="w-4 h-4 rounded"
+                                    />
+                                    CSV export
+                                </label>
+                                <label className="flex items-center gap-2 text-dark-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={formData.priority_support}
+                                        onChange={(e) => setFormData({ ...formData, priority_support: e.target.checked })}
+                                        className="w-4 h-4 rounded"
+                                    />
+                                    Priority support
+                                </label>
+                                <label className="flex items-center gap-2 text-dark-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={formData.is_active}
+                                        onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                                        className="w-4 h-4 rounded"
+                                    />
+                                    Active
+                                </label>
+                            </div>
+                            <div>
+                                <label className="label">Features (one per line)</label>
+                                <textarea
+                                    value={formData.features}
+                                    onChange={(e) => setFormData({ ...formData, features: e.target.value })}
+                                    className="input resize-none"
+                                    rows={5}
+                                    placeholder={'Unlimited searches\nEmail support'}
+                                />
+                            </div>
+                            {editingPlan && (
+                                <p className="text-dark-500 text-xs">
+                                    Changes to pricing, limits or features are recorded as a new plan version.
+                                </p>
+                            )}
+                            <div className="flex gap-3 pt-4">
+                                <button type="button" onClick={closeForm} className="btn-secondary flex-1">
+                                    Cancel
+                                </button>
+                                <button type="submit" disabled={saving} className="btn-primary flex-1">
+                                    {saving ? <div className="spinner" /> : editingPlan ? 'Save Changes' : 'Create Plan'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+
+            {/* History Modal */}
+            {historyPlan && (
+                <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4 overflow-y-auto" onClick={() => setHistoryPlan(null)}>
+                    <div className="glass-card p-6 w-full max-w-3xl my-8" onClick={(e) => e.stopPropagation()}>
+                        <div className="flex items-center justify-between mb-6">
+                            <h2 className="text-xl font-bold text-white">{historyPlan.name} — Version History</h2>
+                            <button onClick={() => setHistoryPlan(null)} className="p-1 hover:bg-dark-700 rounded">
+                                <X className="w-5 h-5 text-dark-400" />
+                            </button>
+                        </div>
+
+                        {historyLoading ? (
+                            <div className="p-8 text-center">
+                                <div className="spinner text-primary-400 mx-auto" />
+                            </div>
+                        ) : versions.length === 0 ? (
+                            <p className="text-dark-400 text-center py-8">
+                                No versions recorded yet. The first edit to this plan will start its history.
+                            </p>
+                        ) : (
+                            <div className="space-y-4">
+                                {versions.map((version, index) => {
+                                    const previous = versions[index + 1];
+                                    const changed = previous
+                                        ? PLAN_VERSION_FIELDS.filter((field) => JSON.stringify(version[field]) !== JSON.stringify(previous[field]))
+                                        : [];
+                                    const versionSubscriptions = subscriptionsForVersion(index);
+
+                                    return (
+                                        <div key={version.id} className="bg-dark-800/50 rounded-xl p-4">
+                                            <div className="flex items-center justify-between mb-2">
+                                                <div className="flex items-center gap-2">
+                                                    <span className="badge-primary">v{version.version}</span>
+                                                    {index === 0 && <span className="badge-success">current</span>}
+                                                </div>
+                                                <span className="text-dark-500 text-xs">
+                                                    Effective {formatDate(version.effective_from, { dateStyle: 'medium', timeStyle: 'short' })}
+                                                </span>
+                                            </div>
+
+                                            {previous ? (
+                                                changed.length > 0 ? (
+                                                    <div className="space-y-1 text-sm mb-3">
+                                                        {changed.map((field) => (
+                                                            <div key={field} className="flex flex-wrap gap-2">
+                                                                <span className="text-dark-400 w-32">{fieldLabels[field]}</span>
+                                                                <span className="text-red-400 line-through">{formatFieldValue(field, previous[field])}</span>
+                                                                <span className="text-green-400">{formatFieldValue(field, version[field])}</span>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                ) : (
+                                                    <p className="text-dark-500 text-sm mb-3">No field changes</p>
+                                                )
+                                            ) : (
+                                                <p className="text-dark-400 text-sm mb-3">
+                                                    {formatCurrency(version.price_monthly)}/mo · {version.leads_per_month} leads · {version.emails_per_month} emails · {version.templates_limit} templates
+                                                </p>
+                                            )}
+
+                                            <details>
+                                                <summary className="text-dark-400 text-sm cursor-pointer">
+                                                    {versionSubscriptions.length} subscription{versionSubscriptions.length === 1 ? '' : 's'} started on this version
+                                                </summary>
+                                                <div className="mt-2 space-y-1">
+                                                    {versionSubscriptions.map((sub) => (
+                                                        <div key={sub.id} className="flex justify-between text-sm">
+                                                            <span className="text-white">{sub.user_profiles?.email || sub.user_id}</span>
+                                                            <span className="text-dark-400">
+                                                                {formatDate(sub.start_date)} · {sub.status}
+                                                            </span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </details>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
@@ -1,9 +1,12 @@
 import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import {
     Users,
     Search,
     ChevronLeft,
     ChevronRight,
+    ChevronUp,
+    ChevronDown,
     MoreHorizontal,
     Crown,
     Ban,
@@ -13,32 +16,91 @@ import {
     Target,
     Trash2,
     RefreshCw,
+    CreditCard,
 } from 'lucide-react';
-import { supabase, getAllUsers, updateUserAsAdmin } from '../lib/supabase';
-import { formatDate, getInitials } from '../lib/utils';
-import type { UserProfile, SubscriptionTier } from '../lib/database.types';
+import { getAllUsers, updateUserAsAdmin, deleteUserAsAdmin, type UserSortField } from '../lib/supabase';
+import { formatDate, formatRelativeTime, getInitials } from '../lib/utils';
+import type { UserProfile, SubscriptionTier, SubscriptionStatus, UserRole } from '../lib/database.types';
 
 const USERS_PER_PAGE = 10;
 
+const TIERS: SubscriptionTier[] = ['free_trial', 'basic', 'pro', 'ultra_pro'];
+const STATUSES: SubscriptionStatus[] = ['active', 'cancelled', 'expired', 'pending'];
+const ROLES: UserRole[] = ['user', 'admin'];
+const SORT_FIELDS: UserSortField[] = [
+    'created_at',
+    'last_login_at',
+    'email',
+    'full_name',
+    'subscription_tier',
+    'leads_used_this_month',
+];
+
+// Only accept URL values we know about, so a hand-edited link can't produce a broken query
+function pick<T extends string>(value: string | null, allowed: readonly T[]): T | undefined {
+    return allowed.find((item) => item === value);
+}
+
 export default function ManageUsers() {
+    const [searchParams, setSearchParams] = useSearchParams();
     const [users, setUsers] = useState<UserProfile[]>([]);
     const [loading, setLoading] = useState(true);
-    const [searchQuery, setSearchQuery] = useState('');
-    const [currentPage, setCurrentPage] = useState(1);
+    const [searchQuery, setSearchQuery] = useState(searchParams.get('q') || '');
     const [totalCount, setTotalCount] = useState(0);
     const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
     const [showActionModal, setShowActionModal] = useState(false);
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
+    const currentPage = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+    const tierFilter = pick(searchParams.get('tier'), TIERS);
+    const statusFilter = pick(searchParams.get('status'), STATUSES);
+    const roleFilter = pick(searchParams.get('role'), ROLES);
+    const activeFilter = pick(searchParams.get('active'), ['true', 'false'] as const);
+    const lastLoginFrom = searchParams.get('login_from') || '';
+    const lastLoginTo = searchParams.get('login_to') || '';
+    const sortBy = pick(searchParams.get('sort'), SORT_FIELDS) || 'created_at';
+    const ascending = searchParams.get('dir') === 'asc';
+
+    const updateParams = (updates: Record<string, string | null>, resetPage = true) => {
+        setSearchParams((prev) => {
+            const next = new URLSearchParams(prev);
+            Object.entries(updates).forEach(([key, value]) => {
+                if (value) next.set(key, value);
+                else next.delete(key);
+            });
+            if (resetPage) next.delete('page');
+            return next;
+        }, { replace: true });
+    };
+
+    // Debounce typing into the URL so every keystroke doesn't trigger a query
+    useEffect(() => {
+        const timer = setTimeout(() => {
+            if (searchQuery.trim() !== (searchParams.get('q') || '')) {
+                updateParams({ q: searchQuery.trim() || null });
+            }
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [searchQuery]);
+
     useEffect(() => {
         loadUsers();
-    }, [currentPage]);
+    }, [searchParams]);
 
     async function loadUsers() {
         setLoading(true);
         const { data, count } = await getAllUsers({
             limit: USERS_PER_PAGE,
             offset: (currentPage - 1) * USERS_PER_PAGE,
+            search: searchParams.get('q') || undefined,
+            tier: tierFilter,
+            status: statusFilter,
+            role: roleFilter,
+            isActive: activeFilter ? activeFilter === 'true' : undefined,
+            lastLoginFrom: lastLoginFrom ? new Date(`${lastLoginFrom}T00:00:00`).toISOString() : undefined,
+            lastLoginTo: lastLoginTo ? new Date(`${lastLoginTo}T23:59:59.999`).toISOString() : undefined,
+            sortBy,
+            ascending,
         });
 
         if (data) setUsers(data);
@@ -46,19 +108,37 @@ export default function ManageUsers() {
         setLoading(false);
     }
 
-    const filteredUsers = users.filter((user) =>
-        user.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        user.full_name?.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-
     const totalPages = Math.ceil(totalCount / USERS_PER_PAGE);
+    const hasFilters = ['q', 'tier', 'status', 'role', 'active', 'login_from', 'login_to'].some((key) => searchParams.has(key));
 
-    const handleUpdateTier = async (tier: SubscriptionTier) => {
-        if (!selectedUser) return;
-        await updateUserAsAdmin(selectedUser.id, { subscription_tier: tier });
-        await loadUsers();
+    const setCurrentPage = (update: (page: number) => number) => {
+        const page = update(currentPage);
+        updateParams({ page: page > 1 ? String(page) : null }, false);
     };
 
+    const handleSort = (field: UserSortField) => {
+        if (sortBy === field) {
+            updateParams({ dir: ascending ? null : 'asc' });
+        } else {
+            updateParams({ sort: field === 'created_at' ? null : field, dir: null });
+        }
+    };
+
+    const clearFilters = () => {
+        setSearchQuery('');
+        setSearchParams({}, { replace: true });
+    };
+
+    const renderSortHeader = (label: string, field: UserSortField) => (
+        <button
+            onClick={() => handleSort(field)}
+            className="flex items-center gap-1 uppercase tracking-wider hover:text-white"
+        >
+            {label}
+            {sortBy === field && (ascending ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />)}
+        </button>
+    );
+
     const handleToggleActive = async () => {
         if (!selectedUser) return;
         await updateUserAsAdmin(selectedUser.id, { is_active: !selectedUser.is_active });
@@ -85,7 +165,7 @@ export default function ManageUsers() {
 
     const handleDeleteUser = async () => {
         if (!selectedUser) return;
-        await supabase.from('user_profiles').delete().eq('id', selectedUser.id);
+        await deleteUserAsAdmin(selectedUser.id);
         await loadUsers();
         setShowDeleteConfirm(false);
         setSelectedUser(null);
@@ -109,22 +189,85 @@ export default function ManageUsers() {
             <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
                 <div>
                     <h1 className="text-2xl font-bold text-white">Manage Users</h1>
-                    <p className="text-dark-400">{totalCount} total registered users</p>
+                    <p className="text-dark-400">
+                        {totalCount} {hasFilters ? 'matching' : 'total registered'} users
+                    </p>
                 </div>
             </div>
 
-            {/* Search */}
-            <div className="card p-4">
+            {/* Search & Filters */}
+            <div className="card p-4 space-y-4">
                 <div className="relative">
                     <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-dark-400" />
                     <input
                         type="text"
                         value={searchQuery}
                         onChange={(e) => setSearchQuery(e.target.value)}
-                        placeholder="Search by name or email..."
+                        placeholder="Search by name, email, company or phone..."
                         className="input pl-12"
                     />
                 </div>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+                    <select
+                        value={tierFilter || ''}
+                        onChange={(e) => updateParams({ tier: e.target.value || null })}
+                        className="select"
+                    >
+                        <option value="">All tiers</option>
+                        {TIERS.map((tier) => (
+                            <option key={tier} value={tier}>{tier.replace('_', ' ')}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={statusFilter || ''}
+                        onChange={(e) => updateParams({ status: e.target.value || null })}
+                        className="select"
+                    >
+                        <option value="">All subscription statuses</option>
+                        {STATUSES.map((status) => (
+                            <option key={status} value={status}>{status}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={roleFilter || ''}
+                        onChange={(e) => updateParams({ role: e.target.value || null })}
+                        className="select"
+                    >
+                        <option value="">All roles</option>
+                        {ROLES.map((role) => (
+                            <option key={role} value={role}>{role}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={activeFilter || ''}
+                        onChange={(e) => updateParams({ active: e.target.value || null })}
+                        className="select"
+                    >
+                        <option value="">Active & suspended</option>
+                        <option value="true">Active only</option>
+                        <option value="false">Suspended only</option>
+                    </select>
+                    <input
+                        type="date"
+                        value={lastLoginFrom}
+                        onChange={(e) => updateParams({ login_from: e.target.value || null })}
+                        className="input"
+                        title="Last login from"
+                    />
+                    <input
+                        type="date"
+                        value={lastLoginTo}
+                        onChange={(e) => updateParams({ login_to: e.target.value || null })}
+                        className="input"
+                        title="Last login until"
+                    />
+                </div>
+                {hasFilters && (
+                    <button onClick={clearFilters} className="btn-ghost btn-sm">
+                        <X className="w-4 h-4" />
+                        Clear filters
+                    </button>
+                )}
             </div>
 
             {/* Users Table */}
@@ -134,28 +277,29 @@ export default function ManageUsers() {
                         <div className="spinner text-primary-400 mx-auto mb-4" />
                         <p className="text-dark-400">Loading users...</p>
                     </div>
-                ) : filteredUsers.length === 0 ? (
+                ) : users.length === 0 ? (
                     <div className="p-12 text-center">
                         <Users className="w-16 h-16 text-dark-600 mx-auto mb-4" />
                         <h3 className="text-xl font-semibold text-white mb-2">No users found</h3>
-                        <p className="text-dark-400">Try a different search query</p>
+                        <p className="text-dark-400">Try a different search or filter</p>
                     </div>
                 ) : (
                     <div className="overflow-x-auto">
                         <table className="table">
                             <thead>
                                 <tr>
-                                    <th>User</th>
+                                    <th>{renderSortHeader('User', 'full_name')}</th>
                                     <th>Role</th>
-                                    <th>Subscription</th>
-                                    <th>Usage</th>
+                                    <th>{renderSortHeader('Subscription', 'subscription_tier')}</th>
+                                    <th>{renderSortHeader('Usage', 'leads_used_this_month')}</th>
                                     <th>Status</th>
-                                    <th>Joined</th>
+                                    <th>{renderSortHeader('Last Login', 'last_login_at')}</th>
+                                    <th>{renderSortHeader('Joined', 'created_at')}</th>
                                     <th className="w-10"></th>
                                 </tr>
                             </thead>
                             <tbody>
-                                {filteredUsers.map((user) => (
+                                {users.map((user) => (
                                     <tr key={user.id} className="hover:bg-dark-800/50">
                                         <td>
                                             <div className="flex items-center gap-3">
@@ -163,7 +307,9 @@ export default function ManageUsers() {
                                                     {user.full_name ? getInitials(user.full_name) : '?'}
                                                 </div>
                                                 <div>
-                                                    <p className="text-white font-medium">{user.full_name || 'No Name'}</p>
+                                                    <Link to={`/users/${user.id}`} className="text-white font-medium hover:text-primary-400">
+                                                        {user.full_name || 'No Name'}
+                                                    </Link>
                                                     <p className="text-dark-500 text-sm">{user.email}</p>
                                                 </div>
                                             </div>
@@ -200,6 +346,9 @@ export default function ManageUsers() {
                                                 </span>
                                             )}
                                         </td>
+                                        <td className="text-dark-400 text-sm">
+                                            {user.last_login_at ? formatRelativeTime(user.last_login_at) : 'Never'}
+                                        </td>
                                         <td className="text-dark-400 text-sm">
                                             {formatDate(user.created_at)}
                                         </td>
@@ -294,24 +443,14 @@ export default function ManageUsers() {
                             </div>
                         </div>
 
-                        {/* Change Tier */}
-                        <div className="mb-4">
-                            <p className="text-dark-400 text-sm mb-2">Change Subscription Tier</p>
-                            <div className="grid grid-cols-2 gap-2">
-                                {(['free_trial', 'basic', 'pro', 'ultra_pro'] as SubscriptionTier[]).map((tier) => (
-                                    <button
-                                        key={tier}
-                                        onClick={() => handleUpdateTier(tier)}
-                                        className={`px-3 py-2 text-sm rounded-lg border transition-all ${selectedUser.subscription_tier === tier
-                                            ? 'bg-primary-500/20 border-primary-500 text-primary-400'
-                                            : 'border-dark-600 text-dark-300 hover:border-dark-500 hover:bg-dark-700'
-                                            }`}
-                                    >
-                                        {tier.replace('_', ' ')}
-                                    </button>
-                                ))}
-                            </div>
-                        </div>
+                        {/* Subscription */}
+                        <Link
+                            to={`/users/${selectedUser.id}`}
+                            className="mb-4 w-full px-4 py-3 text-sm bg-primary-500/20 hover:bg-primary-500/30 border border-primary-500/50 rounded-lg flex items-center gap-3 text-primary-400"
+                        >
+                            <CreditCard className="w-4 h-4" />
+                            View details & manage subscription
+                        </Link>
 
                         {/* Actions */}
                         <div className="space-y-2">
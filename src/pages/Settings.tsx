@@ -1,6 +1,13 @@
 import { useState, useEffect } from 'react';
-import { Settings as SettingsIcon, Save, RefreshCw, Globe, Palette, Image } from 'lucide-react';
-import { getSiteSettings, updateSiteSetting, supabase } from '../lib/supabase';
+import { Settings as SettingsIcon, Save, RefreshCw, Globe, Palette, Image, Clock } from 'lucide-react';
+import {
+    getSiteSettings,
+    updateSiteSetting,
+    supabase,
+    DEFAULT_TICKET_SLA,
+    TICKET_PRIORITIES,
+    ticketSlaSettingKey,
+} from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 
 interface SiteSetting {
@@ -12,6 +19,30 @@ interface SiteSetting {
 
 type SettingsData = Record<string, SiteSetting>;
 
+// SLA targets may not be seeded in site_settings yet, so they are listed with their defaults
+const SLA_SETTINGS: SettingsData = Object.fromEntries(
+    TICKET_PRIORITIES.flatMap((priority) => [
+        [
+            ticketSlaSettingKey(priority, 'first_response'),
+            {
+                value: String(DEFAULT_TICKET_SLA[priority].firstResponseHours),
+                type: 'number',
+                description: `Hours until the first admin reply on ${priority} priority tickets`,
+                is_public: false,
+            },
+        ],
+        [
+            ticketSlaSettingKey(priority, 'resolution'),
+            {
+                value: String(DEFAULT_TICKET_SLA[priority].resolutionHours),
+                type: 'number',
+                description: `Hours until ${priority} priority tickets should be closed`,
+                is_public: false,
+            },
+        ],
+    ])
+);
+
 export default function Settings() {
     const { user } = useAuth();
     const [settings, setSettings] = useState<SettingsData>({});
@@ -27,13 +58,19 @@ export default function Settings() {
     async function loadSettings() {
         setLoading(true);
         const { data } = await getSiteSettings();
-        if (data) setSettings(data);
+        if (data) setSettings({ ...SLA_SETTINGS, ...data });
         setLoading(false);
     }
 
     const handleSave = async (key: string, value: string) => {
         setSaving(true);
-        await updateSiteSetting(key, value, user?.id);
+        const setting = settings[key];
+        await updateSiteSetting(
+            key,
+            value,
+            user?.id,
+            setting && { type: setting.type, description: setting.description, is_public: setting.is_public }
+        );
         setSavedKey(key);
         setSaving(false);
         setTimeout(() => setSavedKey(null), 2000);
@@ -81,6 +118,11 @@ export default function Settings() {
             icon: Globe,
             keys: ['meta_title', 'meta_description', 'og_image_url'],
         },
+        {
+            title: 'Support SLA',
+            icon: Clock,
+            keys: Object.keys(SLA_SETTINGS),
+        },
     ];
 
     const renderSettingInput = (key: string, setting: SiteSetting) => {
@@ -88,6 +130,7 @@ export default function Settings() {
         const isColor = key.includes('color');
         const isUrl = key.includes('url');
         const isTextArea = key.includes('description');
+        const isNumber = setting.type === 'number';
 
         if (isImage) {
             return (
@@ -209,7 +252,7 @@ export default function Settings() {
         return (
             <div className="flex items-center gap-3">
                 <input
-                    type={isUrl ? 'url' : 'text'}
+                    type={isUrl ? 'url' : isNumber ? 'number' : 'text'}
                     value={setting.value}
                     onChange={(e) =>
                         setSettings((prev) => ({
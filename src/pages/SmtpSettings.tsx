@@ -11,18 +11,10 @@ import {
     TestTube,
     ExternalLink,
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
-
-interface EmailConfig {
-    id?: string;
-    from_email: string;
-    from_name: string;
-    notification_emails: string[];
-    is_active: boolean;
-}
+import { supabase, getSmtpSettings, saveSmtpSettings, type EmailSettings } from '../lib/supabase';
 
 export default function SmtpSettings() {
-    const [config, setConfig] = useState<EmailConfig>({
+    const [config, setConfig] = useState<EmailSettings>({
         from_email: 'no-reply@notifications.stachbit.in',
         from_name: 'Stachbit',
         notification_emails: [],
@@ -47,10 +39,7 @@ export default function SmtpSettings() {
 
     async function loadSettings() {
         setLoading(true);
-        const { data, error } = await supabase
-            .from('smtp_settings')
-            .select('*')
-            .single();
+        const { data, error } = await getSmtpSettings();
 
         if (data && !error) {
             setConfig({
@@ -68,36 +57,8 @@ export default function SmtpSettings() {
         setSaving(true);
 
         try {
-            if (config.id) {
-                const { error } = await supabase
-                    .from('smtp_settings')
-                    .update({
-                        from_email: config.from_email,
-                        from_name: config.from_name,
-                        notification_emails: config.notification_emails,
-                        is_active: config.is_active,
-                        updated_at: new Date().toISOString(),
-                    })
-                    .eq('id', config.id);
-
-                if (error) throw error;
-            } else {
-                const { error } = await supabase
-                    .from('smtp_settings')
-                    .insert({
-                        from_email: config.from_email,
-                        from_name: config.from_name,
-                        notification_emails: config.notification_emails,
-                        is_active: config.is_active,
-                        smtp_host: 'resend.com',
-                        smtp_port: 443,
-                        smtp_secure: true,
-                        smtp_user: 'resend',
-                        smtp_password: 'api_key',
-                    });
-
-                if (error) throw error;
-            }
+            const { error } = await saveSmtpSettings(config);
+            if (error) throw error;
 
             setNotification({ type: 'success', message: 'Email settings saved successfully!' });
             await loadSettings();
@@ -1,29 +1,123 @@
 import { useState, useEffect } from 'react';
-import { HelpCircle, MessageSquare, Send, CheckCircle } from 'lucide-react';
-import { getSupportTickets, getTicketResponses, addTicketResponse, updateTicketStatus } from '../lib/supabase';
+import {
+    HelpCircle,
+    MessageSquare,
+    Send,
+    CheckCircle,
+    AlertTriangle,
+    Clock,
+    UserCheck,
+    BookmarkPlus,
+    Zap,
+    Edit,
+    Trash2,
+    X,
+    Mail,
+    Lock,
+    Paperclip,
+} from 'lucide-react';
+import {
+    getSupportTickets,
+    getTicketResponses,
+    addTicketResponse,
+    updateTicketStatus,
+    updateSupportTicket,
+    getTicketSlaTargets,
+    getAllUsers,
+    getUserProfile,
+    getCannedResponses,
+    createCannedResponse,
+    updateCannedResponse,
+    deleteCannedResponse,
+    uploadTicketAttachment,
+    getTicketAttachmentUrl,
+    subscribeToInserts,
+    DEFAULT_TICKET_SLA,
+    SUPPORT_TICKET_SELECT,
+    TICKET_PRIORITIES,
+    type TicketPriority,
+    type TicketSlaTarget,
+    type TicketStatus,
+    type CannedResponse,
+    type TicketAttachment,
+} from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { formatRelativeTime } from '../lib/utils';
+import { fillTemplate, formatDuration, formatFileSize, formatRelativeTime } from '../lib/utils';
+import type { UserProfile } from '../lib/database.types';
 
 interface Ticket {
     id: string;
     user_id: string;
     subject: string;
     message: string;
-    status: 'open' | 'in_progress' | 'closed';
-    priority: 'low' | 'medium' | 'high';
+    status: TicketStatus;
+    priority: TicketPriority;
+    assigned_to: string | null;
+    notify_customer: boolean | null;
+    closed_at: string | null;
     created_at: string;
+    updated_at: string;
     user_profiles?: { full_name: string; email: string };
+    ticket_responses?: ResponseTiming[];
 }
 
+type ResponseTiming = { is_admin: boolean; is_internal?: boolean | null; created_at: string };
+
 interface Response {
     id: string;
     ticket_id: string;
     user_id: string;
     message: string;
     is_admin: boolean;
+    is_internal: boolean | null;
+    attachments: TicketAttachment[] | null;
     created_at: string;
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const REPLY_PLACEHOLDERS = [
+    'customer_name',
+    'first_name',
+    'email',
+    'plan_tier',
+    'subscription_status',
+    'leads_used',
+    'emails_sent',
+    'ticket_subject',
+    'admin_name',
+];
+
+const EMPTY_REPLY_FORM = { id: '', title: '', body: '', set_status: '' as TicketStatus | '' };
+
+// Elapsed first-response and resolution times against the ticket's SLA target. Timers
+// stop at the first admin reply (internal notes don't count) and at closing; tickets
+// closed before `closed_at` was recorded fall back to `updated_at`.
+function getTicketSla(ticket: Ticket, responses: ResponseTiming[], target: TicketSlaTarget, now: number) {
+    const createdAt = new Date(ticket.created_at).getTime();
+    const firstReplyAt = responses
+        .filter((response) => response.is_admin && !response.is_internal)
+        .map((response) => new Date(response.created_at).getTime())
+        .sort((a, b) => a - b)[0];
+    const closedAt = ticket.status === 'closed' ? new Date(ticket.closed_at || ticket.updated_at).getTime() : undefined;
+
+    const firstResponseMs = (firstReplyAt ?? closedAt ?? now) - createdAt;
+    const resolutionMs = (closedAt ?? now) - createdAt;
+    const firstResponseBreached = firstResponseMs > target.firstResponseHours * HOUR_MS;
+    const resolutionBreached = resolutionMs > target.resolutionHours * HOUR_MS;
+
+    return {
+        firstResponseMs,
+        resolutionMs,
+        responded: firstReplyAt !== undefined,
+        closed: closedAt !== undefined,
+        firstResponseBreached,
+        resolutionBreached,
+        overdue: closedAt === undefined && ((firstReplyAt === undefined && firstResponseBreached) || resolutionBreached),
+    };
+}
+
 export default function Tickets() {
     const { user } = useAuth();
     const [tickets, setTickets] = useState<Ticket[]>([]);
@@ -32,15 +126,90 @@ export default function Tickets() {
     const [responses, setResponses] = useState<Response[]>([]);
     const [newResponse, setNewResponse] = useState('');
     const [sending, setSending] = useState(false);
+    const [admins, setAdmins] = useState<UserProfile[]>([]);
+    const [slaTargets, setSlaTargets] = useState(DEFAULT_TICKET_SLA);
+    const [priorityFilter, setPriorityFilter] = useState<TicketPriority | ''>('');
+    const [assigneeFilter, setAssigneeFilter] = useState('');
+    const [overdueOnly, setOverdueOnly] = useState(false);
+    const [overdueCount, setOverdueCount] = useState(0);
+    const [now, setNow] = useState(Date.now());
+    const [customer, setCustomer] = useState<UserProfile | null>(null);
+    const [cannedResponses, setCannedResponses] = useState<CannedResponse[]>([]);
+    const [showSavedReplies, setShowSavedReplies] = useState(false);
+    const [showRepliesManager, setShowRepliesManager] = useState(false);
+    const [replyForm, setReplyForm] = useState(EMPTY_REPLY_FORM);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+    const [replyMode, setReplyMode] = useState<'reply' | 'note'>('reply');
+    const [pendingFiles, setPendingFiles] = useState<File[]>([]);
 
     useEffect(() => {
-        loadTickets();
+        loadTeam();
+        loadCannedResponses();
+        const timer = setInterval(() => setNow(Date.now()), 60000);
+        return () => clearInterval(timer);
     }, []);
 
+    useEffect(() => {
+        loadTickets();
+    }, [priorityFilter, assigneeFilter, overdueOnly, slaTargets]);
+
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 4000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
+    // A ticket that was just opened can't be overdue, so the overdue list isn't streamed
+    useEffect(() => {
+        if (overdueOnly) return;
+        return subscribeToInserts<Ticket>(
+            'support_tickets',
+            (ticket) => setTickets((prev) => (prev.some((t) => t.id === ticket.id) ? prev : [ticket, ...prev])),
+            { select: SUPPORT_TICKET_SELECT }
+        );
+    }, [overdueOnly]);
+
+    // Replies to the open ticket, from the customer or another admin, appear as they arrive
+    useEffect(() => {
+        if (!selectedTicket) return;
+        return subscribeToInserts<Response>(
+            'ticket_responses',
+            (response) => setResponses((prev) => (prev.some((r) => r.id === response.id) ? prev : [...prev, response])),
+            { filter: `ticket_id=eq.${selectedTicket.id}` }
+        );
+    }, [selectedTicket?.id]);
+
+    async function loadTeam() {
+        const [adminsRes, slaRes] = await Promise.all([
+            getAllUsers({ role: 'admin', sortBy: 'full_name', ascending: true, limit: 100 }),
+            getTicketSlaTargets(),
+        ]);
+        if (adminsRes.data) setAdmins(adminsRes.data);
+        setSlaTargets(slaRes.data);
+    }
+
+    async function loadCannedResponses() {
+        const { data } = await getCannedResponses();
+        if (data) setCannedResponses(data);
+    }
+
     async function loadTickets() {
         setLoading(true);
-        const { data } = await getSupportTickets({ limit: 50 });
-        if (data) setTickets(data);
+        const filters = {
+            priority: priorityFilter || undefined,
+            assignedTo: assigneeFilter === 'unassigned' ? null : assigneeFilter || undefined,
+        };
+        // Overdue tickets are matched in the query, so breaches beyond the first 50 still count
+        const [{ data }, { count }] = await Promise.all([
+            getSupportTickets({ ...filters, overdue: overdueOnly ? slaTargets : undefined, limit: 50 }),
+            getSupportTickets({ ...filters, overdue: slaTargets, limit: 1 }),
+        ]);
+        setOverdueCount(count || 0);
+        if (data) {
+            setTickets(data);
+            setSelectedTicket((prev) => (prev && data.find((t: Ticket) => t.id === prev.id)) || prev);
+        }
         setLoading(false);
     }
 
@@ -49,38 +218,166 @@ export default function Tickets() {
         if (data) setResponses(data);
     }
 
+    const slaFor = (ticket: Ticket, ticketResponses = ticket.ticket_responses || []) =>
+        getTicketSla(ticket, ticketResponses, slaTargets[ticket.priority] || slaTargets.medium, now);
+
+
+    const adminName = (adminId: string | null) => {
+        if (!adminId) return null;
+        const admin = admins.find((a) => a.id === adminId);
+        return admin ? admin.full_name || admin.email : 'Unknown admin';
+    };
+
     const handleSelectTicket = async (ticket: Ticket) => {
         setSelectedTicket(ticket);
-        await loadResponses(ticket.id);
+        setResponses([]);
+        setCustomer(null);
+        setShowSavedReplies(false);
+        setPendingFiles([]);
+        const [, profileRes] = await Promise.all([loadResponses(ticket.id), getUserProfile(ticket.user_id)]);
+        setCustomer(profileRes.data);
     };
 
-    const handleSendResponse = async () => {
-        if (!selectedTicket || !newResponse.trim() || !user) return;
+    const sendResponse = async (message: string, options?: { nextStatus?: TicketStatus | null; internal?: boolean }) => {
+        if (!selectedTicket || !user || (!message.trim() && pendingFiles.length === 0)) return false;
 
         setSending(true);
-        await addTicketResponse({
-            ticket_id: selectedTicket.id,
-            user_id: user.id,
-            message: newResponse,
-            is_admin: true,
-        });
 
-        // Update status to in_progress if it was open
-        if (selectedTicket.status === 'open') {
-            await updateTicketStatus(selectedTicket.id, 'in_progress');
+        const attachments: TicketAttachment[] = [];
+        for (const file of pendingFiles) {
+            const { data, error } = await uploadTicketAttachment(selectedTicket.id, file);
+            if (error || !data) {
+                setNotification({ type: 'error', message: `Failed to upload ${file.name}: ${error?.message}` });
+                setSending(false);
+                return false;
+            }
+            attachments.push(data);
+        }
+
+        // Macros set their own status; a plain reply moves an open ticket to in_progress.
+        // The status goes first so the reply email shows it, and only the reply email is sent.
+        // Internal notes leave the status alone.
+        const status = options?.internal
+            ? null
+            : options?.nextStatus || (selectedTicket.status === 'open' ? 'in_progress' : null);
+        if (status && status !== selectedTicket.status) {
+            await updateTicketStatus(selectedTicket.id, status);
+        }
+
+        const { error, notifyError } = await addTicketResponse(
+            {
+                ticket_id: selectedTicket.id,
+                user_id: user.id,
+                message,
+                is_admin: true,
+                is_internal: options?.internal || false,
+                attachments,
+            },
+            { notify: true }
+        );
+        if (error) {
+            setNotification({ type: 'error', message: `Failed to save the ${options?.internal ? 'note' : 'reply'}: ${error.message}` });
+            setSending(false);
+            return false;
+        }
+        if (notifyError) {
+            setNotification({ type: 'error', message: `Reply saved, but the customer email failed: ${notifyError.message}` });
         }
 
-        setNewResponse('');
+        setPendingFiles([]);
         await loadResponses(selectedTicket.id);
         await loadTickets();
         setSending(false);
+        return true;
+    };
+
+    const handleSendResponse = async () => {
+        if (await sendResponse(newResponse, { internal: replyMode === 'note' })) setNewResponse('');
+    };
+
+    const handleAddFiles = (files: FileList | null) => {
+        if (!files) return;
+        const accepted = Array.from(files).filter((file) => file.size <= MAX_ATTACHMENT_BYTES);
+        if (accepted.length < files.length) {
+            setNotification({ type: 'error', message: `Attachments are limited to ${formatFileSize(MAX_ATTACHMENT_BYTES)} each` });
+        }
+        setPendingFiles((prev) => [...prev, ...accepted]);
+    };
+
+    const handleOpenAttachment = async (attachment: TicketAttachment) => {
+        const { data, error } = await getTicketAttachmentUrl(attachment.path);
+        if (error || !data) {
+            setNotification({ type: 'error', message: `Could not open ${attachment.name}` });
+            return;
+        }
+        window.open(data, '_blank', 'noopener');
+    };
+
+    const fillReply = (reply: CannedResponse) => {
+        if (!selectedTicket) return reply.body;
+        const name = customer?.full_name || selectedTicket.user_profiles?.full_name || '';
+        const me = admins.find((admin) => admin.id === user?.id);
+        return fillTemplate(reply.body, {
+            customer_name: name || 'there',
+            first_name: name.split(' ')[0] || 'there',
+            email: customer?.email || selectedTicket.user_profiles?.email,
+            plan_tier: customer?.subscription_tier.replace('_', ' '),
+            subscription_status: customer?.subscription_status,
+            leads_used: customer?.leads_used_this_month,
+            emails_sent: customer?.emails_sent_this_month,
+            ticket_subject: selectedTicket.subject,
+            admin_name: me?.full_name || 'Support Team',
+        });
+    };
+
+    const handleInsertReply = (reply: CannedResponse) => {
+        const text = fillReply(reply);
+        setNewResponse((prev) => (prev.trim() ? `${prev}\n\n${text}` : text));
+        setShowSavedReplies(false);
+    };
+
+    const handleRunMacro = async (reply: CannedResponse) => {
+        setShowSavedReplies(false);
+        await sendResponse(fillReply(reply), { nextStatus: reply.set_status });
+    };
+
+    const handleSaveReply = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const payload = {
+            title: replyForm.title.trim(),
+            body: replyForm.body,
+            set_status: replyForm.set_status || null,
+        };
+        if (replyForm.id) {
+            await updateCannedResponse(replyForm.id, payload);
+        } else {
+            await createCannedResponse({ ...payload, created_by: user?.id });
+        }
+        setReplyForm(EMPTY_REPLY_FORM);
+        await loadCannedResponses();
+    };
+
+    const handleDeleteReply = async (reply: CannedResponse) => {
+        if (!confirm(`Delete saved reply "${reply.title}"?`)) return;
+        await deleteCannedResponse(reply.id);
+        if (replyForm.id === reply.id) setReplyForm(EMPTY_REPLY_FORM);
+        await loadCannedResponses();
     };
 
     const handleCloseTicket = async () => {
         if (!selectedTicket) return;
-        await updateTicketStatus(selectedTicket.id, 'closed');
+        const { notifyError } = await updateTicketStatus(selectedTicket.id, 'closed', { notify: true });
+        if (notifyError) {
+            setNotification({ type: 'error', message: `Ticket closed, but the customer email failed: ${notifyError.message}` });
+        }
+        await loadTickets();
+    };
+
+    const handleUpdateTicket = async (updates: { priority?: TicketPriority; assigned_to?: string | null; notify_customer?: boolean }) => {
+        if (!selectedTicket) return;
+        setSelectedTicket({ ...selectedTicket, ...updates });
+        await updateSupportTicket(selectedTicket.id, updates);
         await loadTickets();
-        setSelectedTicket({ ...selectedTicket, status: 'closed' });
     };
 
     const statusColors: Record<string, string> = {
@@ -89,20 +386,91 @@ export default function Tickets() {
         closed: 'badge-success',
     };
 
-    // Note: priorityColors removed as it was unused
+    const priorityColors: Record<TicketPriority, string> = {
+        low: 'badge-primary',
+        medium: 'badge-warning',
+        high: 'badge-danger',
+    };
+
+    const renderTimer = (label: string, ms: number, targetHours: number, stopped: boolean, breached: boolean) => (
+        <div className="p-3 bg-dark-800/50 rounded-lg">
+            <p className="text-dark-500 text-xs mb-1 flex items-center gap-1">
+                <Clock className="w-3 h-3" /> {label}
+            </p>
+            <p className={`font-semibold ${breached ? 'text-red-400' : stopped ? 'text-green-400' : 'text-white'}`}>
+                {formatDuration(ms)}
+                {!stopped && <span className="text-dark-500 text-xs font-normal"> and counting</span>}
+            </p>
+            <p className="text-dark-500 text-xs">Target {targetHours}h</p>
+        </div>
+    );
+
+    const selectedSla = selectedTicket ? slaFor(selectedTicket, responses) : null;
+    const selectedTarget = selectedTicket ? slaTargets[selectedTicket.priority] || slaTargets.medium : null;
 
     return (
         <div className="space-y-6">
-            <div>
-                <h1 className="text-2xl font-bold text-white">Support Tickets</h1>
-                <p className="text-dark-400">Manage customer support requests</p>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                    <h1 className="text-2xl font-bold text-white">Support Tickets</h1>
+                    <p className="text-dark-400">Manage customer support requests</p>
+                </div>
+                <button onClick={() => setShowRepliesManager(true)} className="btn-secondary self-start">
+                    <BookmarkPlus className="w-4 h-4" />
+                    Saved Replies
+                </button>
             </div>
 
+            {notification && (
+                <div
+                    className={`flex items-center gap-2 p-4 rounded-xl ${notification.type === 'success'
+                        ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+                        : 'bg-red-500/20 text-red-400 border border-red-500/30'
+                        }`}
+                >
+                    {notification.type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertTriangle className="w-5 h-5" />}
+                    {notification.message}
+                </div>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* Tickets List */}
                 <div className="lg:col-span-1 card overflow-hidden">
-                    <div className="p-4 border-b border-dark-700">
-                        <h2 className="font-semibold text-white">All Tickets</h2>
+                    <div className="p-4 border-b border-dark-700 space-y-3">
+                        <div className="flex items-center justify-between">
+                            <h2 className="font-semibold text-white">All Tickets</h2>
+                            <button
+                                onClick={() => setOverdueOnly(!overdueOnly)}
+                                className={`badge cursor-pointer ${overdueOnly ? 'badge-danger' : 'bg-dark-700 text-dark-300'}`}
+                            >
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                Overdue ({overdueCount})
+                            </button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <select
+                                value={priorityFilter}
+                                onChange={(e) => setPriorityFilter(e.target.value as TicketPriority | '')}
+                                className="select text-sm"
+                            >
+                                <option value="">All priorities</option>
+                                {TICKET_PRIORITIES.map((priority) => (
+                                    <option key={priority} value={priority}>{priority}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={assigneeFilter}
+                                onChange={(e) => setAssigneeFilter(e.target.value)}
+                                className="select text-sm"
+                            >
+                                <option value="">Anyone</option>
+                                {user && <option value={user.id}>Assigned to me</option>}
+                                <option value="unassigned">Unassigned</option>
+                                {admins.filter((admin) => admin.id !== user?.id).map((admin) => (
+                                    <option key={admin.id} value={admin.id}>{admin.full_name || admin.email}</option>
+                                ))}
+                            </select>
+                        </div>
                     </div>
                     {loading ? (
                         <div className="p-8 text-center">
@@ -111,7 +479,7 @@ export default function Tickets() {
                     ) : tickets.length === 0 ? (
                         <div className="p-8 text-center">
                             <HelpCircle className="w-12 h-12 text-dark-600 mx-auto mb-2" />
-                            <p className="text-dark-400">No tickets yet</p>
+                            <p className="text-dark-400">{overdueOnly ? 'No overdue tickets' : 'No tickets yet'}</p>
                         </div>
                     ) : (
                         <div className="divide-y divide-dark-700 max-h-[600px] overflow-y-auto">
@@ -131,9 +499,22 @@ export default function Tickets() {
                                     <p className="text-dark-400 text-sm truncate mb-1">
                                         {ticket.user_profiles?.email || 'Unknown user'}
                                     </p>
-                                    <p className="text-dark-500 text-xs">
-                                        {formatRelativeTime(ticket.created_at)}
-                                    </p>
+                                    <div className="flex items-center gap-2 text-xs">
+                                        <span className={`badge text-xs ${priorityColors[ticket.priority]}`}>{ticket.priority}</span>
+                                        {slaFor(ticket).overdue && (
+                                            <span className="badge badge-danger text-xs">
+                                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                                Overdue
+                                            </span>
+                                        )}
+                                        <span className="text-dark-500">{formatRelativeTime(ticket.created_at)}</span>
+                                        {ticket.assigned_to && (
+                                            <span className="text-dark-500 truncate ml-auto flex items-center gap-1">
+                                                <UserCheck className="w-3 h-3" />
+                                                {adminName(ticket.assigned_to)}
+                                            </span>
+                                        )}
+                                    </div>
                                 </button>
                             ))}
                         </div>
@@ -167,6 +548,53 @@ export default function Tickets() {
                                         )}
                                     </div>
                                 </div>
+                                <div className="grid grid-cols-2 gap-3 mt-4">
+                                    <div>
+                                        <label className="label">Priority</label>
+                                        <select
+                                            value={selectedTicket.priority}
+                                            onChange={(e) => handleUpdateTicket({ priority: e.target.value as TicketPriority })}
+                                            className="select text-sm"
+                                        >
+                                            {TICKET_PRIORITIES.map((priority) => (
+                                                <option key={priority} value={priority}>{priority}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="label">Assignee</label>
+                                        <select
+                                            value={selectedTicket.assigned_to || ''}
+                                            onChange={(e) => handleUpdateTicket({ assigned_to: e.target.value || null })}
+                                            className="select text-sm"
+                                        >
+                                            <option value="">Unassigned</option>
+                                            {admins.map((admin) => (
+                                                <option key={admin.id} value={admin.id}>
+                                                    {admin.full_name || admin.email}{admin.id === user?.id ? ' (me)' : ''}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+                                {selectedSla && selectedTarget && (
+                                    <div className="grid grid-cols-2 gap-3 mt-3">
+                                        {renderTimer(
+                                            'First response',
+                                            selectedSla.firstResponseMs,
+                                            selectedTarget.firstResponseHours,
+                                            selectedSla.responded || selectedSla.closed,
+                                            selectedSla.firstResponseBreached
+                                        )}
+                                        {renderTimer(
+                                            'Resolution',
+                                            selectedSla.resolutionMs,
+                                            selectedTarget.resolutionHours,
+                                            selectedSla.closed,
+                                            selectedSla.resolutionBreached
+                                        )}
+                                    </div>
+                                )}
                             </div>
 
                             {/* Messages */}
@@ -184,36 +612,163 @@ export default function Tickets() {
                                 {responses.map((response) => (
                                     <div
                                         key={response.id}
-                                        className={`rounded-lg p-4 ${response.is_admin
-                                            ? 'bg-primary-500/10 border border-primary-500/30 ml-8'
-                                            : 'bg-dark-800/50 mr-8'
+                                        className={`rounded-lg p-4 ${response.is_internal
+                                            ? 'bg-yellow-500/10 border border-dashed border-yellow-500/40 ml-8'
+                                            : response.is_admin
+                                                ? 'bg-primary-500/10 border border-primary-500/30 ml-8'
+                                                : 'bg-dark-800/50 mr-8'
                                             }`}
                                     >
                                         <div className="flex items-center gap-2 mb-2">
                                             <span className="text-white font-medium">
-                                                {response.is_admin ? 'Admin' : 'User'}
+                                                {response.is_admin ? adminName(response.user_id) || 'Admin' : 'User'}
                                             </span>
+                                            {response.is_internal && (
+                                                <span className="flex items-center gap-1 text-yellow-400 text-xs">
+                                                    <Lock className="w-3 h-3" />
+                                                    Internal note
+                                                </span>
+                                            )}
                                             <span className="text-dark-500 text-xs">{formatRelativeTime(response.created_at)}</span>
                                         </div>
-                                        <p className="text-dark-300">{response.message}</p>
+                                        {response.message && <p className="text-dark-300 whitespace-pre-wrap">{response.message}</p>}
+                                        {response.attachments && response.attachments.length > 0 && (
+                                            <div className="flex flex-wrap gap-2 mt-3">
+                                                {response.attachments.map((attachment) => (
+                                                    <button
+                                                        key={attachment.path}
+                                                        onClick={() => handleOpenAttachment(attachment)}
+                                                        className="flex items-center gap-2 px-3 py-1.5 bg-dark-800 hover:bg-dark-700 rounded-lg text-xs text-dark-300"
+                                                    >
+                                                        <Paperclip className="w-3 h-3" />
+                                                        {attachment.name}
+                                                        <span className="text-dark-500">{formatFileSize(attachment.size)}</span>
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
                                     </div>
                                 ))}
                             </div>
 
                             {/* Reply Box */}
                             {selectedTicket.status !== 'closed' && (
-                                <div className="p-4 border-t border-dark-700">
+                                <div className="p-4 border-t border-dark-700 relative">
+                                    <div className="flex gap-2 mb-3">
+                                        {(['reply', 'note'] as const).map((mode) => (
+                                            <button
+                                                key={mode}
+                                                onClick={() => setReplyMode(mode)}
+                                                className={`px-3 py-1 rounded-lg text-sm flex items-center gap-1 ${replyMode === mode
+                                                    ? mode === 'note' ? 'bg-yellow-500/20 text-yellow-400' : 'bg-primary-500/20 text-primary-400'
+                                                    : 'text-dark-400 hover:bg-dark-700'
+                                                    }`}
+                                            >
+                                                {mode === 'note' ? <Lock className="w-3 h-3" /> : <Send className="w-3 h-3" />}
+                                                {mode === 'note' ? 'Internal note' : 'Reply to customer'}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <div className="mb-2 flex items-center justify-between">
+                                        <button
+                                            onClick={() => setShowSavedReplies(!showSavedReplies)}
+                                            disabled={cannedResponses.length === 0}
+                                            className="btn-ghost btn-sm"
+                                        >
+                                            <BookmarkPlus className="w-4 h-4" />
+                                            Insert saved reply
+                                        </button>
+                                        <label className="btn-ghost btn-sm cursor-pointer">
+                                            <Paperclip className="w-4 h-4" />
+                                            Attach
+                                            <input
+                                                type="file"
+                                                multiple
+                                                onChange={(e) => {
+                                                    handleAddFiles(e.target.files);
+                                                    e.target.value = '';
+                                                }}
+                                                className="hidden"
+                                            />
+                                        </label>
+                                        <label className="flex items-center gap-2 text-sm text-dark-300 cursor-pointer ml-auto">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedTicket.notify_customer !== false}
+                                                onChange={(e) => handleUpdateTicket({ notify_customer: e.target.checked })}
+                                                className="w-4 h-4 rounded"
+                                            />
+                                            <Mail className="w-4 h-4" />
+                                            Email customer
+                                        </label>
+                                    </div>
+                                    {showSavedReplies && (
+                                        <div className="absolute bottom-full left-4 right-4 mb-2 max-h-72 overflow-y-auto bg-dark-800 border border-dark-600 rounded-xl shadow-xl divide-y divide-dark-700 z-10">
+                                            {cannedResponses.map((reply) => (
+                                                <div key={reply.id} className="p-3 flex items-start gap-3">
+                                                    <div className="flex-1 min-w-0">
+                                                        <p className="text-white text-sm font-medium flex items-center gap-2">
+                                                            {reply.title}
+                                                            {reply.set_status && (
+                                                                <span className="badge badge-accent text-xs">
+                                                                    <Zap className="w-3 h-3 mr-1" />
+                                                                    {reply.set_status.replace('_', ' ')}
+                                                                </span>
+                                                            )}
+                                                        </p>
+                                                        <p className="text-dark-400 text-xs truncate">{fillReply(reply)}</p>
+                                                    </div>
+                                                    <button onClick={() => handleInsertReply(reply)} className="btn-ghost btn-sm">
+                                                        Insert
+                                                    </button>
+                                                    {reply.set_status && (
+                                                        <button
+                                                            onClick={() => handleRunMacro(reply)}
+                                                            disabled={sending}
+                                                            className="btn-primary btn-sm"
+                                                            title={`Send this reply and mark the ticket ${reply.set_status.replace('_', ' ')}`}
+                                                        >
+                                                            <Zap className="w-4 h-4" />
+                                                            Send
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {pendingFiles.length > 0 && (
+                                        <div className="flex flex-wrap gap-2 mb-2">
+                                            {pendingFiles.map((file, index) => (
+                                                <span
+                                                    key={`${file.name}-${index}`}
+                                                    className="flex items-center gap-2 px-3 py-1 bg-dark-800 rounded-lg text-xs text-dark-300"
+                                                >
+                                                    <Paperclip className="w-3 h-3" />
+                                                    {file.name}
+                                                    <span className="text-dark-500">{formatFileSize(file.size)}</span>
+                                                    <button
+                                                        onClick={() => setPendingFiles((prev) => prev.filter((_, i) => i !== index))}
+                                                        className="text-dark-500 hover:text-red-400"
+                                                    >
+                                                        <X className="w-3 h-3" />
+                                                    </button>
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
                                     <div className="flex gap-3">
                                         <textarea
                                             value={newResponse}
                                             onChange={(e) => setNewResponse(e.target.value)}
-                                            placeholder="Type your response..."
-                                            className="input flex-1 resize-none"
+                                            placeholder={replyMode === 'note'
+                                                ? 'Add a note for other admins (not visible to the customer)...'
+                                                : 'Type your response...'}
+                                            className={`input flex-1 resize-none ${replyMode === 'note' ? 'border-yellow-500/40' : ''}`}
                                             rows={3}
                                         />
                                         <button
                                             onClick={handleSendResponse}
-                                            disabled={!newResponse.trim() || sending}
+                                            disabled={(!newResponse.trim() && pendingFiles.length === 0) || sending}
                                             className="btn-primary self-end"
                                         >
                                             {sending ? (
@@ -236,6 +791,109 @@ export default function Tickets() {
                     )}
                 </div>
             </div>
+
+            {/* Saved Replies Manager */}
+            {showRepliesManager && (
+                <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+                    <div className="glass-card p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+                        <div className="flex items-center justify-between mb-6">
+                            <h2 className="text-xl font-bold text-white">Saved Replies & Macros</h2>
+                            <button
+                                onClick={() => {
+                                    setShowRepliesManager(false);
+                                    setReplyForm(EMPTY_REPLY_FORM);
+                                }}
+                                className="p-1 hover:bg-dark-700 rounded"
+                            >
+                                <X className="w-5 h-5 text-dark-400" />
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div className="space-y-2">
+                                {cannedResponses.length === 0 ? (
+                                    <p className="text-dark-400 text-sm">No saved replies yet</p>
+                                ) : (
+                                    cannedResponses.map((reply) => (
+                                        <div key={reply.id} className="p-3 bg-dark-800/50 rounded-lg flex items-start gap-2">
+                                            <div className="flex-1 min-w-0">
+                                                <p className="text-white text-sm font-medium">{reply.title}</p>
+                                                <p className="text-dark-500 text-xs">
+                                                    {reply.set_status ? `Macro · sets ${reply.set_status.replace('_', ' ')}` : 'Reply'}
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => setReplyForm({
+                                                    id: reply.id,
+                                                    title: reply.title,
+                                                    body: reply.body,
+                                                    set_status: reply.set_status || '',
+                                                })}
+                                                className="p-1 hover:bg-dark-700 rounded"
+                                            >
+                                                <Edit className="w-4 h-4 text-dark-400" />
+                                            </button>
+                                            <button onClick={() => handleDeleteReply(reply)} className="p-1 hover:bg-dark-700 rounded">
+                                                <Trash2 className="w-4 h-4 text-red-400" />
+                                            </button>
+                                        </div>
+                                    ))
+                                )}
+                            </div>
+
+                            <form onSubmit={handleSaveReply} className="space-y-4">
+                                <div>
+                                    <label className="label">Title *</label>
+                                    <input
+                                        type="text"
+                                        value={replyForm.title}
+                                        onChange={(e) => setReplyForm({ ...replyForm, title: e.target.value })}
+                                        className="input"
+                                        placeholder="e.g. Password reset steps"
+                                        required
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Reply *</label>
+                                    <textarea
+                                        value={replyForm.body}
+                                        onChange={(e) => setReplyForm({ ...replyForm, body: e.target.value })}
+                                        className="input resize-none"
+                                        rows={6}
+                                        placeholder="Hi {{first_name}}, ..."
+                                        required
+                                    />
+                                    <p className="text-dark-500 text-xs mt-1">
+                                        Placeholders: {REPLY_PLACEHOLDERS.map((name) => `{{${name}}}`).join(', ')}
+                                    </p>
+                                </div>
+                                <div>
+                                    <label className="label">Then set status (macro)</label>
+                                    <select
+                                        value={replyForm.set_status}
+                                        onChange={(e) => setReplyForm({ ...replyForm, set_status: e.target.value as TicketStatus | '' })}
+                                        className="select"
+                                    >
+                                        <option value="">Don't change status</option>
+                                        <option value="in_progress">in progress</option>
+                                        <option value="closed">closed</option>
+                                    </select>
+                                </div>
+                                <div className="flex gap-3">
+                                    {replyForm.id && (
+                                        <button type="button" onClick={() => setReplyForm(EMPTY_REPLY_FORM)} className="btn-secondary flex-1">
+                                            Cancel
+                                        </button>
+                                    )}
+                                    <button type="submit" className="btn-primary flex-1">
+                                        {replyForm.id ? 'Update' : 'Save Reply'}
+                                    </button>
+                                </div>
+                            </form>
+                        </div>
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
@@ -0,0 +1,527 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+    ArrowLeft,
+    Crown,
+    CreditCard,
+    Plus,
+    X,
+    CalendarPlus,
+    Ban,
+    Undo2,
+    Target,
+    Mail,
+    Phone,
+    Building,
+    AlertCircle,
+    CheckCircle,
+    Inbox,
+} from 'lucide-react';
+import {
+    getUserProfile,
+    getAllSubscriptionPlans,
+    getUserSubscriptions,
+    grantSubscription,
+    extendSubscription,
+    cancelSubscription,
+    refundSubscription,
+    getRefundableAmount,
+    REFUND_PAYMENT_METHOD,
+} from '../lib/supabase';
+import { formatCurrency, formatDate, formatRelativeTime, getInitials, getStatusBadgeClass } from '../lib/utils';
+import type { SubscriptionPlan, UserProfile, UserSubscription } from '../lib/database.types';
+
+type SubscriptionRow = UserSubscription & { subscription_plans: { name: string } | null };
+
+type ActionState =
+    | { type: 'grant' }
+    | { type: 'extend'; subscription: SubscriptionRow }
+    | { type: 'refund'; subscription: SubscriptionRow };
+
+const PAYMENT_METHODS = ['admin_grant', 'razorpay', 'bank_transfer', 'upi', 'cash', 'other'];
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (date: Date, days: number) => {
+    const next = new Date(date);
+    next.setDate(next.getDate() + days);
+    return next;
+};
+
+export default function UserDetail() {
+    const { userId } = useParams<{ userId: string }>();
+    const [profile, setProfile] = useState<UserProfile | null>(null);
+    const [subscriptions, setSubscriptions] = useState<SubscriptionRow[]>([]);
+    const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [action, setAction] = useState<ActionState | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+    const [grantForm, setGrantForm] = useState({
+        plan_id: '',
+        amount_paid: '0',
+        payment_method: 'admin_grant',
+        payment_reference: '',
+        start_date: toDateInput(new Date()),
+        end_date: toDateInput(addDays(new Date(), 30)),
+    });
+    const [extendDate, setExtendDate] = useState('');
+    const [refundForm, setRefundForm] = useState({ amount: '', reference: '' });
+
+    useEffect(() => {
+        loadData();
+    }, [userId]);
+
+    useEffect(() => {
+        if (notification) {
+            const timer = setTimeout(() => setNotification(null), 4000);
+            return () => clearTimeout(timer);
+        }
+    }, [notification]);
+
+    async function loadData() {
+        if (!userId) return;
+        setLoading(true);
+        const [profileRes, subscriptionsRes, plansRes] = await Promise.all([
+            getUserProfile(userId),
+            getUserSubscriptions(userId),
+            getAllSubscriptionPlans(),
+        ]);
+        setProfile(profileRes.data);
+        setSubscriptions(subscriptionsRes.data || []);
+        if (plansRes.data) setPlans(plansRes.data);
+        setLoading(false);
+    }
+
+    const openExtend = (subscription: SubscriptionRow) => {
+        const base = subscription.end_date && new Date(subscription.end_date) > new Date()
+            ? new Date(subscription.end_date)
+            : new Date();
+        setExtendDate(toDateInput(addDays(base, 30)));
+        setAction({ type: 'extend', subscription });
+    };
+
+    const openRefund = (subscription: SubscriptionRow) => {
+        setRefundForm({ amount: String(getRefundableAmount(subscription, subscriptions)), reference: '' });
+        setAction({ type: 'refund', subscription });
+    };
+
+    const finishAction = async (error: { message: string } | null, successMessage: string) => {
+        setSaving(false);
+        if (error) {
+            setNotification({ type: 'error', message: error.message });
+            return;
+        }
+        setNotification({ type: 'success', message: successMessage });
+        setAction(null);
+        await loadData();
+    };
+
+    const handleGrant = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const plan = plans.find((p) => p.id === grantForm.plan_id);
+        if (!userId || !plan) return;
+
+        if (grantForm.end_date && grantForm.end_date <= grantForm.start_date) {
+            setNotification({ type: 'error', message: 'End date must be after the start date' });
+            return;
+        }
+
+        setSaving(true);
+        const { error } = await grantSubscription({
+            user_id: userId,
+            plan_id: plan.id,
+            tier: plan.tier,
+            amount_paid: parseFloat(grantForm.amount_paid) || 0,
+            payment_method: grantForm.payment_method,
+            payment_reference: grantForm.payment_reference || null,
+            start_date: new Date(grantForm.start_date).toISOString(),
+            end_date: grantForm.end_date ? new Date(grantForm.end_date).toISOString() : null,
+        });
+        await finishAction(error, `Granted ${plan.name}`);
+    };
+
+    const handleExtend = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (action?.type !== 'extend' || !extendDate) return;
+        setSaving(true);
+        const { error } = await extendSubscription(action.subscription, new Date(extendDate).toISOString());
+        await finishAction(error, `Extended until ${formatDate(extendDate)}`);
+    };
+
+    const handleRefund = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (action?.type !== 'refund') return;
+        const amount = parseFloat(refundForm.amount);
+        if (!(amount > 0) || amount > getRefundableAmount(action.subscription, subscriptions)) {
+            setNotification({ type: 'error', message: 'Refund must be more than 0 and at most the amount still refundable' });
+            return;
+        }
+        setSaving(true);
+        const { error } = await refundSubscription(action.subscription, {
+            amount,
+            reference: refundForm.reference || undefined,
+        });
+        await finishAction(error, `Refunded ${formatCurrency(amount)}`);
+    };
+
+    const handleCancel = async (subscription: SubscriptionRow) => {
+        if (!confirm('Cancel this subscription? The customer keeps access until the recorded end date.')) return;
+        setSaving(true);
+        const { error } = await cancelSubscription(subscription);
+        await finishAction(error, 'Subscription cancelled');
+    };
+
+    const isRefund = (subscription: UserSubscription) => subscription.payment_method === REFUND_PAYMENT_METHOD;
+
+    const totalPaid = subscriptions.reduce((sum, sub) => sum + (sub.amount_paid || 0), 0);
+
+    if (loading) {
+        return (
+            <div className="p-8 text-center">
+                <div className="spinner text-primary-400 mx-auto mb-4" />
+                <p className="text-dark-400">Loading user...</p>
+            </div>
+        );
+    }
+
+    if (!profile) {
+        return (
+            <div className="card p-12 text-center">
+                <h3 className="text-xl font-semibold text-white mb-2">User not found</h3>
+                <Link to="/users" className="text-primary-400 hover:underline">Back to users</Link>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <Link to="/users" className="inline-flex items-center gap-2 text-dark-400 hover:text-white text-sm">
+                <ArrowLeft className="w-4 h-4" />
+                Back to users
+            </Link>
+
+            {notification && (
+                <div
+                    className={`flex items-center gap-2 p-4 rounded-xl ${notification.type === 'success'
+                        ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+                        : 'bg-red-500/20 text-red-400 border border-red-500/30'
+                        }`}
+                >
+                    {notification.type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+                    {notification.message}
+                </div>
+            )}
+
+            {/* Profile */}
+            <div className="card p-6 flex flex-col md:flex-row md:items-center gap-6">
+                <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-accent-500 rounded-full flex items-center justify-center text-white text-2xl font-bold">
+                    {profile.full_name ? getInitials(profile.full_name) : '?'}
+                </div>
+                <div className="flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                        <h1 className="text-2xl font-bold text-white">{profile.full_name || 'No Name'}</h1>
+                        {profile.role === 'admin' && (
+                            <span className="badge-accent flex items-center gap-1">
+                                <Crown className="w-3 h-3" /> Admin
+                            </span>
+                        )}
+                        {!profile.is_active && <span className="badge-danger">Suspended</span>}
+                    </div>
+                    <div className="flex flex-wrap gap-4 text-sm text-dark-400">
+                        <span className="flex items-center gap-1"><Mail className="w-4 h-4" /> {profile.email}</span>
+                        {profile.phone && <span className="flex items-center gap-1"><Phone className="w-4 h-4" /> {profile.phone}</span>}
+                        {profile.company_name && <span className="flex items-center gap-1"><Building className="w-4 h-4" /> {profile.company_name}</span>}
+                        {profile.source_inquiry_id && (
+                            <Link to={`/inquiries?inquiry=${profile.source_inquiry_id}`} className="flex items-center gap-1 text-primary-400 hover:underline">
+                                <Inbox className="w-4 h-4" /> From website inquiry
+                            </Link>
+                        )}
+                    </div>
+                    <p className="text-dark-500 text-xs">
+                        Joined {formatDate(profile.created_at)} · Last login {profile.last_login_at ? formatRelativeTime(profile.last_login_at) : 'never'}
+                    </p>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="p-3 bg-dark-800/50 rounded-lg text-center">
+                        <div className="flex items-center justify-center gap-1 text-dark-400 text-xs mb-1">
+                            <Target className="w-3 h-3" /> Leads
+                        </div>
+                        <p className="text-xl font-bold text-white">{profile.leads_used_this_month}</p>
+                    </div>
+                    <div className="p-3 bg-dark-800/50 rounded-lg text-center">
+                        <div className="flex items-center justify-center gap-1 text-dark-400 text-xs mb-1">
+                            <Mail className="w-3 h-3" /> Emails
+                        </div>
+                        <p className="text-xl font-bold text-white">{profile.emails_sent_this_month}</p>
+                    </div>
+                </div>
+            </div>
+
+            {/* Current Subscription */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="card p-4">
+                    <p className="text-dark-400 text-sm">Tier</p>
+                    <p className="text-white font-semibold">{profile.subscription_tier.replace('_', ' ')}</p>
+                </div>
+                <div className="card p-4">
+                    <p className="text-dark-400 text-sm">Status</p>
+                    <span className={`badge ${getStatusBadgeClass(profile.subscription_status)}`}>{profile.subscription_status}</span>
+                </div>
+                <div className="card p-4">
+                    <p className="text-dark-400 text-sm">Ends</p>
+                    <p className="text-white font-semibold">
+                        {profile.subscription_end_date ? formatDate(profile.subscription_end_date) : 'No end date'}
+                    </p>
+                </div>
+                <div className="card p-4">
+                    <p className="text-dark-400 text-sm">Net Paid</p>
+                    <p className="text-white font-semibold">{formatCurrency(totalPaid)}</p>
+                </div>
+            </div>
+
+            {/* Timeline */}
+            <div className="card p-6">
+                <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-lg font-semibold text-white">Subscription Timeline</h2>
+                    <button onClick={() => setAction({ type: 'grant' })} className="btn-primary btn-sm">
+                        <Plus className="w-4 h-4" />
+                        Grant Subscription
+                    </button>
+                </div>
+
+                {subscriptions.length === 0 ? (
+                    <div className="text-center py-8">
+                        <CreditCard className="w-12 h-12 text-dark-600 mx-auto mb-2" />
+                        <p className="text-dark-400">No subscription records for this user</p>
+                    </div>
+                ) : (
+                    <div className="relative border-l-2 border-dark-700 ml-3 space-y-6">
+                        {subscriptions.map((subscription) => (
+                            <div key={subscription.id} className="relative pl-6">
+                                <div
+                                    className={`absolute -left-[9px] top-1 w-4 h-4 rounded-full border-2 border-dark-800 ${isRefund(subscription)
+                                        ? 'bg-red-400'
+                                        : subscription.status === 'active' ? 'bg-green-400' : 'bg-dark-500'
+                                        }`}
+                                />
+                                <div className="bg-dark-800/50 rounded-xl p-4">
+                                    <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+                                        <div>
+                                            <div className="flex items-center gap-2 mb-1">
+                                                <span className="text-white font-medium">
+                                                    {isRefund(subscription) ? 'Refund' : subscription.subscription_plans?.name || subscription.tier.replace('_', ' ')}
+                                                </span>
+                                                <span className={`badge text-xs ${getStatusBadgeClass(subscription.status)}`}>
+                                                    {subscription.status}
+                                                </span>
+                                            </div>
+                                            <p className="text-dark-400 text-sm">
+                                                {formatDate(subscription.start_date)}
+                                                {!isRefund(subscription) && ` → ${subscription.end_date ? formatDate(subscription.end_date) : 'open-ended'}`}
+                                            </p>
+                                            <p className="text-dark-500 text-xs mt-1">
+                                                {subscription.amount_paid !== null && (
+                                                    <span className={subscription.amount_paid < 0 ? 'text-red-400' : ''}>
+                                                        {formatCurrency(subscription.amount_paid)}
+                                                    </span>
+                                                )}
+                                                {subscription.payment_method && ` · ${subscription.payment_method.replace('_', ' ')}`}
+                                                {subscription.payment_reference && ` · ref ${subscription.payment_reference}`}
+                                                {subscription.cancelled_at && !isRefund(subscription) && ` · cancelled ${formatDate(subscription.cancelled_at)}`}
+                                            </p>
+                                        </div>
+                                        {!isRefund(subscription) && (
+                                            <div className="flex gap-2">
+                                                <button onClick={() => openExtend(subscription)} disabled={saving} className="btn-ghost btn-sm">
+                                                    <CalendarPlus className="w-4 h-4" />
+                                                    Extend
+                                                </button>
+                                                {subscription.status === 'active' && (
+                                                    <button onClick={() => handleCancel(subscription)} disabled={saving} className="btn-ghost btn-sm text-yellow-400">
+                                                        <Ban className="w-4 h-4" />
+                                                        Cancel
+                                                    </button>
+                                                )}
+                                                {getRefundableAmount(subscription, subscriptions) > 0 && (
+                                                    <button onClick={() => openRefund(subscription)} disabled={saving} className="btn-ghost btn-sm text-red-400">
+                                                        <Undo2 className="w-4 h-4" />
+                                                        Refund
+                                                    </button>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Action Modal */}
+            {action && (
+                <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50 p-4">
+                    <div className="glass-card p-6 w-full max-w-md">
+                        <div className="flex items-center justify-between mb-6">
+                            <h2 className="text-xl font-bold text-white">
+                                {action.type === 'grant' ? 'Grant Subscription' : action.type === 'extend' ? 'Extend Subscription' : 'Refund Subscription'}
+                            </h2>
+                            <button onClick={() => setAction(null)} className="p-1 hover:bg-dark-700 rounded">
+                                <X className="w-5 h-5 text-dark-400" />
+                            </button>
+                        </div>
+
+                        {action.type === 'grant' && (
+                            <form onSubmit={handleGrant} className="space-y-4">
+                                <div>
+                                    <label className="label">Plan *</label>
+                                    <select
+                                        value={grantForm.plan_id}
+                                        onChange={(e) => setGrantForm({ ...grantForm, plan_id: e.target.value })}
+                                        className="select"
+                                        required
+                                    >
+                                        <option value="">Select a plan</option>
+                                        {plans.map((plan) => (
+                                            <option key={plan.id} value={plan.id}>
+                                                {plan.name} ({formatCurrency(plan.price_monthly)}/mo){!plan.is_active ? ' — inactive' : ''}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="label">Start Date</label>
+                                        <input
+                                            type="date"
+                                            value={grantForm.start_date}
+                                            onChange={(e) => setGrantForm({ ...grantForm, start_date: e.target.value })}
+                                            className="input"
+                                            required
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="label">End Date</label>
+                                        <input
+                                            type="date"
+                                            value={grantForm.end_date}
+                                            onChange={(e) => setGrantForm({ ...grantForm, end_date: e.target.value })}
+                                            className="input"
+                                        />
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="label">Amount Paid (₹)</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={grantForm.amount_paid}
+                                            onChange={(e) => setGrantForm({ ...grantForm, amount_paid: e.target.value })}
+                                            className="input"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="label">Payment Method</label>
+                                        <select
+                                            value={grantForm.payment_method}
+                                            onChange={(e) => setGrantForm({ ...grantForm, payment_method: e.target.value })}
+                                            className="select"
+                                        >
+                                            {PAYMENT_METHODS.map((method) => (
+                                                <option key={method} value={method}>{method.replace('_', ' ')}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="label">Payment Reference</label>
+                                    <input
+                                        type="text"
+                                        value={grantForm.payment_reference}
+                                        onChange={(e) => setGrantForm({ ...grantForm, payment_reference: e.target.value })}
+                                        className="input"
+                                        placeholder="Transaction ID or note"
+                                    />
+                                </div>
+                                <p className="text-dark-500 text-xs">Any currently active subscription will be marked expired.</p>
+                                <div className="flex gap-3 pt-2">
+                                    <button type="button" onClick={() => setAction(null)} className="btn-secondary flex-1">Cancel</button>
+                                    <button type="submit" disabled={saving} className="btn-primary flex-1">
+                                        {saving ? <div className="spinner" /> : 'Grant'}
+                                    </button>
+                                </div>
+                            </form>
+                        )}
+
+                        {action.type === 'extend' && (
+                            <form onSubmit={handleExtend} className="space-y-4">
+                                <p className="text-dark-400 text-sm">
+                                    Currently ends {action.subscription.end_date ? formatDate(action.subscription.end_date) : 'never'}.
+                                </p>
+                                <div>
+                                    <label className="label">New End Date</label>
+                                    <input
+                                        type="date"
+                                        value={extendDate}
+                                        onChange={(e) => setExtendDate(e.target.value)}
+                                        className="input"
+                                        required
+                                    />
+                                </div>
+                                <div className="flex gap-3 pt-2">
+                                    <button type="button" onClick={() => setAction(null)} className="btn-secondary flex-1">Cancel</button>
+                                    <button type="submit" disabled={saving} className="btn-primary flex-1">
+                                        {saving ? <div className="spinner" /> : 'Extend'}
+                                    </button>
+                                </div>
+                            </form>
+                        )}
+
+                        {action.type === 'refund' && (
+                            <form onSubmit={handleRefund} className="space-y-4">
+                                <p className="text-dark-400 text-sm">
+                                    Paid {formatCurrency(action.subscription.amount_paid || 0)}, of which{' '}
+                                    {formatCurrency(getRefundableAmount(action.subscription, subscriptions))} can still be refunded.
+                                    Refunding also cancels this subscription.
+                                </p>
+                                <div>
+                                    <label className="label">Refund Amount (₹)</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max={getRefundableAmount(action.subscription, subscriptions)}
+                                        step="0.01"
+                                        value={refundForm.amount}
+                                        onChange={(e) => setRefundForm({ ...refundForm, amount: e.target.value })}
+                                        className="input"
+                                        required
+                                    />
+                                </div>
+                                <div>
+                                    <label className="label">Refund Reference</label>
+                                    <input
+                                        type="text"
+                                        value={refundForm.reference}
+                                        onChange={(e) => setRefundForm({ ...refundForm, reference: e.target.value })}
+                                        className="input"
+                                        placeholder="Refund transaction ID"
+                                    />
+                                </div>
+                                <div className="flex gap-3 pt-2">
+                                    <button type="button" onClick={() => setAction(null)} className="btn-secondary flex-1">Cancel</button>
+                                    <button type="submit" disabled={saving} className="btn-primary bg-red-500 hover:bg-red-600 flex-1">
+                                        {saving ? <div className="spinner" /> : 'Refund'}
+                                    </button>
+                                </div>
+                            </form>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
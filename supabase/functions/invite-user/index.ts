@@ -0,0 +1,75 @@
+// Invites a new customer by email and returns their user id. Used when an admin converts a
+// website inquiry into an account.
+//
+// Request (POST, JSON):
+//   email         address to invite (required)
+//   full_name     optional, copied onto the profile
+//   company_name  optional, copied onto the profile
+//   phone         optional, copied onto the profile
+//
+// Response: 200 { user_id }, or a 4xx/5xx { error }.
+//
+// Callers must be signed in as an admin. Inviting an address that already has an account
+// returns that account's id instead of failing, so a retried conversion finds the same user.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const json = (body: Record<string, unknown>, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+const optionalText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+    if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: auth } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!auth.user) return json({ error: 'Not signed in' }, 401);
+
+    const { data: admin } = await supabase.from('user_profiles').select('role').eq('id', auth.user.id).maybeSingle();
+    if (admin?.role !== 'admin') return json({ error: 'Only admins can invite users' }, 403);
+
+    let payload: { email?: unknown; full_name?: unknown; company_name?: unknown; phone?: unknown };
+    try {
+        payload = await req.json();
+    } catch {
+        return json({ error: 'The request body must be JSON' }, 400);
+    }
+
+    const email = typeof payload.email === 'string' ? payload.email.trim().toLowerCase() : '';
+    if (!EMAIL_PATTERN.test(email)) return json({ error: '`email` must be a valid email address' }, 400);
+
+    const profile = {
+        full_name: optionalText(payload.full_name),
+        company_name: optionalText(payload.company_name),
+        phone: optionalText(payload.phone),
+    };
+
+    const { data: existing } = await supabase
+        .from('user_profiles')
+        .select('id, email')
+        .ilike('email', email.replace(/[\\%_]/g, (char) => `\\${char}`))
+        .limit(10);
+    const match = (existing || []).find((row) => row.email.toLowerCase() === email);
+    if (match) return json({ user_id: match.id });
+
+    const { data: invited, error } = await supabase.auth.admin.inviteUserByEmail(email, { data: profile });
+    if (error || !invited.user) return json({ error: error?.message || 'The invite did not create a user' }, 502);
+
+    // Leaves a profile created by a signup trigger untouched, and creates one otherwise
+    const { error: profileError } = await supabase
+        .from('user_profiles')
+        .upsert({ id: invited.user.id, email, ...profile }, { onConflict: 'id', ignoreDuplicates: true });
+    if (profileError) return json({ error: profileError.message }, 500);
+
+    return json({ user_id: invited.user.id });
+});
@@ -0,0 +1,78 @@
+// Sends one email to one recipient on behalf of an admin. Unlike send-contact-notification,
+// which always writes to the admin notification list, the recipient is part of the request.
+//
+// Request (POST, JSON):
+//   to        recipient address (required, a single address)
+//   subject   subject line (required)
+//   html      HTML body (required)
+//   text      plain-text body (optional)
+//   reply_to  reply-to address (optional)
+//
+// Response: 200 { id } with the provider's message id, or a 4xx/5xx { error }.
+//
+// Callers must be signed in as an admin. The sender is the active smtp_settings row and
+// delivery goes through Resend with the RESEND_API_KEY secret.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const json = (body: Record<string, unknown>, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+    if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+
+    const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const { data: auth } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+    if (!auth.user) return json({ error: 'Not signed in' }, 401);
+
+    const { data: profile } = await supabase.from('user_profiles').select('role').eq('id', auth.user.id).maybeSingle();
+    if (profile?.role !== 'admin') return json({ error: 'Only admins can send email' }, 403);
+
+    let payload: { to?: unknown; subject?: unknown; html?: unknown; text?: unknown; reply_to?: unknown };
+    try {
+        payload = await req.json();
+    } catch {
+        return json({ error: 'The request body must be JSON' }, 400);
+    }
+
+    const { to, subject, html, text, reply_to } = payload;
+    if (typeof to !== 'string' || !EMAIL_PATTERN.test(to)) return json({ error: '`to` must be a single email address' }, 400);
+    if (typeof subject !== 'string' || !subject.trim()) return json({ error: '`subject` is required' }, 400);
+    if (typeof html !== 'string' || !html.trim()) return json({ error: '`html` is required' }, 400);
+
+    const { data: settings } = await supabase
+        .from('smtp_settings')
+        .select('from_email, from_name, is_active')
+        .limit(1)
+        .maybeSingle();
+    if (!settings?.is_active) return json({ error: 'Email sending is turned off in the SMTP settings' }, 409);
+
+    const apiKey = Deno.env.get('RESEND_API_KEY');
+    if (!apiKey) return json({ error: 'RESEND_API_KEY is not set for this function' }, 500);
+
+    const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            from: `${settings.from_name} <${settings.from_email}>`,
+            to: [to],
+            subject,
+            html,
+            text: typeof text === 'string' ? text : undefined,
+            reply_to: typeof reply_to === 'string' ? reply_to : undefined,
+        }),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) return json({ error: result.message || `Resend responded with ${response.status}` }, 502);
+
+    return json({ id: result.id });
+});
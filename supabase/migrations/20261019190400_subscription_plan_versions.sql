@@ -0,0 +1,42 @@
+-- Shared by the policies of the admin-only tables added from here on. Security definer so
+-- policies on user_profiles itself don't recurse when they call it.
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select exists (select 1 from public.user_profiles where id = auth.uid() and role = 'admin');
+$$;
+
+-- One row per saved state of a plan, so existing subscribers can be shown the terms they
+-- signed up under. Written by the admin panel whenever a priced field changes.
+create table if not exists public.subscription_plan_versions (
+    id uuid primary key default gen_random_uuid(),
+    plan_id uuid not null references public.subscription_plans (id) on delete cascade,
+    version integer not null,
+    name text not null,
+    price_monthly numeric not null default 0,
+    price_yearly numeric,
+    leads_per_month integer not null default 0,
+    emails_per_month integer not null default 0,
+    templates_limit integer not null default 0,
+    can_export_csv boolean not null default false,
+    priority_support boolean not null default false,
+    trial_days integer not null default 0,
+    features text[] not null default '{}',
+    changed_by uuid references public.user_profiles (id) on delete set null,
+    effective_from timestamptz not null default now(),
+    created_at timestamptz not null default now(),
+    unique (plan_id, version)
+);
+
+alter table public.subscription_plan_versions enable row level security;
+
+drop policy if exists "Admins manage plan versions" on public.subscription_plan_versions;
+create policy "Admins manage plan versions"
+    on public.subscription_plan_versions
+    for all
+    using (public.is_admin())
+    with check (public.is_admin());
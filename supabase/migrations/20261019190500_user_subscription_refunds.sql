@@ -0,0 +1,42 @@
+-- Refund rows point at the payment they return, so the refunds recorded against one
+-- payment can be summed and capped at what was actually paid.
+alter table public.user_subscriptions
+    add column if not exists refunded_subscription_id uuid references public.user_subscriptions (id) on delete cascade;
+
+create index if not exists user_subscriptions_refunded_subscription_id_idx
+    on public.user_subscriptions (refunded_subscription_id);
+
+-- Refund rows store a negative amount_paid. Locking the original payment row serialises
+-- concurrent refunds of the same payment.
+create or replace function public.check_subscription_refund()
+returns trigger
+language plpgsql
+as $$
+declare
+    paid numeric;
+    refunded numeric;
+begin
+    if new.refunded_subscription_id is null then
+        return new;
+    end if;
+
+    select coalesce(amount_paid, 0) into paid
+    from public.user_subscriptions
+    where id = new.refunded_subscription_id
+    for update;
+
+    select coalesce(-sum(amount_paid), 0) into refunded
+    from public.user_subscriptions
+    where refunded_subscription_id = new.refunded_subscription_id;
+
+    if refunded - coalesce(new.amount_paid, 0) > paid then
+        raise exception 'Refunds would exceed the % paid for this subscription', paid;
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists check_subscription_refund on public.user_subscriptions;
+create trigger check_subscription_refund
+    before insert on public.user_subscriptions
+    for each row execute function public.check_subscription_refund();
@@ -0,0 +1,16 @@
+-- Realtime only delivers postgres_changes for tables in the supabase_realtime publication.
+-- These are the tables the admin panel streams new rows from (subscribeToInserts).
+do $$
+declare
+    streamed text;
+begin
+    foreach streamed in array array['support_tickets', 'ticket_responses', 'website_inquiries', 'activity_logs'] loop
+        if not exists (
+            select 1 from pg_publication_tables
+            where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = streamed
+        ) then
+            execute format('alter publication supabase_realtime add table public.%I', streamed);
+        end if;
+    end loop;
+end;
+$$;
@@ -0,0 +1,52 @@
+-- Tickets can be assigned to an admin, and record when they were closed so the resolution
+-- timer stops there.
+alter table public.support_tickets
+    add column if not exists assigned_to uuid references public.user_profiles (id) on delete set null,
+    add column if not exists closed_at timestamptz;
+
+create index if not exists support_tickets_assigned_to_idx on public.support_tickets (assigned_to);
+
+update public.support_tickets
+set closed_at = updated_at
+where status = 'closed' and closed_at is null;
+
+-- First admin reply per ticket, kept on the ticket so the overdue filter can run in the
+-- query instead of over the tickets the admin happens to have loaded.
+alter table public.support_tickets
+    add column if not exists first_response_at timestamptz;
+
+create or replace function public.set_ticket_first_response()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.is_admin then
+        update public.support_tickets
+        set first_response_at = new.created_at
+        where id = new.ticket_id
+            and (first_response_at is null or first_response_at > new.created_at);
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists set_ticket_first_response on public.ticket_responses;
+create trigger set_ticket_first_response
+    after insert on public.ticket_responses
+    for each row execute function public.set_ticket_first_response();
+
+update public.support_tickets t
+set first_response_at = r.first_reply
+from (
+    select ticket_id, min(created_at) as first_reply
+    from public.ticket_responses
+    where is_admin
+    group by ticket_id
+) r
+where r.ticket_id = t.id;
+
+create index if not exists support_tickets_open_sla_idx
+    on public.support_tickets (priority, created_at)
+    where status <> 'closed';
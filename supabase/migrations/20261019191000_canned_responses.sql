@@ -0,0 +1,20 @@
+-- Saved ticket replies shared by all admins. A reply with set_status also moves the ticket
+-- to that status when it is sent.
+create table if not exists public.canned_responses (
+    id uuid primary key default gen_random_uuid(),
+    title text not null,
+    body text not null,
+    set_status text check (set_status in ('open', 'in_progress', 'closed')),
+    created_by uuid references public.user_profiles (id) on delete set null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+alter table public.canned_responses enable row level security;
+
+drop policy if exists "Admins manage canned responses" on public.canned_responses;
+create policy "Admins manage canned responses"
+    on public.canned_responses
+    for all
+    using (public.is_admin())
+    with check (public.is_admin());
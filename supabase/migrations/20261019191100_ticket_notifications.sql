@@ -0,0 +1,38 @@
+-- System email templates are the customer notifications the admin panel sends, looked up
+-- by system_key (NOTIFICATION_TEMPLATES in src/lib/supabase.ts holds the same defaults).
+alter table public.email_templates
+    add column if not exists category text,
+    add column if not exists is_system boolean not null default false,
+    add column if not exists system_key text;
+
+create unique index if not exists email_templates_system_key_idx
+    on public.email_templates (system_key)
+    where system_key is not null;
+
+-- Admins can switch off the customer emails for a single ticket
+alter table public.support_tickets
+    add column if not exists notify_customer boolean not null default true;
+
+insert into public.email_templates (user_id, name, subject, body_html, variables, category, is_system, system_key)
+values
+    (
+        null,
+        'Support ticket reply',
+        'Re: {{ticket_subject}}',
+        $tpl$<p>Hi {{first_name}},</p><p>Our support team replied to your ticket "{{ticket_subject}}":</p><blockquote>{{message}}</blockquote><p>Current status: {{ticket_status}}</p><p>— Stachbit Support</p>$tpl$,
+        array['customer_name', 'first_name', 'ticket_subject', 'ticket_status', 'message'],
+        'system',
+        true,
+        'ticket_reply'
+    ),
+    (
+        null,
+        'Support ticket status change',
+        'Your ticket "{{ticket_subject}}" is now {{ticket_status}}',
+        $tpl$<p>Hi {{first_name}},</p><p>The status of your ticket "{{ticket_subject}}" changed to <strong>{{ticket_status}}</strong>.</p><p>— Stachbit Support</p>$tpl$,
+        array['customer_name', 'first_name', 'ticket_subject', 'ticket_status'],
+        'system',
+        true,
+        'ticket_status_change'
+    )
+on conflict (system_key) where system_key is not null do nothing;
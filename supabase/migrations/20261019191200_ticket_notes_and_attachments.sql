@@ -0,0 +1,86 @@
+-- Internal notes share ticket_responses with the customer-visible thread. The policy is
+-- restrictive, so it narrows whatever permissive policies let ticket owners read their
+-- thread: rows marked is_internal are only returned to admins, including over Realtime.
+alter table public.ticket_responses
+    add column if not exists is_internal boolean not null default false;
+
+drop policy if exists "Internal notes are visible to admins only" on public.ticket_responses;
+create policy "Internal notes are visible to admins only"
+    on public.ticket_responses
+    as restrictive
+    for select
+    using (not is_internal or public.is_admin());
+
+-- An internal note is not a reply to the customer, so it doesn't stop the first-response timer
+create or replace function public.set_ticket_first_response()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.is_admin and not new.is_internal then
+        update public.support_tickets
+        set first_response_at = new.created_at
+        where id = new.ticket_id
+            and (first_response_at is null or first_response_at > new.created_at);
+    end if;
+    return new;
+end;
+$$;
+
+update public.support_tickets t
+set first_response_at = (
+    select min(r.created_at)
+    from public.ticket_responses r
+    where r.ticket_id = t.id and r.is_admin and not r.is_internal
+);
+
+-- Files attached to replies and notes: the metadata sits on the response as
+-- [{ path, name, size, content_type }], the files in the private ticket-attachments bucket
+-- under <ticket id>/.
+alter table public.ticket_responses
+    add column if not exists attachments jsonb;
+
+insert into storage.buckets (id, name, public)
+values ('ticket-attachments', 'ticket-attachments', false)
+on conflict (id) do nothing;
+
+drop policy if exists "Admins manage ticket attachments" on storage.objects;
+create policy "Admins manage ticket attachments"
+    on storage.objects
+    for all
+    using (bucket_id = 'ticket-attachments' and public.is_admin())
+    with check (bucket_id = 'ticket-attachments' and public.is_admin());
+
+-- Customers can upload into their own ticket's folder
+drop policy if exists "Ticket owners upload attachments" on storage.objects;
+create policy "Ticket owners upload attachments"
+    on storage.objects
+    for insert
+    with check (
+        bucket_id = 'ticket-attachments'
+        and exists (
+            select 1 from public.support_tickets
+            where support_tickets.id::text = (storage.foldername(name))[1]
+                and support_tickets.user_id = auth.uid()
+        )
+    );
+
+-- ...and read a file only when a response they can see lists it, so files attached to
+-- internal notes stay admin-only like the notes themselves
+drop policy if exists "Ticket owners read visible attachments" on storage.objects;
+create policy "Ticket owners read visible attachments"
+    on storage.objects
+    for select
+    using (
+        bucket_id = 'ticket-attachments'
+        and exists (
+            select 1
+            from public.ticket_responses
+            join public.support_tickets on support_tickets.id = ticket_responses.ticket_id
+            where support_tickets.user_id = auth.uid()
+                and not ticket_responses.is_internal
+                and ticket_responses.attachments @> jsonb_build_array(jsonb_build_object('path', storage.objects.name))
+        )
+    );
@@ -0,0 +1,36 @@
+-- Follow-up reminders and a timestamped history per inquiry, which takes over from the
+-- single overwritten admin_notes field.
+alter table public.website_inquiries
+    add column if not exists follow_up_at timestamptz;
+
+create index if not exists website_inquiries_follow_up_at_idx
+    on public.website_inquiries (follow_up_at)
+    where follow_up_at is not null;
+
+create table if not exists public.inquiry_activities (
+    id uuid primary key default gen_random_uuid(),
+    inquiry_id uuid not null references public.website_inquiries (id) on delete cascade,
+    user_id uuid references public.user_profiles (id) on delete set null,
+    type text not null,
+    message text not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists inquiry_activities_inquiry_id_idx
+    on public.inquiry_activities (inquiry_id, created_at desc);
+
+alter table public.inquiry_activities enable row level security;
+
+drop policy if exists "Admins manage inquiry activities" on public.inquiry_activities;
+create policy "Admins manage inquiry activities"
+    on public.inquiry_activities
+    for all
+    using (public.is_admin())
+    with check (public.is_admin());
+
+-- Existing notes become the first entry in each inquiry's history
+insert into public.inquiry_activities (inquiry_id, type, message, created_at)
+select id, 'note', admin_notes, coalesce(updated_at, created_at)
+from public.website_inquiries
+where nullif(trim(admin_notes), '') is not null
+    and not exists (select 1 from public.inquiry_activities a where a.inquiry_id = website_inquiries.id);
@@ -0,0 +1,14 @@
+-- A converted inquiry links to the customer account and the portfolio draft made from it,
+-- and both link back, so a retried conversion finds what an earlier attempt created.
+alter table public.website_inquiries
+    add column if not exists converted_user_id uuid references public.user_profiles (id) on delete set null,
+    add column if not exists portfolio_project_id uuid references public.portfolio_projects (id) on delete set null,
+    add column if not exists converted_at timestamptz;
+
+alter table public.user_profiles
+    add column if not exists source_inquiry_id uuid references public.website_inquiries (id) on delete set null;
+
+alter table public.portfolio_projects
+    add column if not exists inquiry_id uuid references public.website_inquiries (id) on delete set null;
+
+create index if not exists portfolio_projects_inquiry_id_idx on public.portfolio_projects (inquiry_id);
@@ -0,0 +1,134 @@
+-- Duplicate submissions are merged into one primary inquiry; the merged rows stay for the
+-- record but drop out of the lists.
+alter table public.website_inquiries
+    add column if not exists merged_into uuid references public.website_inquiries (id) on delete set null;
+
+create index if not exists website_inquiries_merged_into_idx on public.website_inquiries (merged_into);
+
+alter table public.website_inquiries drop constraint if exists website_inquiries_status_check;
+alter table public.website_inquiries
+    add constraint website_inquiries_status_check
+    check (status in ('new', 'contacted', 'in_progress', 'completed', 'spam'));
+
+-- Spam scoring runs here as each submission is inserted, so every inquiry is scored once
+-- and the lists can filter on it. Scores run 0-100; a new inquiry scoring 50 or more is
+-- moved to the spam status (INQUIRY_SPAM_THRESHOLD in src/lib/supabase.ts).
+alter table public.website_inquiries
+    add column if not exists spam_score integer,
+    add column if not exists spam_reasons text[];
+
+create or replace function public.score_website_inquiry()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    score integer := 0;
+    reasons text[] := '{}';
+    recent integer;
+    links integer;
+    domain text;
+    body text := lower(coalesce(new.name, '') || ' ' || coalesce(new.message, ''));
+    words text[];
+    garbled integer;
+    gibberish boolean;
+begin
+    -- Other submissions from the same email or phone within 24 hours, merged ones included
+    select count(*) into recent
+    from public.website_inquiries
+    where id <> new.id
+        and (lower(email) = lower(new.email) or (new.phone is not null and phone = new.phone))
+        and created_at between new.created_at - interval '24 hours' and new.created_at + interval '24 hours';
+    if recent >= 3 then
+        score := score + 40;
+        reasons := reasons || format('%s other submissions from this contact within 24h', recent);
+    elsif recent > 0 then
+        score := score + 15;
+        reasons := reasons || 'Repeat submission within 24h'::text;
+    end if;
+
+    select count(*) into links from regexp_matches(coalesce(new.message, ''), 'https?://|www\.', 'gi');
+    if links >= 5 then
+        score := score + 45;
+        reasons := reasons || format('%s links in the message', links);
+    elsif links >= 2 then
+        score := score + 25;
+        reasons := reasons || format('%s links in the message', links);
+    end if;
+
+    domain := lower(split_part(new.email, '@', 2));
+    if domain = any (array[
+        'mailinator.com', 'guerrillamail.com', '10minutemail.com', 'tempmail.com', 'temp-mail.org', 'yopmail.com',
+        'trashmail.com', 'sharklasers.com', 'getnada.com', 'dispostable.com', 'maildrop.cc', 'throwawaymail.com'
+    ]) then
+        score := score + 35;
+        reasons := reasons || format('Disposable email domain (%s)', domain);
+    end if;
+
+    -- Words with long consonant runs or no vowels at all read as keyboard mashing
+    words := array(select match[1] from regexp_matches(body, '([a-z]{4,})', 'g') as match);
+    if cardinality(words) = 0 then
+        gibberish := length(trim(body)) > 20 and trim(body) !~ '\s';
+    else
+        select count(*) into garbled from unnest(words) as word where word ~ '[^aeiouy]{6,}' or word !~ '[aeiouy]';
+        gibberish := garbled::numeric / cardinality(words) > 0.3;
+    end if;
+    if gibberish then
+        score := score + 30;
+        reasons := reasons || 'Message looks like gibberish'::text;
+    end if;
+
+    new.spam_score := least(score, 100);
+    new.spam_reasons := reasons;
+    if new.spam_score >= 50 and coalesce(new.status, 'new') = 'new' then
+        new.status := 'spam';
+    end if;
+    return new;
+end;
+$$;
+
+-- Also runs on update, so clearing spam_score asks for a fresh score
+drop trigger if exists score_website_inquiry on public.website_inquiries;
+create trigger score_website_inquiry
+    before insert or update on public.website_inquiries
+    for each row
+    when (new.spam_score is null)
+    execute function public.score_website_inquiry();
+
+create or replace function public.log_website_inquiry_spam_flag()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    insert into public.inquiry_activities (inquiry_id, type, message)
+    values (
+        new.id,
+        'status_change',
+        format('Flagged as likely spam (score %s): %s', new.spam_score, array_to_string(new.spam_reasons, '; '))
+    );
+    return new;
+end;
+$$;
+
+drop trigger if exists log_website_inquiry_spam_flag on public.website_inquiries;
+create trigger log_website_inquiry_spam_flag
+    after insert on public.website_inquiries
+    for each row
+    when (new.status = 'spam' and new.spam_score >= 50)
+    execute function public.log_website_inquiry_spam_flag();
+
+-- Score what was submitted before the trigger existed, logging the ones it moves to spam
+with rescored as (
+    update public.website_inquiries inquiry
+    set spam_score = null
+    from public.website_inquiries previous
+    where previous.id = inquiry.id and inquiry.spam_score is null
+    returning inquiry.id, previous.status as previous_status, inquiry.status, inquiry.spam_score, inquiry.spam_reasons
+)
+insert into public.inquiry_activities (inquiry_id, type, message)
+select id, 'status_change', format('Flagged as likely spam (score %s): %s', spam_score, array_to_string(spam_reasons, '; '))
+from rescored
+where status = 'spam' and previous_status is distinct from 'spam';
@@ -0,0 +1,28 @@
+-- Coupon restrictions. A null list means "no restriction" for that rule.
+alter table public.coupons
+    add column if not exists allowed_plan_ids uuid[],
+    add column if not exists allowed_tiers text[],
+    add column if not exists allowed_user_ids uuid[],
+    add column if not exists allowed_email_domains text[],
+    add column if not exists first_purchase_only boolean not null default false,
+    add column if not exists billing_cycle text,
+    add column if not exists max_uses_per_user integer;
+
+alter table public.coupons drop constraint if exists coupons_allowed_tiers_check;
+alter table public.coupons add constraint coupons_allowed_tiers_check
+    check (allowed_tiers is null or allowed_tiers <@ array['free_trial', 'basic', 'pro', 'ultra_pro']::text[]);
+
+alter table public.coupons drop constraint if exists coupons_billing_cycle_check;
+alter table public.coupons add constraint coupons_billing_cycle_check
+    check (billing_cycle is null or billing_cycle in ('monthly', 'yearly'));
+
+alter table public.coupons drop constraint if exists coupons_max_uses_per_user_check;
+alter table public.coupons add constraint coupons_max_uses_per_user_check
+    check (max_uses_per_user is null or max_uses_per_user > 0);
+
+-- Emails are matched case-insensitively, so lookups compare against a lower-cased copy
+-- rather than relying on how the address happened to be capitalised at signup.
+alter table public.user_profiles
+    add column if not exists email_lower text generated always as (lower(email)) stored;
+
+create index if not exists user_profiles_email_lower_idx on public.user_profiles (email_lower);
@@ -0,0 +1,197 @@
+-- One row per coupon use. A row starts as 'applied' when checkout accepts a code and becomes
+-- 'completed' once payment succeeds, so abandoned rows give each coupon's conversion rate.
+create table if not exists public.coupon_redemptions (
+    id uuid primary key default gen_random_uuid(),
+    coupon_id uuid not null references public.coupons (id) on delete cascade,
+    user_id uuid not null references public.user_profiles (id) on delete cascade,
+    plan_id uuid references public.subscription_plans (id) on delete set null,
+    subscription_id uuid references public.user_subscriptions (id) on delete set null,
+    billing_cycle text check (billing_cycle in ('monthly', 'yearly')),
+    status text not null default 'applied' check (status in ('applied', 'completed')),
+    original_amount numeric not null default 0,
+    discount_amount numeric not null default 0,
+    final_amount numeric not null default 0,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists coupon_redemptions_coupon_idx on public.coupon_redemptions (coupon_id, created_at desc);
+create index if not exists coupon_redemptions_user_idx on public.coupon_redemptions (user_id);
+
+alter table public.coupon_redemptions enable row level security;
+
+drop policy if exists "Admins manage coupon redemptions" on public.coupon_redemptions;
+create policy "Admins manage coupon redemptions"
+    on public.coupon_redemptions
+    for all
+    using (public.is_admin())
+    with check (public.is_admin());
+
+drop policy if exists "Users read own coupon redemptions" on public.coupon_redemptions;
+create policy "Users read own coupon redemptions"
+    on public.coupon_redemptions
+    for select
+    using (user_id = auth.uid());
+
+-- Called by checkout when the signed-in user enters a code. Checks the coupon's limits and
+-- restrictions and records an 'applied' redemption, or raises with the reason the code was
+-- refused.
+create or replace function public.apply_coupon(p_code text, p_plan_id uuid, p_billing_cycle text)
+returns public.coupon_redemptions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_user uuid := auth.uid();
+    v_coupon public.coupons;
+    v_plan public.subscription_plans;
+    v_original numeric;
+    v_discount numeric;
+    v_redemption public.coupon_redemptions;
+begin
+    if v_user is null then
+        raise exception 'Sign in to use a coupon';
+    end if;
+    if p_billing_cycle not in ('monthly', 'yearly') then
+        raise exception 'Unknown billing cycle %', p_billing_cycle;
+    end if;
+
+    select * into v_plan from public.subscription_plans where id = p_plan_id;
+    if not found then
+        raise exception 'Plan not found';
+    end if;
+
+    select * into v_coupon from public.coupons where code = upper(trim(p_code));
+    if not found then
+        raise exception 'Coupon code not found';
+    end if;
+
+    if not v_coupon.is_active then
+        raise exception 'This coupon is no longer active';
+    end if;
+    if v_coupon.valid_from is not null and v_coupon.valid_from > now() then
+        raise exception 'This coupon is not valid yet';
+    end if;
+    if v_coupon.valid_until is not null and v_coupon.valid_until < now() then
+        raise exception 'This coupon has expired';
+    end if;
+    if v_coupon.max_uses is not null and v_coupon.current_uses >= v_coupon.max_uses then
+        raise exception 'This coupon has reached its usage limit';
+    end if;
+    if cardinality(v_coupon.allowed_plan_ids) > 0 and not v_plan.id = any (v_coupon.allowed_plan_ids) then
+        raise exception 'This coupon does not apply to the % plan', v_plan.name;
+    end if;
+    if cardinality(v_coupon.allowed_tiers) > 0 and not v_plan.tier::text = any (v_coupon.allowed_tiers) then
+        raise exception 'This coupon does not apply to % plans', v_plan.tier;
+    end if;
+    if v_coupon.billing_cycle is not null and v_coupon.billing_cycle <> p_billing_cycle then
+        raise exception 'This coupon is only valid on % billing', v_coupon.billing_cycle;
+    end if;
+    if cardinality(v_coupon.allowed_user_ids) > 0 and not v_user = any (v_coupon.allowed_user_ids) then
+        raise exception 'This coupon is not available for this account';
+    end if;
+    if cardinality(v_coupon.allowed_email_domains) > 0 and not exists (
+        select 1 from public.user_profiles p
+        where p.id = v_user
+            and split_part(p.email_lower, '@', 2) in (select lower(d) from unnest(v_coupon.allowed_email_domains) d)
+    ) then
+        raise exception 'This coupon is not available for this email domain';
+    end if;
+    if v_coupon.first_purchase_only and exists (
+        select 1 from public.user_subscriptions s where s.user_id = v_user and s.amount_paid > 0
+    ) then
+        raise exception 'This coupon is only valid on a first purchase';
+    end if;
+    if v_coupon.max_uses_per_user is not null and (
+        select count(*) from public.coupon_redemptions r
+        where r.coupon_id = v_coupon.id and r.user_id = v_user and r.status = 'completed'
+    ) >= v_coupon.max_uses_per_user then
+        raise exception 'You have already used this coupon the maximum number of times';
+    end if;
+
+    -- Yearly billing falls back to twelve months when a plan has no yearly price, and a
+    -- discount never takes the price below zero
+    v_original := case when p_billing_cycle = 'yearly'
+        then coalesce(v_plan.price_yearly, v_plan.price_monthly * 12)
+        else v_plan.price_monthly end;
+    v_discount := case when v_coupon.discount_type = 'percentage'
+        then round(v_original * least(v_coupon.discount_value, 100)) / 100
+        else least(v_coupon.discount_value, v_original) end;
+
+    insert into public.coupon_redemptions
+        (coupon_id, user_id, plan_id, billing_cycle, original_amount, discount_amount, final_amount)
+    values
+        (v_coupon.id, v_user, v_plan.id, p_billing_cycle, v_original, v_discount, v_original - v_discount)
+    returning * into v_redemption;
+
+    return v_redemption;
+end;
+$$;
+
+-- Called by checkout once payment for the subscription has gone through. Only the first
+-- completion of a redemption counts towards the coupon's usage.
+create or replace function public.complete_coupon_redemption(p_redemption_id uuid, p_subscription_id uuid)
+returns public.coupon_redemptions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_redemption public.coupon_redemptions;
+begin
+    update public.coupon_redemptions
+    set status = 'completed', subscription_id = p_subscription_id
+    where id = p_redemption_id
+        and user_id = auth.uid()
+        and status = 'applied'
+        and exists (
+            select 1 from public.user_subscriptions s
+            where s.id = p_subscription_id and s.user_id = auth.uid()
+        )
+    returning * into v_redemption;
+
+    if not found then
+        raise exception 'Coupon redemption not found';
+    end if;
+
+    update public.coupons set current_uses = current_uses + 1 where id = v_redemption.coupon_id;
+    return v_redemption;
+end;
+$$;
+
+revoke all on function public.apply_coupon(text, uuid, text) from public;
+grant execute on function public.apply_coupon(text, uuid, text) to authenticated;
+revoke all on function public.complete_coupon_redemption(uuid, uuid) from public;
+grant execute on function public.complete_coupon_redemption(uuid, uuid) to authenticated;
+
+-- Per-coupon totals for the coupon report, aggregated here so the admin page never has to
+-- pull every redemption row (PostgREST caps a response at 1000 rows). Discount, revenue and
+-- unique users only count completed purchases; applied counts every redemption attempt.
+create or replace function public.coupon_report()
+returns table (
+    coupon_id uuid,
+    applied bigint,
+    redemptions bigint,
+    unique_users bigint,
+    total_discount numeric,
+    revenue numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select
+        r.coupon_id,
+        count(*) as applied,
+        count(*) filter (where r.status = 'completed') as redemptions,
+        count(distinct r.user_id) filter (where r.status = 'completed') as unique_users,
+        coalesce(sum(r.discount_amount) filter (where r.status = 'completed'), 0) as total_discount,
+        coalesce(sum(r.final_amount) filter (where r.status = 'completed'), 0) as revenue
+    from public.coupon_redemptions r
+    where public.is_admin()
+    group by r.coupon_id;
+$$;
+
+revoke all on function public.coupon_report() from public;
+grant execute on function public.coupon_report() to authenticated;
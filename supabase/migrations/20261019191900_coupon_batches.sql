@@ -0,0 +1,61 @@
+-- A named run of generated codes. The codes themselves are ordinary coupons pointing back
+-- at their batch, so checkout and the redemption log treat them like any other code.
+create table if not exists public.coupon_batches (
+    id uuid primary key default gen_random_uuid(),
+    name text not null,
+    prefix text not null default '',
+    pattern text not null,
+    quantity integer not null check (quantity between 1 and 1000),
+    created_by uuid references public.user_profiles (id) on delete set null,
+    created_at timestamptz not null default now()
+);
+
+alter table public.coupon_batches enable row level security;
+
+drop policy if exists "Admins manage coupon batches" on public.coupon_batches;
+create policy "Admins manage coupon batches"
+    on public.coupon_batches
+    for all
+    using (public.is_admin())
+    with check (public.is_admin());
+
+alter table public.coupons
+    add column if not exists batch_id uuid references public.coupon_batches (id) on delete cascade;
+
+create index if not exists coupons_batch_id_idx on public.coupons (batch_id) where batch_id is not null;
+
+-- The report now also returns each code's batch so batch rows can add up their codes.
+-- The return type changes, so the function has to be dropped rather than replaced.
+drop function if exists public.coupon_report();
+
+create function public.coupon_report()
+returns table (
+    coupon_id uuid,
+    batch_id uuid,
+    applied bigint,
+    redemptions bigint,
+    unique_users bigint,
+    total_discount numeric,
+    revenue numeric
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select
+        r.coupon_id,
+        c.batch_id,
+        count(*) as applied,
+        count(*) filter (where r.status = 'completed') as redemptions,
+        count(distinct r.user_id) filter (where r.status = 'completed') as unique_users,
+        coalesce(sum(r.discount_amount) filter (where r.status = 'completed'), 0) as total_discount,
+        coalesce(sum(r.final_amount) filter (where r.status = 'completed'), 0) as revenue
+    from public.coupon_redemptions r
+    left join public.coupons c on c.id = r.coupon_id
+    where public.is_admin()
+    group by r.coupon_id, c.batch_id;
+$$;
+
+revoke all on function public.coupon_report() from public;
+grant execute on function public.coupon_report() to authenticated;
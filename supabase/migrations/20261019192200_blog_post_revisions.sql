@@ -0,0 +1,26 @@
+-- One row per saved state of a post's title, content, author or SEO fields, numbered per
+-- post. Written by the admin panel whenever one of those fields changes.
+create table if not exists public.blog_post_revisions (
+    id uuid primary key default gen_random_uuid(),
+    post_id uuid not null references public.blog_posts (id) on delete cascade,
+    revision integer not null,
+    title text not null,
+    excerpt text,
+    content text not null default '',
+    author_name text not null default '',
+    meta_title text,
+    meta_description text,
+    meta_keywords text,
+    created_by uuid references public.user_profiles (id) on delete set null,
+    created_at timestamptz not null default now(),
+    unique (post_id, revision)
+);
+
+alter table public.blog_post_revisions enable row level security;
+
+drop policy if exists "Admins manage blog post revisions" on public.blog_post_revisions;
+create policy "Admins manage blog post revisions"
+    on public.blog_post_revisions
+    for all
+    using (public.is_admin())
+    with check (public.is_admin());
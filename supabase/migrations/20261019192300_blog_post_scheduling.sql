@@ -0,0 +1,61 @@
+-- Blog posts name the site they appear on and can be scheduled. A scheduled post stays
+-- unpublished with scheduled_at set; the job below publishes it once that time has passed,
+-- dated to when it was scheduled for, whether or not anyone has the admin panel open.
+alter table public.blog_posts
+    add column if not exists target_site text not null default 'stachbit.in'
+        check (target_site in ('stachbit.in', 'ai.stachbit.in', 'both')),
+    add column if not exists scheduled_at timestamptz;
+
+create index if not exists blog_posts_target_site_idx on public.blog_posts (target_site);
+create index if not exists blog_posts_due_idx on public.blog_posts (scheduled_at)
+    where not is_published and scheduled_at is not null;
+
+-- activity_logs has no user for the job, so its entries are recorded without one and name
+-- the scheduler as their user agent.
+alter table public.activity_logs alter column user_id drop not null;
+
+create or replace function public.publish_due_blog_posts()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    published integer;
+begin
+    with due as (
+        update public.blog_posts
+        set is_published = true,
+            published_at = scheduled_at,
+            scheduled_at = null,
+            updated_at = now()
+        where not is_published
+            and scheduled_at <= now()
+        returning id, published_at
+    )
+    insert into public.activity_logs (user_id, action, details, user_agent)
+    select
+        null,
+        'admin_blog_published',
+        jsonb_build_object(
+            'entity_type', 'blog_post',
+            'entity_id', due.id,
+            'before', jsonb_build_object('is_published', false, 'scheduled_at', due.published_at),
+            'after', jsonb_build_object('is_published', true, 'published_at', due.published_at, 'scheduled_at', null)
+        ),
+        'pg_cron: publish-due-blog-posts'
+    from due;
+    get diagnostics published = row_count;
+    return published;
+end;
+$$;
+
+revoke all on function public.publish_due_blog_posts() from public;
+
+create extension if not exists pg_cron;
+
+select cron.schedule(
+    'publish-due-blog-posts',
+    '* * * * *',
+    $$select public.publish_due_blog_posts()$$
+);
@@ -0,0 +1,21 @@
+-- Pages blog posts may link to, per site. A path ending in /* also covers every page beneath it.
+-- Read by the admin panel's link checker and the AI blog generator.
+create table if not exists public.site_routes (
+    id uuid primary key default gen_random_uuid(),
+    path text not null check (path like '/%'),
+    label text not null,
+    description text,
+    target_site text not null default 'stachbit.in'
+        check (target_site in ('stachbit.in', 'ai.stachbit.in', 'both')),
+    created_at timestamptz not null default now(),
+    unique (path, target_site)
+);
+
+alter table public.site_routes enable row level security;
+
+drop policy if exists "Admins manage site routes" on public.site_routes;
+create policy "Admins manage site routes"
+    on public.site_routes
+    for all
+    using (public.is_admin())
+    with check (public.is_admin());